@@ -9,12 +9,15 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import History from "./pages/History";
 import UseCases from "./pages/UseCases";
+import Batch from "./pages/Batch";
+import Usage from "./pages/Usage";
+import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
-const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
-  const { user, loading } = useAuth();
+const ProtectedRoute = ({ children, adminOnly = false }: { children: React.ReactNode; adminOnly?: boolean }) => {
+  const { user, loading, isAdmin } = useAuth();
   
   if (loading) {
     return (
@@ -24,7 +27,10 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
     );
   }
   
-  return user ? <Layout>{children}</Layout> : <Navigate to="/auth" />;
+  if (!user) {
+    return <Navigate to="/auth" />;
+  }
+  return adminOnly && !isAdmin ? <Navigate to="/" /> : <Layout>{children}</Layout>;
 };
 
 const App = () => (
@@ -51,6 +57,21 @@ const App = () => (
                 <UseCases />
               </ProtectedRoute>
             } />
+            <Route path="/batch" element={
+              <ProtectedRoute>
+                <Batch />
+              </ProtectedRoute>
+            } />
+            <Route path="/usage" element={
+              <ProtectedRoute>
+                <Usage />
+              </ProtectedRoute>
+            } />
+            <Route path="/admin" element={
+              <ProtectedRoute adminOnly>
+                <Admin />
+              </ProtectedRoute>
+            } />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
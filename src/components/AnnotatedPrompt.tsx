@@ -0,0 +1,90 @@
+import React from 'react';
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { ANNOTATION_KINDS, type AnnotationKind, type PromptAnnotation } from "@shared/evaluation";
+
+const KIND_STYLES: Record<AnnotationKind, string> = {
+  example: 'bg-primary/25 border-primary',
+  instruction: 'bg-sky-500/20 border-sky-500',
+  reasoning_cue: 'bg-warning/25 border-warning',
+  output_format: 'bg-success/25 border-success',
+};
+
+const kindLabel = (kind: AnnotationKind) =>
+  ANNOTATION_KINDS.find((entry) => entry.id === kind)?.label ?? kind;
+
+interface AnnotatedPromptProps {
+  text: string;
+  annotations: PromptAnnotation[];
+}
+
+type Segment = { text: string; annotation?: PromptAnnotation };
+
+// Splits the prompt into plain and highlighted segments. Annotations whose
+// offsets no longer match the text (e.g. after editing) or that overlap an
+// earlier annotation are skipped.
+const toSegments = (text: string, annotations: PromptAnnotation[]): Segment[] => {
+  const segments: Segment[] = [];
+  let cursor = 0;
+
+  [...annotations]
+    .sort((a, b) => a.start - b.start)
+    .forEach((annotation) => {
+      if (annotation.start < cursor || text.slice(annotation.start, annotation.end) !== annotation.text) return;
+      if (annotation.start > cursor) {
+        segments.push({ text: text.slice(cursor, annotation.start) });
+      }
+      segments.push({ text: annotation.text, annotation });
+      cursor = annotation.end;
+    });
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor) });
+  }
+  return segments;
+};
+
+const AnnotatedPrompt = ({ text, annotations }: AnnotatedPromptProps) => {
+  const segments = toSegments(text, annotations);
+  const kinds = ANNOTATION_KINDS.filter((kind) =>
+    segments.some((segment) => segment.annotation?.kind === kind.id)
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-muted/50 rounded-lg border border-border/50 text-sm whitespace-pre-wrap leading-relaxed">
+        {segments.map((segment, index) =>
+          segment.annotation ? (
+            <Tooltip key={index}>
+              <TooltipTrigger asChild>
+                <mark className={cn('rounded-sm border-b-2 px-0.5 text-foreground cursor-help', KIND_STYLES[segment.annotation.kind])}>
+                  {segment.text}
+                </mark>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">
+                <p className="font-medium">{kindLabel(segment.annotation.kind)}</p>
+                {segment.annotation.note && (
+                  <p className="text-xs text-muted-foreground">{segment.annotation.note}</p>
+                )}
+              </TooltipContent>
+            </Tooltip>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </div>
+      {kinds.length > 0 && (
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {kinds.map((kind) => (
+            <span key={kind.id} className="flex items-center gap-1.5">
+              <span className={cn('h-3 w-3 rounded-sm border-b-2', KIND_STYLES[kind.id])} />
+              {kind.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnnotatedPrompt;
@@ -0,0 +1,384 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileUp, Layers, Loader2, Play, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useTechniques } from "@/hooks/useTechniques";
+import { chunk, parseBatchFile } from "@/lib/batch";
+import { describeFunctionError, readErrorBody, type ErrorMessage } from "@/lib/errors";
+import { formatScore, getMatchLabel, getMatchVariant, getScoreVariant } from "@/lib/evaluation";
+import { MAX_BATCH_SIZE, type BatchItem, type BatchItemResult, type BatchResponse } from "@shared/batch";
+import type { ErrorCode } from "@shared/errors";
+
+// Smaller requests than the server allows so progress updates more often
+const CHUNK_SIZE = Math.min(10, MAX_BATCH_SIZE);
+
+// A chunk refused for quota or provider rate limits is retried once the wait
+// is over, as long as the wait is short; a used-up daily quota ends the run
+const RATE_LIMIT_CODES: ErrorCode[] = ['quota_exceeded', 'upstream_rate_limited'];
+const MAX_CHUNK_ATTEMPTS = 3;
+const MAX_WAIT_SECONDS = 90;
+const DEFAULT_WAIT_SECONDS = 10;
+
+const ITEM_ERROR_FALLBACK: ErrorMessage = {
+  title: "Evaluation Failed",
+  description: "This prompt could not be evaluated. Please try again.",
+};
+
+// Failed items carry the message to show rather than the error body
+type BatchRowResult =
+  | Extract<BatchItemResult, { status: 'ok' }>
+  | { index: number; status: 'error'; message: ErrorMessage };
+
+const sleep = (seconds: number) => new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+
+const BatchEvaluator = () => {
+  const [fileName, setFileName] = useState('');
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [defaultTechnique, setDefaultTechnique] = useState('');
+  const [results, setResults] = useState<(BatchRowResult | null)[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  // Seconds the run is pausing for a rate limit to reset
+  const [waitSeconds, setWaitSeconds] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { techniques, loading: techniquesLoading } = useTechniques();
+
+  const completed = results.filter(Boolean).length;
+  const succeeded = results.filter((result) => result?.status === 'ok').length;
+  const missingTechnique = !defaultTechnique && items.some((item) => !item.technique);
+
+  const techniqueFor = (item: BatchItem) => item.technique || defaultTechnique;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = parseBatchFile(file.name, await file.text());
+      if (parsed.length === 0) {
+        throw new Error('The file does not contain any prompts');
+      }
+      setFileName(file.name);
+      setItems(parsed);
+      setResults([]);
+    } catch (error) {
+      console.error('Error parsing batch file:', error);
+      toast({
+        title: "Invalid File",
+        description: error instanceof Error ? error.message : 'The file could not be read.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Evaluates one chunk, waiting out short rate limits between attempts.
+  // Returns `stoppedBy` when later chunks would fail the same way
+  const evaluateChunk = async (batch: BatchItem[]): Promise<{ results: BatchRowResult[]; stoppedBy?: ErrorMessage }> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { data, error } = await supabase.functions.invoke('evaluate-batch', {
+          body: {
+            items: batch.map((item) => ({ ...item, technique: techniqueFor(item) }))
+          }
+        });
+
+        if (error) throw error;
+        const results = await Promise.all((data as BatchResponse).results.map(async (result): Promise<BatchRowResult> =>
+          result.status === 'ok'
+            ? result
+            : { index: result.index, status: 'error', message: await describeFunctionError(result.error, ITEM_ERROR_FALLBACK) }
+        ));
+        return { results };
+      } catch (error) {
+        console.error('Error evaluating batch:', error);
+        const body = await readErrorBody(error);
+        const rateLimited = body !== null && RATE_LIMIT_CODES.includes(body.code);
+        const wait = body?.retryAfter ?? DEFAULT_WAIT_SECONDS;
+
+        if (rateLimited && wait <= MAX_WAIT_SECONDS && attempt < MAX_CHUNK_ATTEMPTS) {
+          setWaitSeconds(wait);
+          await sleep(wait);
+          setWaitSeconds(null);
+          continue;
+        }
+
+        const message = await describeFunctionError(body ?? error, {
+          title: "Request Failed",
+          description: "This part of the batch could not be evaluated. Please try again.",
+        });
+        const fatal = body?.code === 'quota_exceeded' || body?.code === 'unauthorized';
+        return {
+          results: batch.map((_, index) => ({ index, status: 'error', message })),
+          ...(fatal && { stoppedBy: message }),
+        };
+      }
+    }
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setResults(new Array(items.length).fill(null));
+
+    let offset = 0;
+    let stoppedBy: ErrorMessage | undefined;
+    for (const batch of chunk(items, CHUNK_SIZE)) {
+      const start = offset;
+      offset += batch.length;
+
+      // Once the quota is used up the remaining chunks are not sent
+      const outcome = stoppedBy
+        ? { results: batch.map((_, index): BatchRowResult => ({ index, status: 'error', message: stoppedBy })) }
+        : await evaluateChunk(batch);
+      stoppedBy ??= outcome.stoppedBy;
+
+      setResults((prev) => {
+        const next = [...prev];
+        outcome.results.forEach((result) => {
+          next[start + result.index] = { ...result, index: start + result.index };
+        });
+        return next;
+      });
+    }
+
+    setIsRunning(false);
+    if (stoppedBy) {
+      toast({ ...stoppedBy, variant: "destructive" });
+    } else {
+      toast({
+        title: "Batch Complete",
+        description: `Evaluated ${items.length} prompt${items.length !== 1 ? 's' : ''}.`,
+      });
+    }
+  };
+
+  const handleSaveAll = async () => {
+    if (!user) return;
+
+    setIsSaving(true);
+    try {
+      const evaluations = results.flatMap((result) => {
+        if (result?.status !== 'ok') return [];
+        const item = items[result.index];
+        const { evaluation } = result;
+        return [{
+          title: item.title ?? null,
+          prompt_text: item.prompt,
+          selected_technique: techniqueFor(item),
+          is_match: evaluation.match,
+          score: evaluation.score,
+          example_count: evaluation.exampleCount,
+          confidence: evaluation.confidence,
+          rationale: evaluation.rationale,
+          annotations: evaluation.annotations,
+          criteria: evaluation.criteria,
+          judge_template_version: evaluation.templateVersion ?? null
+        }];
+      });
+
+      // A single RPC call so the whole batch is saved or none of it is
+      const { error } = await supabase.rpc('save_evaluation_batch', {
+        evaluations: evaluations as unknown as Json
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Saved Successfully",
+        description: `${evaluations.length} evaluation${evaluations.length !== 1 ? 's' : ''} saved to your history.`,
+      });
+    } catch (error) {
+      console.error('Error saving batch:', error);
+      toast({
+        title: "Save Failed",
+        description: "None of the evaluations were saved. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 px-4 lg:px-8">
+      {/* Header */}
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-full bg-gradient-to-r from-primary to-primary-glow">
+            <Layers className="h-6 w-6 text-primary-foreground" />
+          </div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+            Batch Evaluation
+          </h1>
+        </div>
+        <p className="text-lg text-muted-foreground">
+          Upload a prompt library and evaluate every entry in one run
+        </p>
+      </div>
+
+      {/* Upload */}
+      <Card className="shadow-[var(--shadow-card)]">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5 text-primary" />
+            Prompt Library
+          </CardTitle>
+          <CardDescription>
+            CSV with a header row (prompt, technique, title) or JSONL with one {'{prompt, technique, title}'} object per line
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="batch-file">File</Label>
+              <Input
+                id="batch-file"
+                type="file"
+                accept=".csv,.jsonl,.ndjson"
+                onChange={handleFileChange}
+                disabled={isRunning}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Default technique</Label>
+              <Select value={defaultTechnique} onValueChange={setDefaultTechnique} disabled={techniquesLoading || isRunning}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Used for rows without a technique" />
+                </SelectTrigger>
+                <SelectContent>
+                  {techniques.map((tech) => (
+                    <SelectItem key={tech.id} value={tech.id}>
+                      {tech.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {items.length > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                {fileName}: {items.length} prompt{items.length !== 1 ? 's' : ''}
+                {missingTechnique && ' (choose a default technique for rows without one)'}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleRun}
+                  disabled={isRunning || missingTechnique}
+                  variant="gradient"
+                >
+                  {isRunning ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Evaluating...
+                    </>
+                  ) : (
+                    <>
+                      <Play className="h-4 w-4" />
+                      Evaluate All
+                    </>
+                  )}
+                </Button>
+                <Button
+                  onClick={handleSaveAll}
+                  disabled={isRunning || isSaving || succeeded === 0}
+                  variant="outline"
+                >
+                  {isSaving ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4" />
+                  )}
+                  Save All to History
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {results.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>
+                  {completed} of {items.length} evaluated
+                  {waitSeconds !== null && ` (rate limit reached, resuming in ${waitSeconds}s)`}
+                </span>
+                <span>{completed - succeeded} failed</span>
+              </div>
+              <Progress value={(completed / items.length) * 100} className="h-2" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      {items.length > 0 && (
+        <Card className="shadow-[var(--shadow-card)]">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>Prompt</TableHead>
+                  <TableHead>Technique</TableHead>
+                  <TableHead>Match</TableHead>
+                  <TableHead>Score</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item, index) => {
+                  const result = results[index];
+                  return (
+                    <TableRow key={index}>
+                      <TableCell className="font-mono text-xs">{index + 1}</TableCell>
+                      <TableCell className="max-w-md">
+                        {item.title && <p className="font-medium text-sm">{item.title}</p>}
+                        <p className="text-xs text-muted-foreground line-clamp-2">{item.prompt}</p>
+                        {result?.status === 'error' && (
+                          <p className="text-xs text-destructive mt-1">
+                            {result.message.title}: {result.message.description}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{techniqueFor(item) || '—'}</TableCell>
+                      <TableCell>
+                        {result?.status === 'ok' ? (
+                          <Badge variant={getMatchVariant(result.evaluation.match)}>
+                            {getMatchLabel(result.evaluation.match)}
+                          </Badge>
+                        ) : result?.status === 'error' ? (
+                          <Badge variant="destructive">Error</Badge>
+                        ) : isRunning ? (
+                          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                        ) : null}
+                      </TableCell>
+                      <TableCell>
+                        {result?.status === 'ok' && (
+                          <Badge variant={getScoreVariant(result.evaluation.score)}>
+                            {formatScore(result.evaluation.score)}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default BatchEvaluator;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, MessageSquarePlus, Plus, X } from "lucide-react";
+import { CHAT_ROLES, type ChatMessage, type ChatRole } from "@shared/messages";
+
+interface ChatMessagesEditorProps {
+  messages: ChatMessage[];
+  onChange: (messages: ChatMessage[]) => void;
+}
+
+const ROLE_LABELS: Record<ChatRole, string> = {
+  system: 'System',
+  user: 'User',
+  assistant: 'Assistant',
+};
+
+const PLACEHOLDERS: Record<ChatRole, string> = {
+  system: 'Instructions for the model...',
+  user: 'What the user says...',
+  assistant: 'How the model should answer...',
+};
+
+// Editor for chat prompts built as OpenAI-style message lists. Few-shot
+// examples are user/assistant pairs, which evaluate-prompt counts from the
+// turns.
+const ChatMessagesEditor = ({ messages, onChange }: ChatMessagesEditorProps) => {
+  const update = (index: number, message: Partial<ChatMessage>) =>
+    onChange(messages.map((current, i) => (i === index ? { ...current, ...message } : current)));
+
+  const remove = (index: number) => onChange(messages.filter((_, i) => i !== index));
+
+  const move = (index: number, offset: number) => {
+    const next = [...messages];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const addMessage = () => {
+    const last = messages[messages.length - 1];
+    onChange([...messages, { role: last?.role === 'user' ? 'assistant' : 'user', content: '' }]);
+  };
+
+  // Examples go before the final user turn, which is the actual input
+  const addExample = () => {
+    const pair: ChatMessage[] = [{ role: 'user', content: '' }, { role: 'assistant', content: '' }];
+    const last = messages[messages.length - 1];
+    onChange(last?.role === 'user'
+      ? [...messages.slice(0, -1), ...pair, last]
+      : [...messages, ...pair]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {messages.map((message, index) => (
+        <div key={index} className="p-3 rounded-lg border border-border/50 bg-muted/20 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <Select value={message.role} onValueChange={(role) => update(index, { role: role as ChatRole })}>
+              <SelectTrigger className="w-36 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHAT_ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-1">
+              <Button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={() => move(index, 1)}
+                disabled={index === messages.length - 1}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={() => remove(index)}
+                disabled={messages.length === 1}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Remove message"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <Textarea
+            value={message.content}
+            onChange={(e) => update(index, { content: e.target.value })}
+            placeholder={PLACEHOLDERS[message.role]}
+            className="min-h-[72px] resize-y"
+          />
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={addMessage} variant="outline" size="sm" className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add message
+        </Button>
+        <Button onClick={addExample} variant="outline" size="sm" className="gap-2">
+          <MessageSquarePlus className="h-4 w-4" />
+          Add example pair
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ChatMessagesEditor;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Badge } from "@/components/ui/badge";
+import { getScoreVariant } from "@/lib/evaluation";
+import { RUBRIC_CRITERIA } from "@shared/evaluation";
+
+interface CriterionScore {
+  criterion: string;
+  score: number;
+  comment: string;
+}
+
+interface CriteriaBreakdownProps {
+  criteria: CriterionScore[];
+}
+
+const chartConfig = {
+  score: {
+    label: "Score",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const getCriterionLabel = (id: string) =>
+  RUBRIC_CRITERIA.find((criterion) => criterion.id === id)?.label ?? id;
+
+const CriteriaBreakdown = ({ criteria }: CriteriaBreakdownProps) => {
+  if (criteria.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No per-criterion scores were returned for this evaluation.
+      </p>
+    );
+  }
+
+  const chartData = criteria.map((criterion) => ({
+    criterion: getCriterionLabel(criterion.criterion),
+    score: Number(criterion.score),
+  }));
+
+  return (
+    <div className="space-y-4">
+      {criteria.length >= 3 && (
+        <ChartContainer config={chartConfig} className="mx-auto aspect-square max-h-[280px]">
+          <RadarChart data={chartData}>
+            <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+            <PolarGrid />
+            <PolarAngleAxis dataKey="criterion" tick={{ fontSize: 10 }} />
+            <PolarRadiusAxis domain={[0, 10]} tick={false} axisLine={false} />
+            <Radar
+              dataKey="score"
+              fill="var(--color-score)"
+              fillOpacity={0.5}
+              stroke="var(--color-score)"
+            />
+          </RadarChart>
+        </ChartContainer>
+      )}
+
+      <div className="space-y-2">
+        {criteria.map((criterion) => (
+          <div key={criterion.criterion} className="flex items-start justify-between gap-3 text-sm">
+            <div>
+              <p className="font-medium">{getCriterionLabel(criterion.criterion)}</p>
+              {criterion.comment && (
+                <p className="text-xs text-muted-foreground">{criterion.comment}</p>
+              )}
+            </div>
+            <Badge variant={getScoreVariant(Number(criterion.score))} className="shrink-0">
+              {Number(criterion.score)}/10
+            </Badge>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CriteriaBreakdown;
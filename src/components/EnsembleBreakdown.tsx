@@ -0,0 +1,60 @@
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { formatScore, getMatchVariant } from "@/lib/evaluation";
+import type { EnsembleSummary } from "@shared/evaluation";
+
+interface EnsembleBreakdownProps {
+  ensemble: EnsembleSummary;
+}
+
+// Agreement below this share of samples is flagged as an unstable verdict
+const LOW_AGREEMENT = 0.75;
+
+const EnsembleBreakdown = ({ ensemble }: EnsembleBreakdownProps) => {
+  const agreementPercent = Math.round(ensemble.agreement * 100);
+  const standardDeviation = Math.sqrt(ensemble.scoreVariance);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">Verdict agreement</span>
+            <span className="font-medium">{agreementPercent}%</span>
+          </div>
+          <Progress value={agreementPercent} className="h-2" />
+        </div>
+        <div className="space-y-1">
+          <p className="text-muted-foreground">Score spread</p>
+          <p className="font-medium">
+            ±{standardDeviation.toFixed(1)}
+            <span className="text-xs text-muted-foreground"> (variance {ensemble.scoreVariance})</span>
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {ensemble.samples.map((sample, index) => (
+          <Badge key={index} variant={getMatchVariant(sample.match)} className="gap-1 font-normal">
+            <span className="font-mono">{sample.provider}</span>
+            <span className="font-semibold">{formatScore(sample.score)}</span>
+          </Badge>
+        ))}
+        {ensemble.failed > 0 && (
+          <Badge variant="outline" className="font-normal">
+            {ensemble.failed} failed
+          </Badge>
+        )}
+      </div>
+
+      {ensemble.agreement < LOW_AGREEMENT && (
+        <p className="text-xs text-muted-foreground">
+          The samples disagree on the verdict, so treat it as borderline.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default EnsembleBreakdown;
@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle2, ShieldAlert, Zap } from "lucide-react";
+import { analyzePrompt, assessTechnique } from "@shared/heuristics";
+import { analyzeMessages, type ChatMessage } from "@shared/messages";
+
+interface HeuristicPreviewProps {
+  prompt: string;
+  technique: string;
+  // Chat prompts pass their messages so examples are counted from the turns
+  messages?: ChatMessage[];
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Instant, model-free feedback shown while the user types. The same analyzer
+// runs in evaluate-prompt, so a conclusive verdict here is what the server
+// will answer without calling the model.
+const HeuristicPreview = ({ prompt, technique, messages }: HeuristicPreviewProps) => {
+  const facts = useMemo(() => (messages ? analyzeMessages(messages).facts : analyzePrompt(prompt)), [prompt, messages]);
+  const verdict = useMemo(() => (technique ? assessTechnique(facts, technique) : null), [facts, technique]);
+
+  if (!prompt.trim()) return null;
+
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 border border-border/50 space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Zap className="h-4 w-4 text-primary" />
+        Instant check
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="outline">{plural(facts.exampleCount, 'example')}</Badge>
+        <Badge variant="outline">{plural(facts.reasoningCues.length, 'reasoning cue')}</Badge>
+        {facts.delimiters.map((delimiter) => (
+          <Badge key={delimiter} variant="secondary">{delimiter}</Badge>
+        ))}
+        {facts.variables.map((variable) => (
+          <Badge key={variable} variant="secondary" className="font-mono">{`{${variable}}`}</Badge>
+        ))}
+      </div>
+      {verdict && verdict.match !== null && (
+        <div className="flex items-start gap-2 text-sm">
+          {verdict.match ? (
+            <CheckCircle2 className="h-4 w-4 mt-0.5 text-success shrink-0" />
+          ) : (
+            <AlertTriangle className="h-4 w-4 mt-0.5 text-warning shrink-0" />
+          )}
+          <p className="text-muted-foreground">
+            <span className="font-medium text-foreground">
+              {verdict.match ? 'Likely match. ' : 'Likely mismatch. '}
+            </span>
+            {verdict.reasons.join(' ')}
+            {verdict.conclusive && ' Evaluating will answer instantly without a model call.'}
+          </p>
+        </div>
+      )}
+      {facts.injectionCues.length > 0 && (
+        <div className="flex items-start gap-2 text-sm">
+          <ShieldAlert className="h-4 w-4 mt-0.5 text-warning shrink-0" />
+          <p className="text-muted-foreground">
+            <span className="font-medium text-foreground">Addresses the evaluator. </span>
+            {facts.injectionCues.map((cue) => `"${cue.text}"`).join(', ')}. The judge treats this as data rather than instructions and flags the result.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HeuristicPreview;
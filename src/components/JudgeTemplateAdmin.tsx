@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, FileText, Loader2, Save, Shield } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { JUDGE_TEMPLATE_VARIABLES, validateJudgeTemplate } from "@shared/judge-template";
+
+type JudgeTemplateRow = Tables<'judge_prompt_templates'>;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const JudgeTemplateAdmin = () => {
+  const [templates, setTemplates] = useState<JudgeTemplateRow[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isActivating, setIsActivating] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const selected = templates.find((template) => template.version === selectedVersion);
+  // Versions are immutable, so any edit has to be saved as a new version first
+  const isDirty = selected ? draft !== selected.template : draft.trim().length > 0;
+  const errors = validateJudgeTemplate(draft);
+
+  const selectTemplate = (template: JudgeTemplateRow) => {
+    setSelectedVersion(template.version);
+    setDraft(template.template);
+    setNotes('');
+  };
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      const { data, error } = await supabase
+        .from('judge_prompt_templates')
+        .select('*')
+        .order('version', { ascending: false });
+
+      if (error) {
+        console.error('Error loading judge templates:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load judge templates.",
+          variant: "destructive"
+        });
+      } else {
+        setTemplates(data);
+        const initial = data.find((template) => template.is_active) ?? data[0];
+        if (initial) selectTemplate(initial);
+      }
+      setIsLoading(false);
+    };
+
+    fetchTemplates();
+  }, [toast]);
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('judge_prompt_templates')
+        .insert({
+          template: draft,
+          notes: notes.trim() || null,
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setTemplates((prev) => [data, ...prev]);
+      selectTemplate(data);
+      toast({
+        title: "Version Saved",
+        description: `Saved as version ${data.version}. Activate it to use it for new evaluations.`,
+      });
+    } catch (error) {
+      console.error('Error saving judge template:', error);
+      toast({
+        title: "Save Failed",
+        description: "The template could not be saved. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleActivate = async () => {
+    if (!selected) return;
+
+    setIsActivating(true);
+    try {
+      const { error } = await supabase.rpc('activate_judge_template', { p_version: selected.version });
+      if (error) throw error;
+
+      // Mirrors activate_judge_template, which deactivates every other version
+      const activatedAt = new Date().toISOString();
+      setTemplates((prev) => prev.map((template) => template.version === selected.version
+        ? { ...template, is_active: true, activated_at: activatedAt }
+        : { ...template, is_active: false }));
+      toast({
+        title: "Version Activated",
+        description: `New evaluations now use judge template version ${selected.version}.`,
+      });
+    } catch (error) {
+      console.error('Error activating judge template:', error);
+      toast({
+        title: "Activation Failed",
+        description: "The version could not be activated. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsActivating(false);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 px-4 lg:px-8">
+      {/* Header */}
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-full bg-gradient-to-r from-primary to-primary-glow">
+            <Shield className="h-6 w-6 text-primary-foreground" />
+          </div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+            Judge Templates
+          </h1>
+        </div>
+        <p className="text-lg text-muted-foreground">
+          Edit the instructions given to the evaluation judge and choose which version is live
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="grid lg:grid-cols-3 gap-8">
+          {/* Versions */}
+          <Card className="shadow-[var(--shadow-card)]">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5 text-primary" />
+                Versions
+              </CardTitle>
+              <CardDescription>
+                Saved evaluations record the version they were judged with
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {templates.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No versions yet. The built-in template is used until one is activated.
+                </p>
+              )}
+              {templates.map((template) => (
+                <button
+                  key={template.version}
+                  onClick={() => selectTemplate(template)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    template.version === selectedVersion ? 'border-primary bg-primary/5' : 'border-border/50 hover:bg-muted/50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">Version {template.version}</span>
+                    {template.is_active && <Badge variant="success">Active</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">{formatDate(template.created_at)}</p>
+                  {template.notes && (
+                    <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{template.notes}</p>
+                  )}
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Editor */}
+          <Card className="shadow-[var(--shadow-card)] lg:col-span-2">
+            <CardHeader>
+              <CardTitle>
+                {selected ? `Version ${selected.version}` : 'New Version'}
+                {isDirty && <span className="text-muted-foreground font-normal"> (edited)</span>}
+              </CardTitle>
+              <CardDescription>
+                Versions cannot be changed once saved; edits are saved as a new version
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="judge-template">Template</Label>
+                <Textarea
+                  id="judge-template"
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  className="min-h-[480px] font-mono text-xs"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Placeholders</Label>
+                <div className="flex flex-wrap gap-2">
+                  {JUDGE_TEMPLATE_VARIABLES.map((variable) => (
+                    <Badge key={variable.id} variant="outline" className="font-mono font-normal" title={variable.description}>
+                      {`{{${variable.id}}}`}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+
+              {errors.length > 0 && (
+                <ul className="text-sm text-destructive space-y-1">
+                  {errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
+
+              {isDirty && (
+                <div className="space-y-2">
+                  <Label htmlFor="judge-template-notes">What changed</Label>
+                  <Input
+                    id="judge-template-notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="e.g. Stricter guidance on counting examples"
+                  />
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  onClick={handleSave}
+                  disabled={!isDirty || errors.length > 0 || isSaving}
+                  variant="gradient"
+                >
+                  {isSaving ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4" />
+                  )}
+                  Save as New Version
+                </Button>
+                <Button
+                  onClick={handleActivate}
+                  disabled={!selected || selected.is_active || isDirty || isActivating}
+                  variant="outline"
+                >
+                  {isActivating ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <CheckCircle2 className="h-4 w-4" />
+                  )}
+                  {selected?.is_active ? 'Active Version' : 'Activate'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JudgeTemplateAdmin;
@@ -1,8 +1,10 @@
 import React from 'react';
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { LogOut, User, History, BarChart3, Lightbulb } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { LogOut, User, History, BarChart3, Lightbulb, Layers, Gauge, Activity, Shield } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useQuota } from "@/hooks/useQuota";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate, useLocation } from "react-router-dom";
 
@@ -11,10 +13,12 @@ interface LayoutProps {
 }
 
 const Layout = ({ children }: LayoutProps) => {
-  const { user, signOut } = useAuth();
+  const { user, isAdmin, signOut } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
   const location = useLocation();
+  const quota = useQuota(Boolean(user));
+  const quotaLow = quota && (quota.minuteRemaining === 0 || quota.dayRemaining <= quota.dayLimit * 0.1);
 
   const handleSignOut = async () => {
     const { error } = await signOut();
@@ -64,6 +68,14 @@ const Layout = ({ children }: LayoutProps) => {
                   <BarChart3 className="h-4 w-4" />
                   Prompt Evaluation
                 </Button>
+                <Button
+                  variant={isActive('/batch') ? 'default' : 'ghost'}
+                  onClick={() => navigate('/batch')}
+                  className="flex items-center gap-2"
+                >
+                  <Layers className="h-4 w-4" />
+                  Batch
+                </Button>
                 <Button
                   variant={isActive('/usecases') ? 'default' : 'ghost'}
                   onClick={() => navigate('/usecases')}
@@ -80,11 +92,39 @@ const Layout = ({ children }: LayoutProps) => {
                   <History className="h-4 w-4" />
                   History
                 </Button>
+                <Button
+                  variant={isActive('/usage') ? 'default' : 'ghost'}
+                  onClick={() => navigate('/usage')}
+                  className="flex items-center gap-2"
+                >
+                  <Activity className="h-4 w-4" />
+                  Usage
+                </Button>
+                {isAdmin && (
+                  <Button
+                    variant={isActive('/admin') ? 'default' : 'ghost'}
+                    onClick={() => navigate('/admin')}
+                    className="flex items-center gap-2"
+                  >
+                    <Shield className="h-4 w-4" />
+                    Admin
+                  </Button>
+                )}
               </nav>
             </div>
 
             {/* User Menu */}
             <div className="flex items-center gap-4">
+              {quota && (
+                <Badge
+                  variant={quotaLow ? 'warning' : 'outline'}
+                  className="hidden lg:flex items-center gap-1 font-normal"
+                  title="Model calls remaining this minute and today (UTC)"
+                >
+                  <Gauge className="h-3 w-3" />
+                  {quota.minuteRemaining}/{quota.minuteLimit} per min · {quota.dayRemaining}/{quota.dayLimit} today
+                </Badge>
+              )}
               <div className="hidden sm:flex items-center gap-3">
                 <Avatar className="h-8 w-8">
                   <AvatarFallback className="bg-primary/10 text-primary">
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -7,60 +7,210 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Brain, Sparkles, Target, TrendingUp, Save } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Brain, Sparkles, Target, TrendingUp, Save, ScanSearch, Zap, X, Database, RefreshCw, Users, Shuffle, AlignLeft, MessagesSquare, ShieldAlert } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
+import { useTechniques } from "@/hooks/useTechniques";
+import CriteriaBreakdown from "@/components/CriteriaBreakdown";
+import AnnotatedPrompt from "@/components/AnnotatedPrompt";
+import HeuristicPreview from "@/components/HeuristicPreview";
+import PromptRewrite from "@/components/PromptRewrite";
+import EnsembleBreakdown from "@/components/EnsembleBreakdown";
+import ChatMessagesEditor from "@/components/ChatMessagesEditor";
+import PromptPlayground from "@/components/PromptPlayground";
+import TemplateVariablesForm from "@/components/TemplateVariablesForm";
+import VariableCheckResult from "@/components/VariableCheckResult";
+import { formatConfidence, formatScore, getMatchLabel, getMatchVariant, getScoreVariant } from "@/lib/evaluation";
+import { describeFunctionError } from "@/lib/errors";
+import { ENSEMBLE_SAMPLES, type EvaluationResult, type EvaluationStreamEvent } from "@shared/evaluation";
+import { formatTranscript, type ChatMessage } from "@shared/messages";
+import { evaluationRequestSchema } from "@shared/requests";
+import { parseSseStream } from "@shared/sse";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
 
-interface EvaluationResult {
-  match: string;
-  reason: string;
-  rating: string;
+interface TechniqueDetection {
+  technique: string;
+  label: string;
+  confidence: number;
+  spans: { start: number; end: number; text: string }[];
+}
+
+interface DetectionResult {
+  detections: TechniqueDetection[];
+  injectionSuspected?: boolean;
+}
+
+type AnalysisMode = 'evaluate' | 'detect';
+
+// A single prompt string, or an OpenAI-style list of chat messages
+type PromptFormat = 'text' | 'messages';
+
+const INITIAL_MESSAGES: ChatMessage[] = [
+  { role: 'system', content: '' },
+  { role: 'user', content: '' },
+];
+
+// Single judge call, several samples from one provider, or samples spread
+// across the configured providers
+type JudgeMode = 'single' | 'ensemble' | 'cross-provider';
+
+const SAMPLE_OPTIONS = Array.from(
+  { length: ENSEMBLE_SAMPLES.max - ENSEMBLE_SAMPLES.min + 1 },
+  (_, index) => ENSEMBLE_SAMPLES.min + index
+);
+
+interface EvaluatorFormValues {
+  prompt: string;
+  messages: ChatMessage[];
+  selectedTechnique: string;
+}
+
+// Blank messages are left out, like surrounding whitespace in the textarea
+const toPromptInput = (
+  promptFormat: PromptFormat,
+  prompt: string,
+  messages: ChatMessage[]
+): { prompt?: string; messages?: ChatMessage[] } =>
+  promptFormat === 'messages'
+    ? { messages: messages.filter((message) => message.content.trim()) }
+    : { prompt: prompt.trim() };
+
+// Checks the form as the request it will send, with evaluate-prompt's own
+// schema, so the form enforces the function's limits with its messages
+const evaluatorResolver = (mode: AnalysisMode, promptFormat: PromptFormat) =>
+  zodResolver(
+    z.preprocess((values) => {
+      const { prompt, messages, selectedTechnique } = values as EvaluatorFormValues;
+      return {
+        mode,
+        ...toPromptInput(promptFormat, prompt, messages),
+        ...(mode === 'evaluate' && selectedTechnique && { selectedTechnique }),
+      };
+    }, evaluationRequestSchema),
+    undefined,
+    // Submit with the form values rather than the request
+    { raw: true }
+  );
+
+type StreamedSample = Extract<EvaluationStreamEvent, { event: 'sample' }>['data'];
+
+// Partial evaluation rendered while the judge is still streaming
+interface StreamedEvaluation {
+  match?: boolean;
+  score?: number;
+  reasoning: string;
+  samples: StreamedSample[];
+  // Number of ensemble samples requested, 0 for a single judge call
+  expectedSamples: number;
 }
 
 const PromptEvaluator = () => {
-  const [prompt, setPrompt] = useState('');
-  const [technique, setTechnique] = useState('');
+  const [promptFormat, setPromptFormat] = useState<PromptFormat>('text');
+  const [mode, setMode] = useState<AnalysisMode>('evaluate');
+  const [judgeMode, setJudgeMode] = useState<JudgeMode>('single');
+  const [samples, setSamples] = useState<number>(ENSEMBLE_SAMPLES.default);
   const [title, setTitle] = useState('');
+  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
   const [isEvaluating, setIsEvaluating] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [evaluation, setEvaluation] = useState<EvaluationResult | null>(null);
+  // History row of the current evaluation, which playground runs are saved with
+  const [savedEvaluationId, setSavedEvaluationId] = useState<string | null>(null);
+  const [detectionResult, setDetectionResult] = useState<DetectionResult | null>(null);
+  const [streamed, setStreamed] = useState<StreamedEvaluation | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
   const { user } = useAuth();
+  const { techniques, loading: techniquesLoading } = useTechniques();
+  const form = useForm<EvaluatorFormValues>({
+    resolver: evaluatorResolver(mode, promptFormat),
+    defaultValues: { prompt: '', messages: INITIAL_MESSAGES, selectedTechnique: '' },
+  });
+  const [prompt, messages, technique] = form.watch(['prompt', 'messages', 'selectedTechnique']);
 
-  const techniques = [
-    { value: 'one-shot', label: 'One-shot', description: 'Single example provided' },
-    { value: 'few-shot', label: 'Few-shot', description: 'Multiple examples provided' },
-    { value: 'chain-of-thought', label: 'Chain-of-Thought', description: 'Step-by-step reasoning' }
-  ];
+  const promptInput = useMemo(
+    () => toPromptInput(promptFormat, prompt, messages),
+    [promptFormat, prompt, messages]
+  );
+  const chatMessages = promptInput.messages;
+  // What gets evaluated, saved and annotated; chat prompts as their transcript
+  const promptText = chatMessages
+    ? (chatMessages.length > 0 ? formatTranscript(chatMessages).text : '')
+    : promptInput.prompt;
 
-  const handleEvaluate = async () => {
-    if (!prompt.trim()) {
-      toast({
-        title: "Error",
-        description: "Please enter a prompt to evaluate.",
-        variant: "destructive"
+  const handleDetect = async () => {
+    setIsEvaluating(true);
+    setEvaluation(null);
+    setSavedEvaluationId(null);
+    setDetectionResult(null);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('evaluate-prompt', {
+        body: {
+          mode: 'detect',
+          ...promptInput
+        }
       });
-      return;
-    }
 
-    if (!technique) {
+      if (error) {
+        throw error;
+      }
+
+      setDetectionResult(data);
       toast({
-        title: "Error", 
-        description: "Please select a prompting technique.",
-        variant: "destructive"
+        title: "Detection Complete",
+        description: data.detections.length > 0
+          ? `Found ${data.detections.length} technique${data.detections.length !== 1 ? 's' : ''} in your prompt.`
+          : "No known techniques were detected in your prompt.",
       });
+    } catch (error) {
+      console.error('Error detecting techniques:', error);
+      const message = await describeFunctionError(error, {
+        title: "Detection Failed",
+        description: "Failed to detect techniques in the prompt. Please try again.",
+      });
+      toast({ ...message, variant: "destructive" });
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  // Called once the form has validated. `force` skips the server-side result
+  // cache and replaces the cached entry
+  const handleEvaluate = async (force = false) => {
+    if (mode === 'detect') {
+      await handleDetect();
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsEvaluating(true);
     setEvaluation(null);
+    setSavedEvaluationId(null);
+    setDetectionResult(null);
+    setStreamed({ reasoning: '', samples: [], expectedSamples: judgeMode === 'single' ? 0 : samples });
 
     try {
       const { data, error } = await supabase.functions.invoke('evaluate-prompt', {
         body: { 
-          prompt: prompt.trim(),
-          selectedTechnique: technique
+          ...promptInput,
+          selectedTechnique: technique,
+          stream: true,
+          force,
+          ensemble: judgeMode === 'single'
+            ? undefined
+            : { samples, crossProvider: judgeMode === 'cross-provider' },
+          // The server ignores these when the prompt has no variables and no
+          // values were given
+          variables: variableValues
         }
       });
 
@@ -68,9 +218,53 @@ const PromptEvaluator = () => {
         throw error;
       }
 
-      setEvaluation(data);
+      let result: EvaluationResult | null = null;
+      for await (const message of parseSseStream((data as Response).body, controller.signal)) {
+        const streamEvent = { event: message.event, data: JSON.parse(message.data) } as EvaluationStreamEvent;
+        switch (streamEvent.event) {
+          case 'sample': {
+            const sample = streamEvent.data;
+            setStreamed((prev) => ({ ...prev, samples: [...prev.samples, sample] }));
+            break;
+          }
+          case 'verdict': {
+            const { match } = streamEvent.data;
+            setStreamed((prev) => ({ ...prev, match }));
+            break;
+          }
+          case 'score': {
+            const { score } = streamEvent.data;
+            setStreamed((prev) => ({ ...prev, score }));
+            break;
+          }
+          case 'reasoning': {
+            const { delta } = streamEvent.data;
+            setStreamed((prev) => ({ ...prev, reasoning: prev.reasoning + delta }));
+            break;
+          }
+          case 'result':
+            result = streamEvent.data;
+            break;
+          case 'error':
+            // Carries the error code, which picks the message shown below
+            throw streamEvent.data;
+        }
+      }
+
+      if (controller.signal.aborted) {
+        toast({
+          title: "Evaluation Cancelled",
+          description: "The evaluation was stopped before it finished.",
+        });
+        return;
+      }
+      if (!result) {
+        throw new Error('The evaluation stream ended without a result');
+      }
+
+      setEvaluation(result);
       // Automatically save to database after successful evaluation
-      await saveEvaluation(data);
+      await saveEvaluation(result);
       
       toast({
         title: "Evaluation Complete",
@@ -79,33 +273,61 @@ const PromptEvaluator = () => {
       });
     } catch (error) {
       console.error('Error evaluating prompt:', error);
-      toast({
+      const message = await describeFunctionError(error, {
         title: "Evaluation Failed",
         description: "Failed to evaluate the prompt. Please try again.",
-        variant: "destructive"
       });
+      toast({ ...message, variant: "destructive" });
     } finally {
+      abortRef.current = null;
+      setStreamed(null);
       setIsEvaluating(false);
     }
   };
 
+  const submit = (force = false) => form.handleSubmit(() => handleEvaluate(force))();
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   const saveEvaluation = async (evaluationData: EvaluationResult) => {
     if (!user) return;
     
     try {
-      const { error } = await supabase
+      const { data: savedEvaluation, error } = await supabase
         .from('prompt_evaluations')
         .insert({
           user_id: user.id,
           title: title.trim() || null,
-          prompt_text: prompt.trim(),
+          prompt_text: promptText,
           selected_technique: technique,
-          evaluation_match: evaluationData.match,
-          evaluation_reason: evaluationData.reason,
-          evaluation_rating: evaluationData.rating
-        });
+          is_match: evaluationData.match,
+          score: evaluationData.score,
+          example_count: evaluationData.exampleCount,
+          confidence: evaluationData.confidence,
+          rationale: evaluationData.rationale,
+          annotations: evaluationData.annotations as unknown as Json,
+          judge_template_version: evaluationData.templateVersion ?? null
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
+      setSavedEvaluationId(savedEvaluation.id);
+
+      if (evaluationData.criteria.length > 0) {
+        const { error: criteriaError } = await supabase
+          .from('prompt_evaluation_criteria')
+          .insert(evaluationData.criteria.map((criterion) => ({
+            evaluation_id: savedEvaluation.id,
+            criterion: criterion.criterion,
+            score: criterion.score,
+            comment: criterion.comment
+          })));
+
+        if (criteriaError) throw criteriaError;
+      }
     } catch (error) {
       console.error('Error saving evaluation:', error);
       toast({
@@ -116,6 +338,14 @@ const PromptEvaluator = () => {
     }
   };
 
+  const handleAcceptRewrite = (rewrittenPrompt: string, rewrittenEvaluation: EvaluationResult | null) => {
+    // Rewrites come back as plain text, even for chat prompts
+    form.setValue('prompt', rewrittenPrompt);
+    setPromptFormat('text');
+    setEvaluation(rewrittenEvaluation);
+    setSavedEvaluationId(null);
+  };
+
   const handleManualSave = async () => {
     if (!evaluation || !user) return;
     
@@ -137,19 +367,6 @@ const PromptEvaluator = () => {
     }
   };
 
-  const getMatchColor = (match: string) => {
-    if (match.toLowerCase().includes('yes')) return 'success';
-    if (match.toLowerCase().includes('no')) return 'destructive';
-    return 'secondary';
-  };
-
-  const getRatingColor = (rating: string) => {
-    const score = parseInt(rating.split('/')[0]);
-    if (score >= 8) return 'success';
-    if (score >= 6) return 'warning';
-    return 'destructive';
-  };
-
   return (
     <div className="min-h-screen bg-background p-4 lg:p-8">
       <div className="max-w-6xl mx-auto space-y-8">
@@ -170,87 +387,233 @@ const PromptEvaluator = () => {
 
         <div className="grid lg:grid-cols-2 gap-8">
           {/* Input Section */}
-          <Card className="shadow-[var(--shadow-card)] border-border/50">
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <div>
-                  <CardTitle className="flex items-center gap-2">
-                    <Sparkles className="h-5 w-5 text-primary" />
-                    Prompt Input
-                  </CardTitle>
-                  <CardDescription>
-                    Enter your prompt and select the intended technique
-                  </CardDescription>
-                </div>
+          <Form {...form}>
+            <Card className="shadow-[var(--shadow-card)] border-border/50">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <Sparkles className="h-5 w-5 text-primary" />
+                      Prompt Input
+                    </CardTitle>
+                    <CardDescription>
+                      {mode === 'detect'
+                        ? 'Enter your prompt to find out which techniques it uses'
+                        : 'Enter your prompt and select the intended technique'}
+                    </CardDescription>
+                  </div>
                 
-                {/* Technique Selector */}
+                  {/* Technique Selector */}
+                  {mode === 'evaluate' && (
+                    <FormField
+                      control={form.control}
+                      name="selectedTechnique"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-medium">
+                            Prompting Style
+                          </FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange} disabled={techniquesLoading}>
+                            <FormControl>
+                              <SelectTrigger className="w-48">
+                                <SelectValue placeholder={techniquesLoading ? "Loading techniques..." : "Select technique"} />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {techniques.map((tech) => (
+                                <SelectItem key={tech.id} value={tech.id}>
+                                  <div className="flex flex-col">
+                                    <span className="font-medium">{tech.label}</span>
+                                    <span className="text-xs text-muted-foreground">
+                                      {tech.description}
+                                    </span>
+                                  </div>
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="technique" className="text-sm font-medium">
-                    Prompting Style
-                  </Label>
-                  <Select value={technique} onValueChange={setTechnique}>
-                    <SelectTrigger className="w-48">
-                      <SelectValue placeholder="Select technique" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {techniques.map((tech) => (
-                        <SelectItem key={tech.value} value={tech.value}>
-                          <div className="flex flex-col">
-                            <span className="font-medium">{tech.label}</span>
-                            <span className="text-xs text-muted-foreground">
-                              {tech.description}
-                            </span>
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <Label className="text-sm font-medium">Analysis Mode</Label>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={mode}
+                    onValueChange={(value) => {
+                      if (!value) return;
+                      setMode(value as AnalysisMode);
+                      form.clearErrors();
+                    }}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem value="evaluate" className="gap-2">
+                      <Target className="h-4 w-4" />
+                      Match a technique
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="detect" className="gap-2">
+                      <ScanSearch className="h-4 w-4" />
+                      Auto-detect
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+
+                {mode === 'evaluate' && (
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Judge</Label>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <ToggleGroup
+                        type="single"
+                        variant="outline"
+                        value={judgeMode}
+                        onValueChange={(value) => value && setJudgeMode(value as JudgeMode)}
+                        className="justify-start"
+                      >
+                        <ToggleGroupItem value="single" className="gap-2">
+                          <Target className="h-4 w-4" />
+                          Single
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="ensemble" className="gap-2">
+                          <Users className="h-4 w-4" />
+                          Ensemble
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="cross-provider" className="gap-2">
+                          <Shuffle className="h-4 w-4" />
+                          Across providers
+                        </ToggleGroupItem>
+                      </ToggleGroup>
+                      {judgeMode !== 'single' && (
+                        <Select value={String(samples)} onValueChange={(value) => setSamples(Number(value))}>
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SAMPLE_OPTIONS.map((count) => (
+                              <SelectItem key={count} value={String(count)}>
+                                {count} samples
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                    {judgeMode !== 'single' && (
+                      <p className="text-xs text-muted-foreground">
+                        Samples the judge {samples} times and aggregates the verdict by majority vote and the rating by median. Each sample counts against your quota.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="title">Evaluation Title (Optional)</Label>
+                  <Input
+                    id="title"
+                    placeholder="Give your evaluation a memorable name..."
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                  />
                 </div>
-              </div>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="title">Evaluation Title (Optional)</Label>
-                <Input
-                  id="title"
-                  placeholder="Give your evaluation a memorable name..."
-                  value={title}
-                  onChange={(e) => setTitle(e.target.value)}
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="prompt">Write your AI prompt</Label>
-                <Textarea
-                  id="prompt"
-                  placeholder="Enter your prompt here... For example: 'Translate the following to French: Hello, how are you?'"
-                  value={prompt}
-                  onChange={(e) => setPrompt(e.target.value)}
-                  className="min-h-[200px] resize-y"
-                />
-              </div>
               
-              <Button 
-                onClick={handleEvaluate}
-                disabled={isEvaluating || !prompt.trim() || !technique}
-                className="w-full"
-                variant="gradient"
-                size="lg"
-              >
-                {isEvaluating ? (
-                  <>
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-foreground" />
-                    Analyzing...
-                  </>
-                ) : (
-                  <>
-                    <Target className="h-4 w-4" />
-                    Evaluate Prompt
-                  </>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label>Write your AI prompt</Label>
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      size="sm"
+                      value={promptFormat}
+                      onValueChange={(value) => {
+                        if (!value) return;
+                        setPromptFormat(value as PromptFormat);
+                        form.clearErrors();
+                      }}
+                    >
+                      <ToggleGroupItem value="text" className="gap-1">
+                        <AlignLeft className="h-4 w-4" />
+                        Text
+                      </ToggleGroupItem>
+                      <ToggleGroupItem value="messages" className="gap-1">
+                        <MessagesSquare className="h-4 w-4" />
+                        Messages
+                      </ToggleGroupItem>
+                    </ToggleGroup>
+                  </div>
+                  {promptFormat === 'messages' ? (
+                    <FormField
+                      control={form.control}
+                      name="messages"
+                      render={({ field }) => (
+                        <FormItem>
+                          <ChatMessagesEditor messages={field.value} onChange={field.onChange} />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ) : (
+                    <FormField
+                      control={form.control}
+                      name="prompt"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Textarea
+                              placeholder="Enter your prompt here... For example: 'Translate the following to French: Hello, how are you?'"
+                              className="min-h-[200px] resize-y"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+
+                <HeuristicPreview prompt={promptText} messages={chatMessages} technique={mode === 'evaluate' ? technique : ''} />
+
+                {mode === 'evaluate' && (
+                  <TemplateVariablesForm
+                    prompt={promptText}
+                    messages={chatMessages}
+                    values={variableValues}
+                    onChange={setVariableValues}
+                  />
                 )}
-              </Button>
-            </CardContent>
-          </Card>
+              
+                <Button 
+                  onClick={() => submit()}
+                  disabled={isEvaluating}
+                  className="w-full"
+                  variant="gradient"
+                  size="lg"
+                >
+                  {isEvaluating ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-foreground" />
+                      Analyzing...
+                    </>
+                  ) : mode === 'detect' ? (
+                    <>
+                      <ScanSearch className="h-4 w-4" />
+                      Detect Techniques
+                    </>
+                  ) : (
+                    <>
+                      <Target className="h-4 w-4" />
+                      Evaluate Prompt
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+          </Form>
 
           {/* Results Section */}
           <Card className="shadow-[var(--shadow-card)] border-border/50">
@@ -264,17 +627,105 @@ const PromptEvaluator = () => {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              {evaluation ? (
+              {detectionResult ? (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label className="text-sm font-medium">Detected techniques, ranked by confidence</Label>
+                    {detectionResult.injectionSuspected && (
+                      <Badge variant="warning" className="gap-1" title="The prompt contains text aimed at the evaluator. It was treated as data, not instructions.">
+                        <ShieldAlert className="h-3 w-3" />
+                        Possible prompt injection
+                      </Badge>
+                    )}
+                  </div>
+                  {detectionResult.detections.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      None of the catalog techniques were detected in this prompt.
+                    </p>
+                  ) : (
+                    detectionResult.detections.map((detection) => (
+                      <div key={detection.technique} className="p-4 rounded-lg bg-muted/50 border border-border/50 space-y-3">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">{detection.label}</span>
+                          <Badge variant="outline">{Math.round(detection.confidence * 100)}%</Badge>
+                        </div>
+                        <Progress value={detection.confidence * 100} className="h-2" />
+                        {detection.spans.length > 0 && (
+                          <div className="space-y-1">
+                            {detection.spans.map((span) => (
+                              <p key={`${span.start}-${span.end}`} className="text-xs text-muted-foreground border-l-2 border-primary/50 pl-2">
+                                "{span.text}"
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              ) : evaluation ? (
                 <div className="space-y-6">
                   {/* Match Result */}
                   <div className="space-y-2">
                     <Label className="text-sm font-medium">Does the prompt match?</Label>
-                    <Badge 
-                      variant={getMatchColor(evaluation.match) as any}
-                      className="text-sm px-3 py-1"
-                    >
-                      {evaluation.match}
-                    </Badge>
+                    <div className="flex items-center gap-2">
+                      <Badge 
+                        variant={getMatchVariant(evaluation.match)}
+                        className="text-sm px-3 py-1"
+                      >
+                        {getMatchLabel(evaluation.match)}
+                      </Badge>
+                      {evaluation.source === 'heuristic' && (
+                        <Badge variant="outline" className="gap-1">
+                          <Zap className="h-3 w-3" />
+                          Local analysis
+                        </Badge>
+                      )}
+                      {evaluation.injectionSuspected && (
+                        <Badge variant="warning" className="gap-1" title="The prompt contains text aimed at the evaluator. It was treated as data, not instructions.">
+                          <ShieldAlert className="h-3 w-3" />
+                          Possible prompt injection
+                        </Badge>
+                      )}
+                      {evaluation.cached && (
+                        <>
+                          <Badge variant="outline" className="gap-1">
+                            <Database className="h-3 w-3" />
+                            Cached result
+                          </Badge>
+                          <Button
+                            onClick={() => submit(true)}
+                            disabled={isEvaluating}
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 gap-1"
+                          >
+                            <RefreshCw className="h-3 w-3" />
+                            Re-evaluate
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  {evaluation.ensemble && (
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">
+                        Ensemble of {evaluation.ensemble.samples.length + evaluation.ensemble.failed} samples
+                      </Label>
+                      <EnsembleBreakdown ensemble={evaluation.ensemble} />
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div className="space-y-1">
+                      <Label className="text-sm font-medium">Examples found</Label>
+                      <p className="text-muted-foreground">{evaluation.exampleCount}</p>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-sm font-medium">Judge confidence</Label>
+                      <p className="text-muted-foreground">{formatConfidence(evaluation.confidence)}</p>
+                    </div>
                   </div>
 
                   <Separator />
@@ -283,20 +734,52 @@ const PromptEvaluator = () => {
                   <div className="space-y-2">
                     <Label className="text-sm font-medium">Analysis & Reasoning</Label>
                     <div className="p-4 rounded-lg bg-muted/50 border border-border/50">
-                      <p className="text-sm leading-relaxed">{evaluation.reason}</p>
+                      <p className="text-sm leading-relaxed">{evaluation.rationale}</p>
                     </div>
                   </div>
 
                   <Separator />
 
+                  {/* Template Variables */}
+                  {evaluation.variables && (
+                    <>
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">Template Variables</Label>
+                        <VariableCheckResult check={evaluation.variables} templateScore={evaluation.score} />
+                      </div>
+
+                      <Separator />
+                    </>
+                  )}
+
+                  {/* Annotated Prompt */}
+                  {evaluation.annotations.length > 0 && (
+                    <>
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">Annotated Prompt</Label>
+                        <AnnotatedPrompt text={promptText} annotations={evaluation.annotations} />
+                      </div>
+
+                      <Separator />
+                    </>
+                  )}
+
+                  {/* Criteria Breakdown */}
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Rubric Breakdown</Label>
+                    <CriteriaBreakdown criteria={evaluation.criteria} />
+                  </div>
+
+                  <Separator />
+
                   {/* Rating */}
                   <div className="space-y-2">
                     <Label className="text-sm font-medium">Prompt Rating</Label>
                     <Badge 
-                      variant={getRatingColor(evaluation.rating) as any}
+                      variant={getScoreVariant(evaluation.score)}
                       className="text-lg px-4 py-2 font-bold"
                     >
-                      {evaluation.rating}
+                      {formatScore(evaluation.score)}
                     </Badge>
                   </div>
 
@@ -324,6 +807,76 @@ const PromptEvaluator = () => {
                     </Button>
                   </div>
                 </div>
+              ) : streamed ? (
+                <div className="space-y-6">
+                  {streamed.expectedSamples > 0 && (
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <Label className="text-sm font-medium">Ensemble samples</Label>
+                        <span className="text-muted-foreground">
+                          {streamed.samples.length} of {streamed.expectedSamples}
+                        </span>
+                      </div>
+                      <Progress value={(streamed.samples.length / streamed.expectedSamples) * 100} className="h-2" />
+                      <div className="flex flex-wrap gap-2">
+                        {streamed.samples.map((sample) => (
+                          <Badge
+                            key={sample.index}
+                            variant={sample.error ? 'outline' : getMatchVariant(sample.match)}
+                            className="font-normal"
+                          >
+                            {sample.error ? 'Failed' : formatScore(sample.score)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">Does the prompt match?</Label>
+                      <div>
+                        {streamed.match === undefined ? (
+                          <Badge variant="secondary" className="text-sm px-3 py-1">Judging...</Badge>
+                        ) : (
+                          <Badge variant={getMatchVariant(streamed.match)} className="text-sm px-3 py-1">
+                            {getMatchLabel(streamed.match)}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">Prompt Rating</Label>
+                      <div>
+                        {streamed.score === undefined ? (
+                          <Badge variant="secondary" className="text-sm px-3 py-1">Scoring...</Badge>
+                        ) : (
+                          <Badge variant={getScoreVariant(streamed.score)} className="text-sm px-3 py-1 font-bold">
+                            {formatScore(streamed.score)}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+
+                  <Separator />
+
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Analysis & Reasoning</Label>
+                    <div className="p-4 rounded-lg bg-muted/50 border border-border/50">
+                      <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                        {streamed.reasoning}
+                        <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex justify-center">
+                    <Button onClick={handleCancel} variant="outline" className="flex items-center gap-2">
+                      <X className="h-4 w-4" />
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
               ) : (
                 <div className="flex flex-col items-center justify-center py-12 text-center space-y-4">
                   <div className="p-4 rounded-full bg-muted/30">
@@ -341,10 +894,25 @@ const PromptEvaluator = () => {
           </Card>
         </div>
 
+        {/* Rewrite Section */}
+        {evaluation && (
+          <PromptRewrite
+            prompt={promptText}
+            technique={technique}
+            evaluation={evaluation}
+            onAccept={handleAcceptRewrite}
+          />
+        )}
+
+        {/* Playground */}
+        {promptText && (
+          <PromptPlayground prompt={promptText} messages={chatMessages} evaluationId={savedEvaluationId} />
+        )}
+
         {/* Info Cards */}
         <div className="grid md:grid-cols-3 gap-4">
-          {techniques.map((tech, index) => (
-            <Card key={tech.value} className="border-border/50">
+          {techniques.map((tech) => (
+            <Card key={tech.id} className="border-border/50">
               <CardContent className="p-4">
                 <div className="space-y-2">
                   <h4 className="font-semibold text-primary">{tech.label}</h4>
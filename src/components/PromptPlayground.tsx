@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { FlaskConical, Play, Plus, Save, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { describeFunctionError, type ErrorMessage } from "@/lib/errors";
+import RunOutputs, { type RunOutput } from "@/components/RunOutputs";
+import type { ChatMessage } from "@shared/messages";
+import { MAX_RUN_CASES, type RunCase, type RunResponse } from "@shared/playground";
+import { findVariableUses, variableNames } from "@shared/variables";
+
+interface PromptPlaygroundProps {
+  prompt: string;
+  // Chat prompts are run from their messages rather than the transcript
+  messages?: ChatMessage[];
+  // Saved evaluation the runs are stored with; null until one is saved
+  evaluationId: string | null;
+}
+
+const RUN_ERROR_FALLBACK: ErrorMessage = {
+  title: "Run Failed",
+  description: "The prompt could not be run. Please try again.",
+};
+
+interface TestCase {
+  input: string;
+  variables: Record<string, string>;
+}
+
+// Executes the prompt against test inputs, so users see what it actually
+// produces rather than only how well it follows a technique
+const PromptPlayground = ({ prompt, messages, evaluationId }: PromptPlaygroundProps) => {
+  const [cases, setCases] = useState<TestCase[]>([{ input: '', variables: {} }]);
+  const [runs, setRuns] = useState<RunOutput[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedFor, setSavedFor] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const names = useMemo(() => variableNames(findVariableUses(prompt)), [prompt]);
+  // Text prompts with variables take their input through the variables;
+  // chat prompts can always add a final user turn
+  const takesInput = names.length === 0 || Boolean(messages);
+
+  const updateCase = (index: number, testCase: Partial<TestCase>) =>
+    setCases((prev) => prev.map((current, i) => (i === index ? { ...current, ...testCase } : current)));
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setRuns(null);
+    setSavedFor(null);
+
+    // Only the variables the prompt still uses are sent
+    const runCases: RunCase[] = cases.map((testCase) => ({
+      input: takesInput ? testCase.input : '',
+      variables: Object.fromEntries(names.map((name) => [name, testCase.variables[name] ?? ''])),
+    }));
+
+    try {
+      const { data, error } = await supabase.functions.invoke('run-prompt', {
+        body: {
+          ...(messages ? { messages } : { prompt }),
+          cases: runCases
+        }
+      });
+
+      if (error) throw error;
+
+      const { results } = data as RunResponse;
+      setRuns(await Promise.all(results.map(async (result): Promise<RunOutput> => {
+        // Failed cases carry an error body, described like a failed request
+        const message = result.status === 'error' ? await describeFunctionError(result.error, RUN_ERROR_FALLBACK) : null;
+        return {
+          input: runCases[result.index].input ?? '',
+          variables: runCases[result.index].variables ?? {},
+          output: result.status === 'ok' ? result.output : null,
+          error: message && `${message.title}: ${message.description}`,
+          model: result.status === 'ok' ? result.model : null,
+          latencyMs: result.status === 'ok' ? result.latencyMs : null,
+        };
+      })));
+    } catch (error) {
+      console.error('Error running prompt:', error);
+      const message = await describeFunctionError(error, RUN_ERROR_FALLBACK);
+      toast({ ...message, variant: "destructive" });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!runs || !evaluationId || !user) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('prompt_runs')
+        .insert(runs.map((run) => ({
+          evaluation_id: evaluationId,
+          user_id: user.id,
+          input: run.input,
+          variables: run.variables,
+          output: run.output,
+          error: run.error,
+          model: run.model,
+          latency_ms: run.latencyMs
+        })));
+
+      if (error) throw error;
+
+      setSavedFor(evaluationId);
+      toast({
+        title: "Runs Saved",
+        description: "The outputs were saved with the evaluation in your history.",
+      });
+    } catch (error) {
+      console.error('Error saving prompt runs:', error);
+      toast({
+        title: "Save Failed",
+        description: "The runs could not be saved. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-[var(--shadow-card)] border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5 text-primary" />
+          Playground
+        </CardTitle>
+        <CardDescription>
+          Run the prompt against test inputs and compare the outputs. Each test case is one model call.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {cases.map((testCase, index) => (
+            <div key={index} className="p-3 rounded-lg border border-border/50 bg-muted/20 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Test case {index + 1}</span>
+                <Button
+                  onClick={() => setCases((prev) => prev.filter((_, i) => i !== index))}
+                  disabled={cases.length === 1}
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Remove test case"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              {names.map((name) => (
+                <div key={name} className="space-y-1">
+                  <Label htmlFor={`case-${index}-${name}`} className="font-mono text-xs">{name}</Label>
+                  <Input
+                    id={`case-${index}-${name}`}
+                    value={testCase.variables[name] ?? ''}
+                    onChange={(e) => updateCase(index, { variables: { ...testCase.variables, [name]: e.target.value } })}
+                    className="h-8"
+                  />
+                </div>
+              ))}
+              {takesInput && (
+                <Textarea
+                  value={testCase.input}
+                  onChange={(e) => updateCase(index, { input: e.target.value })}
+                  placeholder={messages ? 'Final user message...' : 'Input added after the prompt...'}
+                  className="min-h-[72px] resize-y"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={() => setCases((prev) => [...prev, { input: '', variables: {} }])}
+            disabled={cases.length >= MAX_RUN_CASES}
+            variant="outline"
+            className="gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add test case
+          </Button>
+          <Button onClick={handleRun} disabled={isRunning || !prompt} variant="gradient" className="gap-2">
+            {isRunning ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-foreground" />
+            ) : (
+              <Play className="h-4 w-4" />
+            )}
+            Run {cases.length} test case{cases.length !== 1 ? 's' : ''}
+          </Button>
+        </div>
+
+        {runs && (
+          <div className="space-y-4">
+            <RunOutputs runs={runs} />
+            <div className="flex items-center gap-3">
+              <Button
+                onClick={handleSave}
+                disabled={!evaluationId || isSaving || savedFor === evaluationId}
+                variant="outline"
+                className="gap-2"
+              >
+                <Save className="h-4 w-4" />
+                {savedFor === evaluationId && evaluationId ? 'Saved to History' : 'Save with Evaluation'}
+              </Button>
+              {!evaluationId && (
+                <p className="text-sm text-muted-foreground">Evaluate the prompt first to save runs with it.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PromptPlayground;
@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { ArrowRight, Check, Loader2, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { diffText } from "@/lib/diff";
+import { describeFunctionError } from "@/lib/errors";
+import { formatScore, getScoreVariant } from "@/lib/evaluation";
+import type { EvaluationResult } from "@shared/evaluation";
+
+interface RewriteResult {
+  rewrittenPrompt: string;
+  changes: string[];
+}
+
+interface PromptRewriteProps {
+  prompt: string;
+  technique: string;
+  evaluation: EvaluationResult;
+  onAccept: (rewrittenPrompt: string, rewrittenEvaluation: EvaluationResult | null) => void;
+}
+
+const PromptRewrite = ({ prompt, technique, evaluation, onAccept }: PromptRewriteProps) => {
+  const [isRewriting, setIsRewriting] = useState(false);
+  const [isReevaluating, setIsReevaluating] = useState(false);
+  const [rewrite, setRewrite] = useState<RewriteResult | null>(null);
+  const [rewrittenEvaluation, setRewrittenEvaluation] = useState<EvaluationResult | null>(null);
+  const { toast } = useToast();
+
+  const reevaluate = async (rewrittenPrompt: string) => {
+    setIsReevaluating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('evaluate-prompt', {
+        body: {
+          prompt: rewrittenPrompt,
+          selectedTechnique: technique
+        }
+      });
+
+      if (error) throw error;
+      setRewrittenEvaluation(data);
+    } catch (error) {
+      console.error('Error re-evaluating rewritten prompt:', error);
+      const message = await describeFunctionError(error, {
+        title: "Re-evaluation Failed",
+        description: "The rewrite is ready but could not be scored automatically.",
+      });
+      toast({ ...message, variant: "destructive" });
+    } finally {
+      setIsReevaluating(false);
+    }
+  };
+
+  const handleRewrite = async () => {
+    setIsRewriting(true);
+    setRewrite(null);
+    setRewrittenEvaluation(null);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('rewrite-prompt', {
+        body: {
+          prompt,
+          selectedTechnique: technique,
+          evaluation
+        }
+      });
+
+      if (error) throw error;
+
+      setRewrite(data);
+      await reevaluate(data.rewrittenPrompt);
+    } catch (error) {
+      console.error('Error rewriting prompt:', error);
+      const message = await describeFunctionError(error, {
+        title: "Rewrite Failed",
+        description: "Failed to rewrite the prompt. Please try again.",
+      });
+      toast({ ...message, variant: "destructive" });
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  const handleAccept = () => {
+    if (!rewrite) return;
+    onAccept(rewrite.rewrittenPrompt, rewrittenEvaluation);
+    setRewrite(null);
+    setRewrittenEvaluation(null);
+    toast({
+      title: "Rewrite Accepted",
+      description: "The rewritten prompt has been loaded into the editor.",
+    });
+  };
+
+  const rewrittenPrompt = rewrite?.rewrittenPrompt;
+  const segments = useMemo(
+    () => rewrittenPrompt === undefined ? [] : diffText(prompt, rewrittenPrompt),
+    [prompt, rewrittenPrompt],
+  );
+
+  return (
+    <Card className="shadow-[var(--shadow-card)] border-border/50">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Wand2 className="h-5 w-5 text-primary" />
+              AI Rewrite
+            </CardTitle>
+            <CardDescription>
+              {evaluation.match
+                ? 'Polish this prompt further for the selected technique'
+                : 'Convert this prompt so it satisfies the selected technique'}
+            </CardDescription>
+          </div>
+          <Button
+            onClick={handleRewrite}
+            disabled={isRewriting}
+            variant={evaluation.match ? 'outline' : 'gradient'}
+          >
+            {isRewriting ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Rewriting...
+              </>
+            ) : (
+              <>
+                <Wand2 className="h-4 w-4" />
+                Rewrite Prompt
+              </>
+            )}
+          </Button>
+        </div>
+      </CardHeader>
+      {rewrite && (
+        <CardContent className="space-y-6">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Original</Label>
+              <div className="p-4 rounded-lg bg-muted/50 border border-border/50 text-sm whitespace-pre-wrap">
+                {segments.filter((segment) => segment.type !== 'added').map((segment, index) => (
+                  <span
+                    key={index}
+                    className={segment.type === 'removed' ? 'bg-destructive/20 text-destructive line-through' : undefined}
+                  >
+                    {segment.text}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Rewritten</Label>
+              <div className="p-4 rounded-lg bg-muted/50 border border-border/50 text-sm whitespace-pre-wrap">
+                {segments.filter((segment) => segment.type !== 'removed').map((segment, index) => (
+                  <span
+                    key={index}
+                    className={segment.type === 'added' ? 'bg-success/20 text-success' : undefined}
+                  >
+                    {segment.text}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {rewrite.changes.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">What changed</Label>
+              <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                {rewrite.changes.map((change, index) => (
+                  <li key={index}>{change}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant={getScoreVariant(evaluation.score)}>{formatScore(evaluation.score)}</Badge>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              {isReevaluating ? (
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Scoring rewrite...
+                </span>
+              ) : rewrittenEvaluation ? (
+                <Badge variant={getScoreVariant(rewrittenEvaluation.score)}>
+                  {formatScore(rewrittenEvaluation.score)}
+                </Badge>
+              ) : (
+                <span className="text-muted-foreground">Not scored</span>
+              )}
+            </div>
+            <Button onClick={handleAccept} disabled={isReevaluating}>
+              <Check className="h-4 w-4" />
+              Accept into Editor
+            </Button>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default PromptRewrite;
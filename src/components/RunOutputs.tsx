@@ -0,0 +1,59 @@
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, Clock } from "lucide-react";
+
+// One executed test case, either live from run-prompt or saved in prompt_runs
+export interface RunOutput {
+  input: string;
+  variables: Record<string, string>;
+  output: string | null;
+  error: string | null;
+  model: string | null;
+  latencyMs: number | null;
+}
+
+interface RunOutputsProps {
+  runs: RunOutput[];
+}
+
+const describeCase = ({ input, variables }: RunOutput) => [
+  ...Object.entries(variables).filter(([, value]) => value.trim()).map(([name, value]) => `${name} = ${value}`),
+  ...(input.trim() ? [input.trim()] : []),
+];
+
+// Outputs side by side, one card per test case
+const RunOutputs = ({ runs }: RunOutputsProps) => (
+  <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-4">
+    {runs.map((run, index) => (
+      <div key={index} className="p-4 rounded-lg bg-muted/50 border border-border/50 space-y-3 min-w-0">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium">Test case {index + 1}</span>
+          {run.latencyMs !== null && (
+            <Badge variant="outline" className="gap-1 font-normal">
+              <Clock className="h-3 w-3" />
+              {(run.latencyMs / 1000).toFixed(1)}s
+            </Badge>
+          )}
+        </div>
+        <div className="space-y-1">
+          {describeCase(run).map((line) => (
+            <p key={line} className="text-xs text-muted-foreground border-l-2 border-primary/50 pl-2 line-clamp-3">
+              {line}
+            </p>
+          ))}
+        </div>
+        {run.error !== null ? (
+          <p className="flex items-start gap-2 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            {run.error}
+          </p>
+        ) : (
+          <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">{run.output}</p>
+        )}
+        {run.model && <p className="text-xs text-muted-foreground font-mono">{run.model}</p>}
+      </div>
+    ))}
+  </div>
+);
+
+export default RunOutputs;
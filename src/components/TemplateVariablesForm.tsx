@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Braces, X } from "lucide-react";
+import { analyzePrompt } from "@shared/heuristics";
+import { analyzeMessages, type ChatMessage } from "@shared/messages";
+import { checkVariables } from "@shared/variables";
+
+interface TemplateVariablesFormProps {
+  prompt: string;
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+  // Chat prompts pass their messages so examples are counted from the turns
+  messages?: ChatMessage[];
+}
+
+// Sample values for the prompt's template variables. evaluate-prompt judges
+// the prompt with these filled in as well as the raw template, and runs the
+// same variable checks shown here.
+const TemplateVariablesForm = ({ prompt, values, onChange, messages }: TemplateVariablesFormProps) => {
+  const facts = useMemo(() => (messages ? analyzeMessages(messages).facts : analyzePrompt(prompt)), [prompt, messages]);
+  const warnings = useMemo(() => checkVariables(prompt, values, facts.examples), [prompt, values, facts]);
+  // Values left over after a variable was renamed or removed from the prompt
+  const staleNames = Object.keys(values).filter((name) => !facts.variables.includes(name) && values[name].trim());
+
+  if (facts.variables.length === 0 && staleNames.length === 0) return null;
+
+  const setValue = (name: string, value: string) => onChange({ ...values, [name]: value });
+
+  const removeValue = (name: string) => {
+    const { [name]: _removed, ...rest } = values;
+    onChange(rest);
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 border border-border/50 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Braces className="h-4 w-4 text-primary" />
+        Template variables
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Sample values are substituted into the prompt, which is evaluated alongside the template.
+      </p>
+
+      <div className="space-y-2">
+        {facts.variables.map((name) => (
+          <div key={name} className="grid grid-cols-3 items-center gap-2">
+            <Label htmlFor={`variable-${name}`} className="font-mono text-xs truncate" title={name}>
+              {name}
+            </Label>
+            <Input
+              id={`variable-${name}`}
+              value={values[name] ?? ''}
+              onChange={(e) => setValue(name, e.target.value)}
+              placeholder="Sample value"
+              className="col-span-2 h-8"
+            />
+          </div>
+        ))}
+        {staleNames.map((name) => (
+          <div key={name} className="grid grid-cols-3 items-center gap-2">
+            <Label className="font-mono text-xs truncate text-muted-foreground line-through" title={name}>
+              {name}
+            </Label>
+            <div className="col-span-2 flex items-center gap-2">
+              <Input value={values[name]} disabled className="h-8" />
+              <Button
+                onClick={() => removeValue(name)}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                title="Remove value"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {warnings.length > 0 && (
+        <ul className="space-y-1">
+          {warnings.map((warning) => (
+            <li key={`${warning.kind}-${warning.variable}-${warning.message}`} className="flex items-start gap-2 text-xs text-muted-foreground">
+              <AlertTriangle className="h-3 w-3 mt-0.5 text-warning shrink-0" />
+              {warning.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TemplateVariablesForm;
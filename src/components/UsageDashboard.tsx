@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Activity, Coins, Download, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { dailyUsage, formatCost, formatTokens, usageByFunction, usageToCsv, type UsageRow } from "@/lib/usage";
+
+const RANGES = [7, 30, 90];
+
+// PostgREST caps each response, so the ledger is read in pages
+const PAGE_SIZE = 1000;
+
+const tokenChartConfig = {
+  promptTokens: {
+    label: "Prompt tokens",
+    color: "hsl(var(--primary))",
+  },
+  completionTokens: {
+    label: "Completion tokens",
+    color: "hsl(var(--primary-glow))",
+  },
+} satisfies ChartConfig;
+
+const costChartConfig = {
+  cost: {
+    label: "Estimated cost (USD)",
+    color: "hsl(var(--success))",
+  },
+} satisfies ChartConfig;
+
+const UsageDashboard = () => {
+  const [days, setDays] = useState(30);
+  const [rows, setRows] = useState<UsageRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchUsage = async () => {
+      setIsLoading(true);
+      const since = new Date();
+      since.setHours(0, 0, 0, 0);
+      since.setDate(since.getDate() - (days - 1));
+
+      const collected: UsageRow[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('llm_usage')
+          .select('*')
+          .gte('created_at', since.toISOString())
+          .order('created_at', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+          console.error('Error loading usage:', error);
+          toast({
+            title: "Error",
+            description: "Failed to load usage data.",
+            variant: "destructive"
+          });
+          break;
+        }
+        collected.push(...data);
+        if (data.length < PAGE_SIZE) break;
+      }
+
+      setRows(collected);
+      setIsLoading(false);
+    };
+
+    fetchUsage();
+  }, [user, days, toast]);
+
+  const daily = dailyUsage(rows, days);
+  const byFunction = usageByFunction(rows);
+  const totalTokens = rows.reduce((sum, row) => sum + row.prompt_tokens + row.completion_tokens, 0);
+  const totalCost = rows.reduce((sum, row) => sum + Number(row.cost_usd ?? 0), 0);
+  const averageLatency = rows.length > 0 ? Math.round(rows.reduce((sum, row) => sum + row.latency_ms, 0) / rows.length) : 0;
+  const hasEstimates = rows.some((row) => row.tokens_estimated);
+  const hasUnpriced = rows.some((row) => row.cost_usd === null);
+
+  const handleExport = () => {
+    const blob = new Blob([usageToCsv(rows)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `llm-usage-last-${days}-days.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const summary = [
+    { label: 'Model calls', value: rows.length.toLocaleString() },
+    { label: 'Tokens', value: formatTokens(totalTokens) },
+    { label: 'Estimated cost', value: formatCost(totalCost) },
+    { label: 'Average latency', value: `${averageLatency.toLocaleString()} ms` },
+  ];
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 px-4 lg:px-8">
+      {/* Header */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-full bg-gradient-to-r from-primary to-primary-glow">
+              <Activity className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+              Usage
+            </h1>
+          </div>
+          <p className="text-lg text-muted-foreground">
+            Tokens, latency and estimated cost of your model calls
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map((range) => (
+                <SelectItem key={range} value={String(range)}>
+                  Last {range} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleExport} disabled={isLoading || rows.length === 0} variant="outline">
+            <Download className="h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {summary.map((item) => (
+              <Card key={item.label} className="shadow-[var(--shadow-card)]">
+                <CardContent className="p-6 space-y-1">
+                  <p className="text-sm text-muted-foreground">{item.label}</p>
+                  <p className="text-2xl font-bold">{item.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {(hasEstimates || hasUnpriced) && (
+            <p className="text-xs text-muted-foreground">
+              {hasEstimates && 'Streamed responses do not report usage, so their tokens are estimated from text length. '}
+              {hasUnpriced && 'Calls to models without a known price are excluded from the cost.'}
+            </p>
+          )}
+
+          {/* Daily charts */}
+          <div className="grid lg:grid-cols-2 gap-8">
+            <Card className="shadow-[var(--shadow-card)]">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Activity className="h-5 w-5 text-primary" />
+                  Tokens per Day
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={tokenChartConfig} className="max-h-[280px] w-full">
+                  <BarChart data={daily}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} tickFormatter={formatTokens} width={48} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="promptTokens" stackId="tokens" fill="var(--color-promptTokens)" />
+                    <Bar dataKey="completionTokens" stackId="tokens" fill="var(--color-completionTokens)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-[var(--shadow-card)]">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Coins className="h-5 w-5 text-primary" />
+                  Estimated Cost per Day
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={costChartConfig} className="max-h-[280px] w-full">
+                  <BarChart data={daily}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} tickFormatter={(value: number) => formatCost(value)} width={64} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="cost" fill="var(--color-cost)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Per function */}
+          <Card className="shadow-[var(--shadow-card)]">
+            <CardHeader>
+              <CardTitle>By Function</CardTitle>
+              <CardDescription>Model calls made by each edge function in the selected range</CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {byFunction.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  No model calls in this range yet.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Function</TableHead>
+                      <TableHead className="text-right">Calls</TableHead>
+                      <TableHead className="text-right">Tokens</TableHead>
+                      <TableHead className="text-right">Estimated cost</TableHead>
+                      <TableHead className="text-right">Average latency</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {byFunction.map((total) => (
+                      <TableRow key={total.functionName}>
+                        <TableCell className="font-mono text-sm">
+                          {total.functionName}
+                          {total.errors > 0 && (
+                            <Badge variant="destructive" className="ml-2">
+                              {total.errors} failed
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{total.calls.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{formatTokens(total.tokens)}</TableCell>
+                        <TableCell className="text-right">{formatCost(total.cost)}</TableCell>
+                        <TableCell className="text-right">{total.averageLatencyMs.toLocaleString()} ms</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UsageDashboard;
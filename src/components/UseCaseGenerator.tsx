@@ -1,33 +1,81 @@
 import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Lightbulb, Save, Copy, Loader2, Sparkles, Building, Target } from "lucide-react";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Lightbulb, Save, Copy, Loader2, Sparkles, Building, Target, Database, RefreshCw, ChevronDown, Hash } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useTechniques } from "@/hooks/useTechniques";
+import { describeFunctionError } from "@/lib/errors";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type { z } from "zod";
+import { limitUseCaseCount, useCaseRequestSchema } from "@shared/requests";
+import {
+  USECASE_COUNT,
+  USECASE_DETAIL_LEVELS,
+  type UseCase,
+  type UseCaseDetail,
+  type UseCaseEffort,
+  type UseCaseResponse,
+} from "@shared/usecases";
 
-interface UseCase {
-  prompt: string;
-}
+// The fields generate-usecases validates, with its limits and messages
+const useCaseFormSchema = useCaseRequestSchema
+  .innerType()
+  .pick({ department: true, task: true, count: true, detail: true })
+  .superRefine(limitUseCaseCount);
 
-interface UseCaseResponse {
-  usecases: UseCase[];
-}
+type UseCaseFormValues = z.infer<typeof useCaseFormSchema>;
+
+const EFFORT_STYLES: Record<UseCaseEffort, string> = {
+  low: 'border-success/50 text-success',
+  medium: 'border-warning/50 text-warning',
+  high: 'border-destructive/50 text-destructive',
+};
 
 const UseCaseGenerator = () => {
-  const [department, setDepartment] = useState('');
-  const [task, setTask] = useState('');
+  const form = useForm<UseCaseFormValues>({
+    resolver: zodResolver(useCaseFormSchema),
+    defaultValues: { department: '', task: '', count: USECASE_COUNT.default, detail: 'standard' },
+  });
   const [usecases, setUsecases] = useState<UseCase[]>([]);
+  const [expanded, setExpanded] = useState<number[]>([]);
+  const [isCached, setIsCached] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const { toast } = useToast();
   const { user } = useAuth();
+  const { techniques } = useTechniques();
+
+  const selectedDetail = form.watch('detail');
+  const maxCount = USECASE_DETAIL_LEVELS.find((level) => level.id === selectedDetail)?.maxCount ?? USECASE_COUNT.max;
+
+  const techniqueLabel = (id: string) => techniques.find((tech) => tech.id === id)?.label ?? id;
+
+  const toggleExpanded = (index: number, open: boolean) => {
+    setExpanded((current) => open ? [...current, index] : current.filter((i) => i !== index));
+  };
+
+  // Plain-text form used when copying all use cases and saving to history
+  const formatUseCase = (usecase: UseCase, index: number) => [
+    `${index + 1}. ${usecase.title}`,
+    usecase.description,
+    `Prompt: ${usecase.prompt}`,
+    `Business impact: ${usecase.businessImpact}`,
+    `Effort: ${usecase.effort} - ${usecase.effortRationale}`,
+    `Data sources: ${usecase.dataSources.join(', ')}`,
+    `Risks: ${usecase.risks.join(', ')}`,
+    `Technique: ${techniqueLabel(usecase.technique)}`,
+  ].join('\n');
 
   const departmentOptions = [
     'Marketing',
@@ -44,39 +92,33 @@ const UseCaseGenerator = () => {
     'Research & Development'
   ];
 
-  const generateUseCases = async () => {
-    if (!department.trim() || !task.trim()) {
-      toast({
-        title: "Missing Information",
-        description: "Please provide both department and task description.",
-        variant: "destructive"
-      });
-      return;
-    }
-
+  // Called with validated, trimmed values. `force` skips the server-side
+  // result cache and replaces the cached entry
+  const generateUseCases = async ({ department, task, count, detail }: UseCaseFormValues, force = false) => {
     setIsGenerating(true);
     try {
       const { data, error } = await supabase.functions.invoke('generate-usecases', {
-        body: { department: department.trim(), task: task.trim() }
+        body: { department, task, count, detail, force }
       });
 
       if (error) throw error;
 
       const response = data as UseCaseResponse;
       setUsecases(response.usecases || []);
+      setExpanded([]);
+      setIsCached(Boolean(response.cached));
 
       toast({
         title: "AI Prompts Generated!",
-        description: `Generated ${response.usecases?.length || 0} AI prompt ideas for ${department}.`,
+        description: `Generated ${response.usecases?.length || 0} AI use cases for ${department}.`,
       });
     } catch (error) {
       console.error('Error generating use cases:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      toast({
+      const message = await describeFunctionError(error, {
         title: "Generation Failed",
-        description: `Failed to generate use cases: ${errorMessage}`,
-        variant: "destructive"
+        description: "Failed to generate use cases. Please try again.",
       });
+      toast({ ...message, variant: "destructive" });
     } finally {
       setIsGenerating(false);
     }
@@ -84,12 +126,11 @@ const UseCaseGenerator = () => {
 
   const saveUseCases = async () => {
     if (!user || usecases.length === 0) return;
+    const { department, task } = form.getValues();
 
     setIsSaving(true);
     try {
-      const usecasesText = usecases.map((usecase, index) => 
-        `${index + 1}. ${usecase.prompt}`
-      ).join('\n');
+      const usecasesText = usecases.map(formatUseCase).join('\n\n');
 
       const { error } = await supabase
         .from('usecase_generations')
@@ -128,9 +169,7 @@ const UseCaseGenerator = () => {
   };
 
   const copyAllUseCases = () => {
-    const allUseCases = usecases.map((usecase, index) => 
-      `${index + 1}. ${usecase.prompt}`
-    ).join('\n');
+    const allUseCases = usecases.map(formatUseCase).join('\n\n');
     
     navigator.clipboard.writeText(allUseCases);
     toast({
@@ -168,58 +207,134 @@ const UseCaseGenerator = () => {
               Describe your department and the specific challenge to get actionable AI prompts
             </CardDescription>
           </CardHeader>
-          <CardContent className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="department" className="flex items-center gap-2">
-                <Building className="h-4 w-4" />
-                Department
-              </Label>
-              <Select value={department} onValueChange={setDepartment}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select your department..." />
-                </SelectTrigger>
-                <SelectContent>
-                  {departmentOptions.map((dept) => (
-                    <SelectItem key={dept} value={dept}>
-                      {dept}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((values) => generateUseCases(values))} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="department"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2">
+                        <Building className="h-4 w-4" />
+                        Department
+                      </FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select your department..." />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {departmentOptions.map((dept) => (
+                            <SelectItem key={dept} value={dept}>
+                              {dept}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-            <div className="space-y-2">
-              <Label htmlFor="task" className="flex items-center gap-2">
-                <Target className="h-4 w-4" />
-                Task or Challenge Description
-              </Label>
-              <Textarea
-                id="task"
-                placeholder="Describe the specific task or challenge you want to solve with AI. Keep it concise to get focused prompt suggestions..."
-                value={task}
-                onChange={(e) => setTask(e.target.value)}
-                rows={4}
-              />
-            </div>
+                <FormField
+                  control={form.control}
+                  name="task"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2">
+                        <Target className="h-4 w-4" />
+                        Task or Challenge Description
+                      </FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Describe the specific task or challenge you want to solve with AI. Keep it concise to get focused prompt suggestions..."
+                          rows={4}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-            <Button 
-              onClick={generateUseCases}
-              disabled={isGenerating || !department.trim() || !task.trim()}
-              className="w-full"
-              size="lg"
-            >
-              {isGenerating ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Generating AI Solutions...
-                </>
-              ) : (
-                <>
-                  <Sparkles className="mr-2 h-4 w-4" />
-                  Generate AI Prompts
-                </>
-              )}
-            </Button>
+                <div className="grid sm:grid-cols-[8rem_1fr] gap-4">
+                  <FormField
+                    control={form.control}
+                    name="count"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2">
+                          <Hash className="h-4 w-4" />
+                          Use Cases
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={USECASE_COUNT.min}
+                            max={maxCount}
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="detail"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Detail</FormLabel>
+                        <FormControl>
+                          <ToggleGroup
+                            type="single"
+                            variant="outline"
+                            className="justify-start"
+                            value={field.value}
+                            onValueChange={(value) => {
+                              if (value) field.onChange(value as UseCaseDetail);
+                            }}
+                          >
+                            {USECASE_DETAIL_LEVELS.map((level) => (
+                              <ToggleGroupItem key={level.id} value={level.id}>
+                                {level.label}
+                              </ToggleGroupItem>
+                            ))}
+                          </ToggleGroup>
+                        </FormControl>
+                        <FormDescription>
+                          {USECASE_DETAIL_LEVELS.find((level) => level.id === field.value)?.description}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={isGenerating}
+                  className="w-full"
+                  size="lg"
+                >
+                  {isGenerating ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Generating AI Solutions...
+                    </>
+                  ) : (
+                    <>
+                      <Sparkles className="mr-2 h-4 w-4" />
+                      Generate AI Prompts
+                    </>
+                  )}
+                </Button>
+              </form>
+            </Form>
           </CardContent>
         </Card>
 
@@ -231,7 +346,7 @@ const UseCaseGenerator = () => {
               Generated AI Prompts
               {usecases.length > 0 && (
                 <Badge variant="secondary" className="ml-2">
-                  {usecases.length} prompt{usecases.length !== 1 ? 's' : ''}
+                  {usecases.length} use case{usecases.length !== 1 ? 's' : ''}
                 </Badge>
               )}
             </CardTitle>
@@ -277,29 +392,90 @@ const UseCaseGenerator = () => {
                     <Copy className="mr-2 h-4 w-4" />
                     Copy All
                   </Button>
+                  {isCached && (
+                    <>
+                      <Badge variant="outline" className="gap-1 self-center">
+                        <Database className="h-3 w-3" />
+                        Cached result
+                      </Badge>
+                      <Button
+                        onClick={form.handleSubmit((values) => generateUseCases(values, true))}
+                        disabled={isGenerating}
+                        variant="ghost"
+                        size="sm"
+                      >
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Regenerate
+                      </Button>
+                    </>
+                  )}
                 </div>
 
                 <Separator />
 
-                {/* AI Prompts List */}
+                {/* Use Case Cards */}
                 <div className="space-y-3 max-h-[600px] overflow-y-auto">
                   {usecases.map((usecase, index) => (
-                    <div key={index} className="p-4 border border-border/50 rounded-lg flex items-center justify-between hover:bg-muted/30 transition-colors">
-                      <div className="flex items-center gap-3 flex-1">
-                        <Badge variant="outline" className="text-xs font-mono">
-                          #{index + 1}
-                        </Badge>
-                        <p className="font-medium text-foreground">{usecase.prompt}</p>
+                    <Collapsible
+                      key={index}
+                      open={expanded.includes(index)}
+                      onOpenChange={(open) => toggleExpanded(index, open)}
+                      className="border border-border/50 rounded-lg"
+                    >
+                      <div className="p-4 flex items-start justify-between gap-2 hover:bg-muted/30 transition-colors">
+                        <CollapsibleTrigger className="flex items-start gap-3 flex-1 text-left">
+                          <Badge variant="outline" className="text-xs font-mono">
+                            #{index + 1}
+                          </Badge>
+                          <div className="flex-1 space-y-2">
+                            <p className="font-medium text-foreground">{usecase.title}</p>
+                            <div className="flex flex-wrap gap-2">
+                              <Badge variant="outline" className={EFFORT_STYLES[usecase.effort]}>
+                                {usecase.effort} effort
+                              </Badge>
+                              <Badge variant="secondary">{techniqueLabel(usecase.technique)}</Badge>
+                            </div>
+                          </div>
+                          <ChevronDown className={`h-4 w-4 mt-1 text-muted-foreground transition-transform ${expanded.includes(index) ? 'rotate-180' : ''}`} />
+                        </CollapsibleTrigger>
+                        <Button
+                          onClick={() => copyToClipboard(usecase.prompt)}
+                          variant="ghost"
+                          size="sm"
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
                       </div>
-                      <Button
-                        onClick={() => copyToClipboard(usecase.prompt)}
-                        variant="ghost"
-                        size="sm"
-                        className="ml-2"
-                      >
-                        <Copy className="h-4 w-4" />
-                      </Button>
-                    </div>
+                      <CollapsibleContent className="px-4 pb-4 space-y-3 text-sm">
+                        <p className="text-muted-foreground">{usecase.description}</p>
+                        <div className="space-y-1">
+                          <h4 className="font-medium">Prompt</h4>
+                          <p className="p-3 rounded-md bg-muted/50 whitespace-pre-wrap">{usecase.prompt}</p>
+                        </div>
+                        <div className="space-y-1">
+                          <h4 className="font-medium">Business Impact</h4>
+                          <p className="text-muted-foreground">{usecase.businessImpact}</p>
+                        </div>
+                        <div className="space-y-1">
+                          <h4 className="font-medium">Effort</h4>
+                          <p className="text-muted-foreground">{usecase.effortRationale}</p>
+                        </div>
+                        <div className="grid sm:grid-cols-2 gap-3">
+                          <div className="space-y-1">
+                            <h4 className="font-medium">Data Sources</h4>
+                            <ul className="list-disc pl-5 text-muted-foreground">
+                              {usecase.dataSources.map((source) => <li key={source}>{source}</li>)}
+                            </ul>
+                          </div>
+                          <div className="space-y-1">
+                            <h4 className="font-medium">Risks</h4>
+                            <ul className="list-disc pl-5 text-muted-foreground">
+                              {usecase.risks.map((risk) => <li key={risk}>{risk}</li>)}
+                            </ul>
+                          </div>
+                        </div>
+                      </CollapsibleContent>
+                    </Collapsible>
                   ))}
                 </div>
               </div>
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { formatScore, getMatchLabel, getMatchVariant, getScoreVariant } from "@/lib/evaluation";
+import type { VariableCheck } from "@shared/evaluation";
+
+interface VariableCheckResultProps {
+  check: VariableCheck;
+  // Score of the raw template, for comparison with the rendered prompt
+  templateScore: number;
+}
+
+const VariableCheckResult = ({ check, templateScore }: VariableCheckResultProps) => {
+  const { rendered } = check;
+  const difference = rendered.score - templateScore;
+
+  return (
+    <div className="space-y-3">
+      {check.warnings.length > 0 ? (
+        <ul className="space-y-1">
+          {check.warnings.map((warning) => (
+            <li key={`${warning.kind}-${warning.variable}-${warning.message}`} className="flex items-start gap-2 text-sm">
+              <AlertTriangle className="h-4 w-4 mt-0.5 text-warning shrink-0" />
+              <span className="text-muted-foreground">
+                <span className="font-medium text-foreground capitalize">{warning.kind}: </span>
+                {warning.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <CheckCircle2 className="h-4 w-4 text-success shrink-0" />
+          Every variable has a sample value and is used consistently.
+        </p>
+      )}
+
+      <div className="p-4 rounded-lg bg-muted/50 border border-border/50 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium">With sample values</span>
+          <Badge variant={getMatchVariant(rendered.match)}>{getMatchLabel(rendered.match)}</Badge>
+          <Badge variant={getScoreVariant(rendered.score)} className="font-bold">{formatScore(rendered.score)}</Badge>
+          {difference !== 0 && (
+            <span className="text-xs text-muted-foreground">
+              {difference > 0 ? '+' : ''}{difference.toFixed(1)} compared with the template
+            </span>
+          )}
+        </div>
+        <p className="text-xs font-mono whitespace-pre-wrap text-muted-foreground line-clamp-6">{check.renderedPrompt}</p>
+        <p className="text-sm leading-relaxed">{rendered.rationale}</p>
+      </div>
+    </div>
+  );
+};
+
+export default VariableCheckResult;
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toQuotaStatus, type QuotaStatus } from '@shared/quota';
+
+// Refresh often enough that the header reflects recent evaluations
+const REFRESH_INTERVAL_MS = 30_000;
+
+export const useQuota = (enabled: boolean) => {
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setQuota(null);
+      return;
+    }
+
+    const fetchQuota = async () => {
+      const { data, error } = await supabase.rpc('get_my_quota').maybeSingle();
+
+      if (error) {
+        console.error('Error loading quota:', error);
+        return;
+      }
+      setQuota(data ? toQuotaStatus(data) : null);
+    };
+
+    fetchQuota();
+    const interval = window.setInterval(fetchQuota, REFRESH_INTERVAL_MS);
+    window.addEventListener('focus', fetchQuota);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('focus', fetchQuota);
+    };
+  }, [enabled]);
+
+  return quota;
+};
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type PromptTechnique = Tables<'prompt_techniques'>;
+
+export const useTechniques = () => {
+  const [techniques, setTechniques] = useState<PromptTechnique[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchTechniques = async () => {
+      const { data, error } = await supabase
+        .from('prompt_techniques')
+        .select('*')
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) {
+        console.error('Error loading techniques:', error);
+      }
+      setTechniques(data || []);
+      setLoading(false);
+    };
+
+    fetchTechniques();
+  }, []);
+
+  return { techniques, loading };
+};
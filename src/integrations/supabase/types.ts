@@ -9,6 +9,102 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      judge_prompt_templates: {
+        Row: {
+          activated_at: string | null
+          created_at: string
+          created_by: string | null
+          is_active: boolean
+          notes: string | null
+          template: string
+          version: number
+        }
+        Insert: {
+          activated_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          is_active?: boolean
+          notes?: string | null
+          template: string
+          version?: number
+        }
+        Update: {
+          activated_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          is_active?: boolean
+          notes?: string | null
+          template?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      llm_result_cache: {
+        Row: {
+          cache_key: string
+          created_at: string
+          expires_at: string
+          result: Json
+        }
+        Insert: {
+          cache_key: string
+          created_at?: string
+          expires_at: string
+          result: Json
+        }
+        Update: {
+          cache_key?: string
+          created_at?: string
+          expires_at?: string
+          result?: Json
+        }
+        Relationships: []
+      }
+      llm_usage: {
+        Row: {
+          completion_tokens: number
+          cost_usd: number | null
+          created_at: string
+          function_name: string
+          id: string
+          latency_ms: number
+          model: string
+          prompt_tokens: number
+          provider: string
+          status: string
+          tokens_estimated: boolean
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number
+          cost_usd?: number | null
+          created_at?: string
+          function_name: string
+          id?: string
+          latency_ms: number
+          model: string
+          prompt_tokens?: number
+          provider: string
+          status?: string
+          tokens_estimated?: boolean
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number
+          cost_usd?: number | null
+          created_at?: string
+          function_name?: string
+          id?: string
+          latency_ms?: number
+          model?: string
+          prompt_tokens?: number
+          provider?: string
+          status?: string
+          tokens_estimated?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -39,43 +135,217 @@ export type Database = {
         }
         Relationships: []
       }
+      prompt_evaluation_criteria: {
+        Row: {
+          comment: string
+          created_at: string
+          criterion: string
+          evaluation_id: string
+          id: string
+          score: number
+        }
+        Insert: {
+          comment?: string
+          created_at?: string
+          criterion: string
+          evaluation_id: string
+          id?: string
+          score: number
+        }
+        Update: {
+          comment?: string
+          created_at?: string
+          criterion?: string
+          evaluation_id?: string
+          id?: string
+          score?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prompt_evaluation_criteria_evaluation_id_fkey"
+            columns: ["evaluation_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_evaluations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       prompt_evaluations: {
         Row: {
+          annotations: Json
+          confidence: number | null
           created_at: string
-          evaluation_match: string
-          evaluation_rating: string
-          evaluation_reason: string
+          evaluation_match: string | null
+          evaluation_rating: string | null
+          evaluation_reason: string | null
+          example_count: number | null
           id: string
+          is_match: boolean | null
+          judge_template_version: number | null
           prompt_text: string
+          rationale: string
+          score: number | null
           selected_technique: string
           title: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          annotations?: Json
+          confidence?: number | null
           created_at?: string
-          evaluation_match: string
-          evaluation_rating: string
-          evaluation_reason: string
+          evaluation_match?: string | null
+          evaluation_rating?: string | null
+          evaluation_reason?: string | null
+          example_count?: number | null
           id?: string
+          is_match?: boolean | null
+          judge_template_version?: number | null
           prompt_text: string
+          rationale: string
+          score?: number | null
           selected_technique: string
           title?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          annotations?: Json
+          confidence?: number | null
           created_at?: string
-          evaluation_match?: string
-          evaluation_rating?: string
-          evaluation_reason?: string
+          evaluation_match?: string | null
+          evaluation_rating?: string | null
+          evaluation_reason?: string | null
+          example_count?: number | null
           id?: string
+          is_match?: boolean | null
+          judge_template_version?: number | null
           prompt_text?: string
+          rationale?: string
+          score?: number | null
           selected_technique?: string
           title?: string | null
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "prompt_evaluations_judge_template_version_fkey"
+            columns: ["judge_template_version"]
+            isOneToOne: false
+            referencedRelation: "judge_prompt_templates"
+            referencedColumns: ["version"]
+          },
+        ]
+      }
+      prompt_runs: {
+        Row: {
+          created_at: string
+          error: string | null
+          evaluation_id: string
+          id: string
+          input: string
+          latency_ms: number | null
+          model: string | null
+          output: string | null
+          provider: string | null
+          user_id: string
+          variables: Json
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          evaluation_id: string
+          id?: string
+          input?: string
+          latency_ms?: number | null
+          model?: string | null
+          output?: string | null
+          provider?: string | null
+          user_id: string
+          variables?: Json
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          evaluation_id?: string
+          id?: string
+          input?: string
+          latency_ms?: number | null
+          model?: string | null
+          output?: string | null
+          provider?: string | null
+          user_id?: string
+          variables?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prompt_runs_evaluation_id_fkey"
+            columns: ["evaluation_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_evaluations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prompt_techniques: {
+        Row: {
+          created_at: string
+          description: string
+          detection_criteria: string
+          id: string
+          is_active: boolean
+          label: string
+          scoring_rubric: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          detection_criteria: string
+          id: string
+          is_active?: boolean
+          label: string
+          scoring_rubric: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          detection_criteria?: string
+          id?: string
+          is_active?: boolean
+          label?: string
+          scoring_rubric?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      quota_usage: {
+        Row: {
+          created_at: string
+          function_name: string
+          id: string
+          units: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          function_name: string
+          id?: string
+          units?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          function_name?: string
+          id?: string
+          units?: number
+          user_id?: string
+        }
         Relationships: []
       }
       usecase_generations: {
@@ -111,12 +381,77 @@ export type Database = {
         }
         Relationships: []
       }
+      user_quota_limits: {
+        Row: {
+          per_day: number
+          per_minute: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          per_day: number
+          per_minute: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          per_day?: number
+          per_minute?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      activate_judge_template: {
+        Args: { p_version: number }
+        Returns: undefined
+      }
+      consume_quota: {
+        Args: { p_user_id: string; p_function: string; p_units?: number }
+        Returns: {
+          allowed: boolean
+          minute_limit: number
+          minute_remaining: number
+          day_limit: number
+          day_remaining: number
+          retry_after_seconds: number
+        }[]
+      }
+      get_my_quota: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          allowed: boolean
+          minute_limit: number
+          minute_remaining: number
+          day_limit: number
+          day_remaining: number
+          retry_after_seconds: number
+        }[]
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      quota_status: {
+        Args: { p_user_id: string; p_units?: number }
+        Returns: {
+          allowed: boolean
+          minute_limit: number
+          minute_remaining: number
+          day_limit: number
+          day_remaining: number
+          retry_after_seconds: number
+        }[]
+      }
+      save_evaluation_batch: {
+        Args: { evaluations: Json }
+        Returns: string[]
+      }
     }
     Enums: {
       [_ in never]: never
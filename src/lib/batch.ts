@@ -0,0 +1,99 @@
+import type { BatchItem } from "@shared/batch";
+
+// Parsing for batch evaluation uploads. CSV files need a header row with a
+// "prompt" column and optional "technique" and "title" columns; JSONL files
+// hold one {prompt, technique, title} object per line.
+
+// Minimal RFC 4180 parser: quoted fields may contain commas, newlines and
+// doubled quotes.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+const fromCsv = (text: string): BatchItem[] => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  const promptColumn = columns.indexOf('prompt');
+  if (promptColumn === -1) {
+    throw new Error('CSV header must include a "prompt" column');
+  }
+  const techniqueColumn = columns.indexOf('technique');
+  const titleColumn = columns.indexOf('title');
+
+  return rows.map((cells) => ({
+    prompt: cells[promptColumn]?.trim() ?? '',
+    technique: techniqueColumn === -1 ? '' : cells[techniqueColumn]?.trim() ?? '',
+    title: titleColumn === -1 ? undefined : cells[titleColumn]?.trim() || undefined,
+  }));
+};
+
+const fromJsonl = (text: string): BatchItem[] =>
+  text.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return [];
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1} is not valid JSON`);
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error(`Line ${index + 1} is not a JSON object`);
+    }
+    const entry = parsed as Record<string, unknown>;
+    return [{
+      prompt: String(entry.prompt ?? '').trim(),
+      technique: String(entry.technique ?? entry.selectedTechnique ?? '').trim(),
+      title: typeof entry.title === 'string' && entry.title.trim() ? entry.title.trim() : undefined,
+    }];
+  });
+
+/**
+ * Parses an uploaded CSV or JSONL file into batch items. Rows without a
+ * technique keep an empty one so a default can be applied later. Throws on
+ * malformed files.
+ */
+export const parseBatchFile = (fileName: string, text: string): BatchItem[] => {
+  const items = /\.(jsonl|ndjson)$/i.test(fileName)
+    ? fromJsonl(text)
+    : fromCsv(text);
+  return items.filter((item) => item.prompt);
+};
+
+export const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
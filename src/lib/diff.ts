@@ -0,0 +1,73 @@
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// The LCS table holds one cell per pair of tokens; beyond this (16 MB) the
+// diff falls back to lines, and then to no diff at all
+const MAX_DIFF_CELLS = 4_000_000;
+
+const tokenizeWords = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+// Each line keeps its trailing newline
+const tokenizeLines = (text: string) => text.split(/(?<=\n)/).filter(Boolean);
+
+const withinLimit = (a: string[], b: string[]) => (a.length + 1) * (b.length + 1) <= MAX_DIFF_CELLS;
+
+// Diff based on the longest common subsequence of tokens
+const diffTokens = (a: string[], b: string[]): DiffSegment[] => {
+  const cols = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * cols);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = a[i] === b[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return segments;
+};
+
+/**
+ * Word-level diff for texts of any size. Whitespace is kept as separate tokens
+ * so the original layout survives. Texts too long to diff by word are diffed
+ * by line, and texts too long for that are shown as replaced whole.
+ */
+export const diffText = (before: string, after: string): DiffSegment[] => {
+  const words = [tokenizeWords(before), tokenizeWords(after)];
+  if (withinLimit(words[0], words[1])) return diffTokens(words[0], words[1]);
+
+  const lines = [tokenizeLines(before), tokenizeLines(after)];
+  if (withinLimit(lines[0], lines[1])) return diffTokens(lines[0], lines[1]);
+
+  const replaced: DiffSegment[] = [{ type: 'removed', text: before }, { type: 'added', text: after }];
+  return replaced.filter((segment) => segment.text);
+};
@@ -0,0 +1,78 @@
+import { FunctionsFetchError, FunctionsHttpError } from "@supabase/supabase-js";
+import { isErrorBody, type ErrorBody, type ErrorCode } from "@shared/errors";
+
+// Turns edge function failures into toast messages that say what went wrong
+// and what the user can do about it.
+
+export interface ErrorMessage {
+  title: string;
+  description: string;
+}
+
+const waitHint = (retryAfter?: number) =>
+  retryAfter ? `Try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}.` : 'Try again in a moment.';
+
+const ERROR_MESSAGES: Record<ErrorCode, (body: ErrorBody) => ErrorMessage> = {
+  // The server's message names the field or value that was rejected
+  bad_request: (body) => ({ title: "Check Your Input", description: body.error }),
+  unauthorized: () => ({
+    title: "Sign In Required",
+    description: "Your session has expired. Sign in again to continue.",
+  }),
+  quota_exceeded: (body) => ({ title: "Quota Reached", description: body.error }),
+  upstream_rate_limited: (body) => ({
+    title: "AI Provider Busy",
+    description: `The AI provider is receiving too many requests. ${waitHint(body.retryAfter)}`,
+  }),
+  upstream_timeout: () => ({
+    title: "AI Provider Timed Out",
+    description: "The AI provider took too long to answer. Try again, or shorten the prompt.",
+  }),
+  upstream_error: () => ({
+    title: "AI Provider Unavailable",
+    description: "The AI provider returned an error. Try again in a moment.",
+  }),
+  parse_failed: () => ({
+    title: "Unusable Response",
+    description: "The model did not return a valid answer, even after being asked to correct it. Please try again.",
+  }),
+  config_error: () => ({
+    title: "Service Not Configured",
+    description: "The AI provider is not set up correctly. Ask an administrator to check the function secrets.",
+  }),
+  internal_error: () => ({
+    title: "Something Went Wrong",
+    description: "An unexpected error occurred. Please try again.",
+  }),
+};
+
+// The error body of a failed invoke is still unread on the response. It can
+// only be read once, so describe the body rather than the error afterwards
+export const readErrorBody = async (error: unknown): Promise<ErrorBody | null> => {
+  if (isErrorBody(error)) return error;
+  if (error instanceof FunctionsHttpError && error.context instanceof Response) {
+    try {
+      const body = await error.context.json();
+      return isErrorBody(body) ? body : null;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
+/**
+ * Message for an error from `supabase.functions.invoke` or a stream `error`
+ * event. Errors without a code get the caller's fallback.
+ */
+export const describeFunctionError = async (error: unknown, fallback: ErrorMessage): Promise<ErrorMessage> => {
+  const body = await readErrorBody(error);
+  if (body) return ERROR_MESSAGES[body.code](body);
+  if (error instanceof FunctionsFetchError) {
+    return {
+      title: "Connection Problem",
+      description: "The server could not be reached. Check your connection and try again.",
+    };
+  }
+  return fallback;
+};
@@ -0,0 +1,39 @@
+import type { BadgeProps } from "@/components/ui/badge";
+import type { Json } from "@/integrations/supabase/types";
+import { promptAnnotationSchema, type PromptAnnotation } from "@shared/evaluation";
+
+// Presentation helpers shared by the evaluator and the history page.
+
+type BadgeVariant = BadgeProps['variant'];
+
+export const getMatchVariant = (match: boolean | null): BadgeVariant => {
+  if (match === true) return 'success';
+  if (match === false) return 'destructive';
+  return 'secondary';
+};
+
+export const getMatchLabel = (match: boolean | null) => {
+  if (match === true) return 'Yes';
+  if (match === false) return 'No';
+  return 'Unknown';
+};
+
+export const getScoreVariant = (score: number | null): BadgeVariant => {
+  if (score === null) return 'secondary';
+  if (score >= 8) return 'success';
+  if (score >= 6) return 'warning';
+  return 'destructive';
+};
+
+export const formatScore = (score: number | null) =>
+  score === null ? 'N/A' : `${Number(score.toFixed(1))}/10`;
+
+export const formatConfidence = (confidence: number | null) =>
+  confidence === null ? 'N/A' : `${Math.round(confidence * 100)}%`;
+
+// Annotations are stored as JSONB, so validate them before rendering rather
+// than trusting whatever an older row happens to contain.
+export const parseAnnotations = (value: Json): PromptAnnotation[] => {
+  const result = promptAnnotationSchema.array().safeParse(value);
+  return result.success ? result.data as PromptAnnotation[] : [];
+};
@@ -0,0 +1,108 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+// Aggregation and export helpers for the llm_usage ledger shown on the Usage
+// page. Days are bucketed in the browser's local time zone.
+
+export type UsageRow = Tables<'llm_usage'>;
+
+export interface DailyUsage {
+  date: string;
+  label: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface FunctionUsage {
+  functionName: string;
+  calls: number;
+  errors: number;
+  tokens: number;
+  cost: number;
+  averageLatencyMs: number;
+}
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Totals per day for the last `days` days, including days without calls so
+ * the chart has an even axis.
+ */
+export const dailyUsage = (rows: UsageRow[], days: number, now = new Date()): DailyUsage[] => {
+  const buckets = new Map<string, DailyUsage>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() - offset);
+    buckets.set(dayKey(date), {
+      date: dayKey(date),
+      label: date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+    });
+  }
+
+  rows.forEach((row) => {
+    const bucket = buckets.get(dayKey(new Date(row.created_at)));
+    if (!bucket) return;
+    bucket.calls += 1;
+    bucket.promptTokens += row.prompt_tokens;
+    bucket.completionTokens += row.completion_tokens;
+    bucket.cost += Number(row.cost_usd ?? 0);
+  });
+
+  return [...buckets.values()];
+};
+
+export const usageByFunction = (rows: UsageRow[]): FunctionUsage[] => {
+  const totals = new Map<string, FunctionUsage & { latencyMs: number }>();
+  rows.forEach((row) => {
+    const total = totals.get(row.function_name) ?? {
+      functionName: row.function_name,
+      calls: 0,
+      errors: 0,
+      tokens: 0,
+      cost: 0,
+      averageLatencyMs: 0,
+      latencyMs: 0,
+    };
+    total.calls += 1;
+    total.errors += row.status === 'ok' ? 0 : 1;
+    total.tokens += row.prompt_tokens + row.completion_tokens;
+    total.cost += Number(row.cost_usd ?? 0);
+    total.latencyMs += row.latency_ms;
+    totals.set(row.function_name, total);
+  });
+
+  return [...totals.values()]
+    .map(({ latencyMs, ...total }) => ({ ...total, averageLatencyMs: Math.round(latencyMs / total.calls) }))
+    .sort((a, b) => b.calls - a.calls);
+};
+
+const CSV_COLUMNS: (keyof UsageRow)[] = [
+  'created_at',
+  'function_name',
+  'provider',
+  'model',
+  'prompt_tokens',
+  'completion_tokens',
+  'tokens_estimated',
+  'latency_ms',
+  'cost_usd',
+  'status',
+];
+
+const csvField = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const usageToCsv = (rows: UsageRow[]): string =>
+  [CSV_COLUMNS.join(','), ...rows.map((row) => CSV_COLUMNS.map((column) => csvField(row[column])).join(','))].join('\n');
+
+export const formatCost = (cost: number) => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
@@ -0,0 +1,11 @@
+import JudgeTemplateAdmin from "@/components/JudgeTemplateAdmin";
+
+const Admin = () => {
+  return (
+    <div className="pt-8">
+      <JudgeTemplateAdmin />
+    </div>
+  );
+};
+
+export default Admin;
@@ -0,0 +1,11 @@
+import BatchEvaluator from "@/components/BatchEvaluator";
+
+const Batch = () => {
+  return (
+    <div className="pt-8">
+      <BatchEvaluator />
+    </div>
+  );
+};
+
+export default Batch;
@@ -9,16 +9,39 @@ import { History, Search, Trash2, Eye, Calendar, TrendingUp, BarChart3, Lightbul
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import CriteriaBreakdown from "@/components/CriteriaBreakdown";
+import AnnotatedPrompt from "@/components/AnnotatedPrompt";
+import RunOutputs from "@/components/RunOutputs";
+import { formatConfidence, formatScore, getMatchLabel, getMatchVariant, getScoreVariant, parseAnnotations } from "@/lib/evaluation";
+import type { Json } from "@/integrations/supabase/types";
 
 interface PromptEvaluation {
   id: string;
   title: string | null;
   prompt_text: string;
   selected_technique: string;
-  evaluation_match: string;
-  evaluation_reason: string;
-  evaluation_rating: string;
+  is_match: boolean | null;
+  score: number | null;
+  example_count: number | null;
+  confidence: number | null;
+  rationale: string;
+  annotations: Json;
+  judge_template_version: number | null;
   created_at: string;
+  prompt_evaluation_criteria: {
+    criterion: string;
+    score: number;
+    comment: string;
+  }[];
+  prompt_runs: {
+    id: string;
+    input: string;
+    variables: Json;
+    output: string | null;
+    error: string | null;
+    model: string | null;
+    latency_ms: number | null;
+  }[];
 }
 
 interface UseCaseGeneration {
@@ -72,7 +95,7 @@ const HistoryPage = () => {
       // Fetch prompt evaluations
       const { data: evalData, error: evalError } = await supabase
         .from('prompt_evaluations')
-        .select('*')
+        .select('*, prompt_evaluation_criteria(criterion, score, comment), prompt_runs(id, input, variables, output, error, model, latency_ms)')
         .order('created_at', { ascending: false });
 
       if (evalError) throw evalError;
@@ -150,19 +173,6 @@ const HistoryPage = () => {
     }
   };
 
-  const getMatchColor = (match: string) => {
-    if (match.toLowerCase().includes('yes')) return 'success';
-    if (match.toLowerCase().includes('no')) return 'destructive';
-    return 'secondary';
-  };
-
-  const getRatingColor = (rating: string) => {
-    const score = parseInt(rating.split('/')[0]);
-    if (score >= 8) return 'success';
-    if (score >= 6) return 'warning';
-    return 'destructive';
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -260,8 +270,8 @@ const HistoryPage = () => {
                               </p>
                             </div>
                             <div className="flex items-center gap-2 ml-4">
-                              <Badge variant={getMatchColor(evaluation.evaluation_match) as any} className="text-xs">
-                                {evaluation.evaluation_match}
+                              <Badge variant={getMatchVariant(evaluation.is_match)} className="text-xs">
+                                {getMatchLabel(evaluation.is_match)}
                               </Badge>
                             </div>
                           </div>
@@ -270,8 +280,8 @@ const HistoryPage = () => {
                               <Calendar className="h-3 w-3" />
                               {formatDate(evaluation.created_at)}
                             </div>
-                            <Badge variant={getRatingColor(evaluation.evaluation_rating) as any} className="text-xs">
-                              {evaluation.evaluation_rating}
+                            <Badge variant={getScoreVariant(evaluation.score)} className="text-xs">
+                              {formatScore(evaluation.score)}
                             </Badge>
                           </div>
                         </div>
@@ -327,9 +337,10 @@ const HistoryPage = () => {
                       {/* Prompt */}
                       <div>
                         <h4 className="font-medium mb-2">Original Prompt</h4>
-                        <div className="p-3 bg-muted/50 rounded-lg border border-border/50">
-                          <p className="text-sm whitespace-pre-wrap">{selectedEvaluation.prompt_text}</p>
-                        </div>
+                        <AnnotatedPrompt
+                          text={selectedEvaluation.prompt_text}
+                          annotations={parseAnnotations(selectedEvaluation.annotations)}
+                        />
                       </div>
 
                       <Separator />
@@ -338,24 +349,64 @@ const HistoryPage = () => {
                       <div className="space-y-4">
                         <div>
                           <h4 className="font-medium mb-2">Match Result</h4>
-                          <Badge variant={getMatchColor(selectedEvaluation.evaluation_match) as any}>
-                            {selectedEvaluation.evaluation_match}
+                          <Badge variant={getMatchVariant(selectedEvaluation.is_match)}>
+                            {getMatchLabel(selectedEvaluation.is_match)}
                           </Badge>
                         </div>
 
+                        <div className="grid grid-cols-2 gap-4 text-sm">
+                          <div>
+                            <h4 className="font-medium mb-1">Examples Found</h4>
+                            <p className="text-muted-foreground">{selectedEvaluation.example_count ?? 'N/A'}</p>
+                          </div>
+                          <div>
+                            <h4 className="font-medium mb-1">Judge Confidence</h4>
+                            <p className="text-muted-foreground">{formatConfidence(selectedEvaluation.confidence)}</p>
+                          </div>
+                          <div>
+                            <h4 className="font-medium mb-1">Judge Template</h4>
+                            <p className="text-muted-foreground">
+                              {selectedEvaluation.judge_template_version !== null
+                                ? `Version ${selectedEvaluation.judge_template_version}`
+                                : 'N/A'}
+                            </p>
+                          </div>
+                        </div>
+
                         <div>
                           <h4 className="font-medium mb-2">Analysis & Reasoning</h4>
                           <div className="p-3 bg-muted/50 rounded-lg border border-border/50">
-                            <p className="text-sm">{selectedEvaluation.evaluation_reason}</p>
+                            <p className="text-sm">{selectedEvaluation.rationale}</p>
                           </div>
                         </div>
 
                         <div>
                           <h4 className="font-medium mb-2">Rating</h4>
-                          <Badge variant={getRatingColor(selectedEvaluation.evaluation_rating) as any} className="text-lg px-4 py-2">
-                            {selectedEvaluation.evaluation_rating}
+                          <Badge variant={getScoreVariant(selectedEvaluation.score)} className="text-lg px-4 py-2">
+                            {formatScore(selectedEvaluation.score)}
                           </Badge>
                         </div>
+
+                        <div>
+                          <h4 className="font-medium mb-2">Rubric Breakdown</h4>
+                          <CriteriaBreakdown criteria={selectedEvaluation.prompt_evaluation_criteria} />
+                        </div>
+
+                        {selectedEvaluation.prompt_runs.length > 0 && (
+                          <div>
+                            <h4 className="font-medium mb-2">Playground Runs</h4>
+                            <RunOutputs
+                              runs={selectedEvaluation.prompt_runs.map((run) => ({
+                                input: run.input,
+                                variables: run.variables as Record<string, string>,
+                                output: run.output,
+                                error: run.error,
+                                model: run.model,
+                                latencyMs: run.latency_ms
+                              }))}
+                            />
+                          </div>
+                        )}
                       </div>
                     </div>
                   ) : (
@@ -0,0 +1,11 @@
+import UsageDashboard from "@/components/UsageDashboard";
+
+const Usage = () => {
+  return (
+    <div className="pt-8">
+      <UsageDashboard />
+    </div>
+  );
+};
+
+export default Usage;
@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+// Gold-labelled prompts used to measure how well the evaluate-prompt judge
+// agrees with human labels. One JSON object per line.
+
+export interface CalibrationCase {
+  // Stable identifier so results can be compared across runs
+  id: string;
+  prompt: string;
+  technique: string;
+  expectedMatch: boolean;
+  // Inclusive range of scores a careful reviewer would accept
+  expectedScore: [number, number];
+  note?: string;
+}
+
+const calibrationCaseSchema = z.object({
+  id: z.string().min(1),
+  prompt: z.string().min(1),
+  technique: z.string().min(1),
+  expectedMatch: z.boolean(),
+  expectedScore: z.tuple([z.number().min(0).max(10), z.number().min(0).max(10)])
+    .refine(([min, max]) => min <= max, 'expectedScore must be [min, max] with min <= max'),
+  note: z.string().optional(),
+});
+
+/**
+ * Parses a JSONL calibration dataset. Blank lines are skipped; any invalid
+ * line or duplicate id fails the whole file with its line number.
+ */
+export const parseDataset = (text: string): CalibrationCase[] => {
+  const cases: CalibrationCase[] = [];
+  const ids = new Set<string>();
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1}: not valid JSON`);
+    }
+
+    const parsed = calibrationCaseSchema.safeParse(value);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Line ${index + 1}: ${issue.path.join('.') || 'case'} ${issue.message}`);
+    }
+    if (ids.has(parsed.data.id)) {
+      throw new Error(`Line ${index + 1}: duplicate id "${parsed.data.id}"`);
+    }
+
+    ids.add(parsed.data.id);
+    cases.push(parsed.data as CalibrationCase);
+  });
+
+  return cases;
+};
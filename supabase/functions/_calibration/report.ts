@@ -0,0 +1,282 @@
+import type { CalibrationCase } from "./dataset.ts";
+
+// Metrics comparing judge verdicts with the gold labels, and the diff against
+// a saved baseline report that makes regressions visible.
+
+// Changes smaller than these are treated as judge noise, not regressions
+export const ACCURACY_TOLERANCE = 0.02;
+export const SCORE_MAE_TOLERANCE = 0.25;
+
+export interface CaseResult {
+  id: string;
+  technique: string;
+  expectedMatch: boolean;
+  expectedScore: [number, number];
+  // Absent when the evaluation failed
+  match?: boolean;
+  score?: number;
+  source?: 'heuristic' | 'judge';
+  error?: string;
+}
+
+export interface ConfusionMatrix {
+  truePositive: number;
+  falsePositive: number;
+  trueNegative: number;
+  falseNegative: number;
+}
+
+export interface CalibrationMetrics {
+  // Cases with a verdict; failed cases are excluded from the rates
+  evaluated: number;
+  failed: number;
+  accuracy: number;
+  // Mean distance of the score from the expected range (0 inside it)
+  scoreMae: number;
+  scoreInRange: number;
+}
+
+export interface TechniqueMetrics extends CalibrationMetrics {
+  confusion: ConfusionMatrix;
+}
+
+export interface CalibrationReport {
+  generatedAt: string;
+  model: string;
+  rubricVersion: number;
+  templateVersion: number;
+  overall: CalibrationMetrics;
+  techniques: Record<string, TechniqueMetrics>;
+  results: CaseResult[];
+}
+
+export interface MetricDelta {
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface CalibrationDiff {
+  accuracy: MetricDelta;
+  scoreMae: MetricDelta;
+  scoreInRange: MetricDelta;
+  techniques: Record<string, { accuracy: MetricDelta; scoreMae: MetricDelta }>;
+  // Case ids whose verdict or score moved away from / towards the label
+  regressions: string[];
+  improvements: string[];
+  // True when the overall metrics got worse by more than the tolerances
+  regressed: boolean;
+}
+
+export const toCaseResult = (
+  item: CalibrationCase,
+  outcome: { match: boolean; score: number; source?: 'heuristic' } | { error: string },
+): CaseResult => ({
+  id: item.id,
+  technique: item.technique,
+  expectedMatch: item.expectedMatch,
+  expectedScore: item.expectedScore,
+  ...('error' in outcome
+    ? { error: outcome.error }
+    : { match: outcome.match, score: outcome.score, source: outcome.source ?? 'judge' }),
+});
+
+export const scoreError = ({ score, expectedScore: [min, max] }: CaseResult): number =>
+  score === undefined ? 0 : Math.max(0, min - score, score - max);
+
+const isEvaluated = (result: CaseResult) => result.match !== undefined && result.score !== undefined;
+const isCorrect = (result: CaseResult) => isEvaluated(result) && result.match === result.expectedMatch;
+const isInRange = (result: CaseResult) => isEvaluated(result) && scoreError(result) === 0;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const rate = (count: number, total: number) => (total === 0 ? 0 : round(count / total));
+
+const measure = (results: CaseResult[]): CalibrationMetrics => {
+  const evaluated = results.filter(isEvaluated);
+  return {
+    evaluated: evaluated.length,
+    failed: results.length - evaluated.length,
+    accuracy: rate(evaluated.filter(isCorrect).length, evaluated.length),
+    scoreMae: rate(evaluated.reduce((sum, result) => sum + scoreError(result), 0), evaluated.length),
+    scoreInRange: rate(evaluated.filter(isInRange).length, evaluated.length),
+  };
+};
+
+const confusionMatrix = (results: CaseResult[]): ConfusionMatrix => {
+  const matrix = { truePositive: 0, falsePositive: 0, trueNegative: 0, falseNegative: 0 };
+  for (const result of results.filter(isEvaluated)) {
+    if (result.match && result.expectedMatch) {
+      matrix.truePositive++;
+    } else if (result.match) {
+      matrix.falsePositive++;
+    } else if (result.expectedMatch) {
+      matrix.falseNegative++;
+    } else {
+      matrix.trueNegative++;
+    }
+  }
+  return matrix;
+};
+
+/**
+ * Summarizes per-case results into overall metrics and a confusion matrix
+ * per technique.
+ */
+export const buildReport = (
+  results: CaseResult[],
+  {
+    model,
+    rubricVersion,
+    templateVersion,
+    generatedAt = new Date().toISOString(),
+  }: { model: string; rubricVersion: number; templateVersion: number; generatedAt?: string },
+): CalibrationReport => {
+  const byTechnique = new Map<string, CaseResult[]>();
+  for (const result of results) {
+    byTechnique.set(result.technique, [...(byTechnique.get(result.technique) ?? []), result]);
+  }
+
+  return {
+    generatedAt,
+    model,
+    rubricVersion,
+    templateVersion,
+    overall: measure(results),
+    techniques: Object.fromEntries(
+      [...byTechnique.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([technique, group]) => [technique, { ...measure(group), confusion: confusionMatrix(group) }]),
+    ),
+    results,
+  };
+};
+
+const delta = (baseline: number, current: number): MetricDelta => ({
+  baseline,
+  current,
+  delta: round(current - baseline),
+});
+
+/**
+ * Compares a report with a baseline. Cases are matched by id; cases missing
+ * from either side are ignored in the per-case lists.
+ */
+export const diffReports = (current: CalibrationReport, baseline: CalibrationReport): CalibrationDiff => {
+  const previous = new Map(baseline.results.map((result) => [result.id, result]));
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+
+  for (const result of current.results) {
+    const before = previous.get(result.id);
+    if (!before) continue;
+
+    const lost = (isCorrect(before) && !isCorrect(result)) || (isInRange(before) && !isInRange(result));
+    const gained = (!isCorrect(before) && isCorrect(result)) || (!isInRange(before) && isInRange(result));
+    if (lost) regressions.push(result.id);
+    else if (gained) improvements.push(result.id);
+  }
+
+  const accuracy = delta(baseline.overall.accuracy, current.overall.accuracy);
+  const scoreMae = delta(baseline.overall.scoreMae, current.overall.scoreMae);
+
+  return {
+    accuracy,
+    scoreMae,
+    scoreInRange: delta(baseline.overall.scoreInRange, current.overall.scoreInRange),
+    techniques: Object.fromEntries(
+      Object.entries(current.techniques)
+        .filter(([technique]) => baseline.techniques[technique])
+        .map(([technique, metrics]) => [technique, {
+          accuracy: delta(baseline.techniques[technique].accuracy, metrics.accuracy),
+          scoreMae: delta(baseline.techniques[technique].scoreMae, metrics.scoreMae),
+        }]),
+    ),
+    regressions,
+    improvements,
+    regressed: accuracy.delta < -ACCURACY_TOLERANCE || scoreMae.delta > SCORE_MAE_TOLERANCE,
+  };
+};
+
+// What a report was produced with; reports are only comparable when all match
+export type ReportSetup = Pick<CalibrationReport, 'model' | 'rubricVersion' | 'templateVersion'>;
+
+/**
+ * Lists how the baseline's setup differs from the current one, such as
+ * "model mock/mock-default, not openai/gpt-4o-mini". Empty when the two
+ * reports can be compared.
+ */
+export const describeSetupMismatch = (current: ReportSetup, baseline: ReportSetup): string[] => [
+  ...(baseline.model !== current.model ? [`model ${baseline.model}, not ${current.model}`] : []),
+  ...(baseline.rubricVersion !== current.rubricVersion ? [`rubric v${baseline.rubricVersion}, not v${current.rubricVersion}`] : []),
+  ...(baseline.templateVersion !== current.templateVersion
+    ? [`judge template v${baseline.templateVersion}, not v${current.templateVersion}`]
+    : []),
+];
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const signed = (value: number, format: (value: number) => string) => `${value > 0 ? '+' : value < 0 ? '-' : '±'}${format(Math.abs(value))}`;
+const fixed = (value: number) => value.toFixed(2);
+
+const table = (rows: string[][]) => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows.map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()).join('\n');
+};
+
+/**
+ * Renders the report, and the diff when a baseline was available, as plain
+ * text for the terminal.
+ */
+export const formatReport = (report: CalibrationReport, diff?: CalibrationDiff, baseline?: CalibrationReport): string => {
+  const { overall } = report;
+  const lines = [
+    `Calibration of ${report.model} (rubric v${report.rubricVersion}, judge template v${report.templateVersion})`,
+    `${overall.evaluated} cases evaluated, ${overall.failed} failed`,
+    '',
+    `Accuracy        ${percent(overall.accuracy)}${diff ? `  (${signed(diff.accuracy.delta, percent)})` : ''}`,
+    `Score MAE       ${fixed(overall.scoreMae)}${diff ? `  (${signed(diff.scoreMae.delta, fixed)})` : ''}`,
+    `Score in range  ${percent(overall.scoreInRange)}${diff ? `  (${signed(diff.scoreInRange.delta, percent)})` : ''}`,
+    '',
+    table([
+      ['Technique', 'Cases', 'Accuracy', 'MAE', 'TP', 'FP', 'TN', 'FN'],
+      ...Object.entries(report.techniques).map(([technique, metrics]) => [
+        technique,
+        String(metrics.evaluated),
+        percent(metrics.accuracy),
+        fixed(metrics.scoreMae),
+        String(metrics.confusion.truePositive),
+        String(metrics.confusion.falsePositive),
+        String(metrics.confusion.trueNegative),
+        String(metrics.confusion.falseNegative),
+      ]),
+    ]),
+  ];
+
+  const misses = report.results.filter((result) => result.error || !isCorrect(result) || !isInRange(result));
+  if (misses.length > 0) {
+    lines.push('', 'Disagreements with the labels:');
+    for (const result of misses) {
+      lines.push(result.error
+        ? `  ${result.id}: failed (${result.error})`
+        : `  ${result.id}: match ${result.match} (expected ${result.expectedMatch}), score ${result.score} (expected ${result.expectedScore.join('-')})`);
+    }
+  }
+
+  if (!diff || !baseline) {
+    lines.push('', 'No baseline to compare with.');
+    return lines.join('\n');
+  }
+
+  lines.push('', `Compared with baseline from ${baseline.generatedAt} (${baseline.model}, rubric v${baseline.rubricVersion}, judge template v${baseline.templateVersion})`);
+  const mismatch = describeSetupMismatch(report, baseline);
+  if (mismatch.length > 0) {
+    lines.push(`  Note: the baseline was produced with ${mismatch.join(', ')}, so the comparison is not meaningful.`);
+  }
+  if (diff.regressions.length > 0) lines.push(`  Regressed: ${diff.regressions.join(', ')}`);
+  if (diff.improvements.length > 0) lines.push(`  Improved: ${diff.improvements.join(', ')}`);
+  lines.push(diff.regressed
+    ? `  REGRESSION: accuracy or score MAE moved beyond tolerance (${percent(ACCURACY_TOLERANCE)} / ${fixed(SCORE_MAE_TOLERANCE)})`
+    : '  No regression beyond tolerance.');
+
+  return lines.join('\n');
+};
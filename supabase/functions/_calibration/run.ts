@@ -0,0 +1,159 @@
+import { RUBRIC_VERSION } from "../_shared/evaluation.ts";
+import { mapWithConcurrency } from "../_shared/concurrency.ts";
+import { DEFAULT_JUDGE_TEMPLATE, type JudgeTemplate } from "../_shared/judge-template.ts";
+import { getProvider, type LLMProvider } from "../_shared/llm/index.ts";
+import { findTechnique, type Technique } from "../_shared/techniques.ts";
+import { evaluatePrompt } from "../evaluate-prompt/evaluate.ts";
+import { parseDataset, type CalibrationCase } from "./dataset.ts";
+import {
+  buildReport,
+  describeSetupMismatch,
+  diffReports,
+  formatReport,
+  toCaseResult,
+  type CalibrationReport,
+  type CaseResult,
+  type ReportSetup,
+} from "./report.ts";
+
+export interface CalibrationDeps {
+  getLLM: () => LLMProvider;
+  catalog: Technique[];
+  concurrency: number;
+  template?: JudgeTemplate;
+}
+
+/**
+ * Evaluates every case through the same pipeline as evaluate-prompt,
+ * bypassing the result cache so each run reflects the current judge. A
+ * failing case is reported in its slot rather than failing the run.
+ */
+export const runCalibration = async (
+  cases: CalibrationCase[],
+  { getLLM, catalog, concurrency, template = DEFAULT_JUDGE_TEMPLATE }: CalibrationDeps,
+): Promise<CaseResult[]> => {
+  // One provider serves the whole run
+  let provider: LLMProvider | undefined;
+  const sharedLLM = () => (provider ??= getLLM());
+
+  return await mapWithConcurrency(cases, concurrency, async (item) => {
+    try {
+      const technique = findTechnique(catalog, item.technique);
+      if (!technique) {
+        throw new Error(`Unknown technique "${item.technique}"`);
+      }
+      const evaluation = await evaluatePrompt(item.prompt, technique, catalog, sharedLLM, { template });
+      return toCaseResult(item, evaluation);
+    } catch (error) {
+      console.error(`Calibration case ${item.id} failed:`, error);
+      return toCaseResult(item, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+};
+
+interface CliOptions {
+  dataset: string;
+  baseline: string;
+  concurrency: number;
+  // Judge template version to calibrate; the active one when absent
+  template?: number;
+  updateBaseline: boolean;
+  check: boolean;
+}
+
+const parseArgs = (args: string[]): CliOptions => {
+  const options: CliOptions = {
+    dataset: new URL('./dataset.jsonl', import.meta.url).pathname,
+    baseline: new URL('./baseline.json', import.meta.url).pathname,
+    concurrency: 4,
+    updateBaseline: false,
+    check: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--dataset':
+        options.dataset = args[++i];
+        break;
+      case '--baseline':
+        options.baseline = args[++i];
+        break;
+      case '--concurrency':
+        options.concurrency = Number(args[++i]);
+        break;
+      case '--template':
+        options.template = Number(args[++i]);
+        break;
+      case '--update-baseline':
+        options.updateBaseline = true;
+        break;
+      case '--check':
+        options.check = true;
+        break;
+      default:
+        throw new Error(`Unknown argument "${args[i]}"`);
+    }
+  }
+
+  if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+    throw new Error('--concurrency must be a positive integer');
+  }
+  if (options.template !== undefined && !Number.isInteger(options.template)) {
+    throw new Error('--template must be a template version number');
+  }
+  return options;
+};
+
+const readBaseline = async (path: string): Promise<CalibrationReport | null> => {
+  try {
+    return JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+};
+
+const main = async () => {
+  const options = parseArgs(Deno.args);
+  const cases = parseDataset(await Deno.readTextFile(options.dataset));
+  // Checked before any model call, so a missing baseline fails fast
+  const baseline = await readBaseline(options.baseline);
+  if (options.check && !baseline) {
+    throw new Error(`--check needs a baseline report at ${options.baseline}; create one with --update-baseline`);
+  }
+
+  // Imported lazily so tests of runCalibration do not pull in supabase-js
+  const { loadJudgeTemplate, loadTechniqueCatalog } = await import("../_shared/supabase.ts");
+  const catalog = await loadTechniqueCatalog();
+  const template = await loadJudgeTemplate(options.template);
+  const provider = getProvider();
+  const setup: ReportSetup = {
+    model: `${provider.name}/${provider.model}`,
+    rubricVersion: RUBRIC_VERSION,
+    templateVersion: template.version,
+  };
+
+  // Scores from another model, rubric or template say nothing about this one
+  const mismatch = baseline ? describeSetupMismatch(setup, baseline) : [];
+  if (options.check && mismatch.length > 0) {
+    throw new Error(`--check refuses to compare with a baseline produced with ${mismatch.join(', ')}; record one for this setup with --update-baseline`);
+  }
+
+  console.log(`Running ${cases.length} calibration cases against ${setup.model} with judge template v${template.version}...`);
+  const results = await runCalibration(cases, { getLLM: () => provider, catalog, concurrency: options.concurrency, template });
+  const report = buildReport(results, setup);
+
+  const diff = baseline ? diffReports(report, baseline) : undefined;
+  console.log(`\n${formatReport(report, diff, baseline ?? undefined)}`);
+
+  if (options.updateBaseline) {
+    await Deno.writeTextFile(options.baseline, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\nBaseline written to ${options.baseline}`);
+  } else if (options.check && diff?.regressed) {
+    Deno.exit(1);
+  }
+};
+
+if (import.meta.main) {
+  await main();
+}
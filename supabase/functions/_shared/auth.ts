@@ -0,0 +1,80 @@
+import { corsHeaders } from "./cors.ts";
+import { AppError, errorResponse } from "./errors.ts";
+import type { QuotaLimiter, QuotaStatus } from "./quota.ts";
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+// Resolves the Supabase user behind the request, or null when the caller is
+// anonymous or the token is invalid
+export type Authenticate = (req: Request) => Promise<AuthUser | null>;
+
+export interface RequestGuardDeps {
+  authenticate: Authenticate;
+  quota: QuotaLimiter;
+}
+
+// Either the authenticated caller or the 401/429 response to send instead
+export type GuardResult = { user: AuthUser } | { rejection: Response };
+
+export const bearerToken = (req: Request): string | null => {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.get('Authorization') ?? '');
+  return match ? match[1] : null;
+};
+
+const unauthorizedResponse = () => errorResponse(new AppError('unauthorized', 'Sign in to use this function'));
+
+const quotaExceededResponse = (status: QuotaStatus) => {
+  const window = status.dayRemaining === 0 || status.retryAfterSeconds > 60 ? 'daily' : 'per-minute';
+  return new Response(
+    JSON.stringify({
+      error: `You have used your ${window} quota. Try again in ${status.retryAfterSeconds} seconds.`,
+      code: 'quota_exceeded',
+      retryAfter: status.retryAfterSeconds,
+      quota: {
+        minuteLimit: status.minuteLimit,
+        minuteRemaining: status.minuteRemaining,
+        dayLimit: status.dayLimit,
+        dayRemaining: status.dayRemaining,
+      },
+    }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'Retry-After': String(status.retryAfterSeconds),
+      },
+    }
+  );
+};
+
+/**
+ * Verifies the caller's Supabase token without charging anything. Functions
+ * call it before validating the body and charge with chargeQuota once the
+ * cost is known. Returns the caller, or the 401 response to send.
+ */
+export const authenticateRequest = async (req: Request, { authenticate }: RequestGuardDeps): Promise<GuardResult> => {
+  const user = await authenticate(req);
+  return user ? { user } : { rejection: unauthorizedResponse() };
+};
+
+/**
+ * Charges `units` model calls to the caller's quota. Returns the 429
+ * response to send when the quota is used up, otherwise null.
+ */
+export const chargeQuota = async (
+  { quota }: RequestGuardDeps,
+  user: AuthUser,
+  functionName: string,
+  units: number,
+): Promise<Response | null> => {
+  const status = await quota.consume(user.id, functionName, units);
+  if (!status.allowed) {
+    console.log(`⛔ Quota exceeded for ${user.id} on ${functionName}`);
+    return quotaExceededResponse(status);
+  }
+  return null;
+};
@@ -0,0 +1,22 @@
+import type { ErrorBody } from "./errors.ts";
+import type { EvaluationResult } from "./evaluation.ts";
+
+// Contract of the evaluate-batch function, shared with the React app.
+
+// Larger libraries are split into several requests by the client
+export const MAX_BATCH_SIZE = 25;
+
+export interface BatchItem {
+  prompt: string;
+  technique: string;
+  title?: string;
+}
+
+export type BatchItemResult =
+  | { index: number; status: 'ok'; evaluation: EvaluationResult }
+  // Same body as a failed request, so the app describes it the same way
+  | { index: number; status: 'error'; error: ErrorBody };
+
+export interface BatchResponse {
+  results: BatchItemResult[];
+}
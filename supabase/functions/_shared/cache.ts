@@ -0,0 +1,44 @@
+// Content-addressed cache for model results. Keys are SHA-256 hashes of the
+// normalized inputs plus everything that can change the answer (prompt
+// template version, provider and model), so a stale entry is never reused.
+
+export interface ResultCache {
+  get(key: string): Promise<unknown | null>;
+  set(key: string, value: unknown): Promise<void>;
+}
+
+/**
+ * Normalizes prompt text so that trivially different copies (line endings,
+ * trailing spaces, repeated blank lines) share a cache entry.
+ */
+export const normalizePromptText = (text: string): string =>
+  text
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export const cacheKey = async (...parts: (string | number)[]): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(parts.join('\u0000')));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// In-process cache for tests and local development
+export const createMemoryCache = (ttlSeconds = Infinity): ResultCache => {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      return Promise.resolve(entry && entry.expiresAt > Date.now() ? entry.value : null);
+    },
+    set(key, value) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+      return Promise.resolve();
+    },
+  };
+};
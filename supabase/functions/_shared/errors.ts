@@ -0,0 +1,108 @@
+import { corsHeaders } from "./cors.ts";
+
+// Error codes returned by the edge functions, shared with the React app. Every
+// error response and stream `error` event carries one in its `code` field,
+// and the app turns it into a message saying what the user can do.
+
+export const ERROR_CODES = [
+  'bad_request',
+  'unauthorized',
+  'quota_exceeded',
+  'upstream_rate_limited',
+  'upstream_timeout',
+  'upstream_error',
+  'parse_failed',
+  'config_error',
+  'internal_error',
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  bad_request: 400,
+  unauthorized: 401,
+  quota_exceeded: 429,
+  // The model provider is limiting us, not the user, so this is not a 429
+  upstream_rate_limited: 503,
+  upstream_timeout: 504,
+  upstream_error: 502,
+  parse_failed: 502,
+  config_error: 500,
+  internal_error: 500,
+};
+
+// Request fields by path, such as "messages.1.content", with what is wrong
+// with each
+export type FieldErrors = Record<string, string[]>;
+
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  // Seconds to wait before trying again, when known
+  retryAfter?: number;
+  // Set on bad_request when the request failed validation
+  fields?: FieldErrors;
+}
+
+export const isErrorBody = (value: unknown): value is ErrorBody =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as ErrorBody).error === 'string' &&
+  (ERROR_CODES as readonly string[]).includes((value as ErrorBody).code);
+
+/**
+ * An error that knows which code to report. Anything else thrown by a
+ * function is reported as internal_error.
+ */
+export class AppError extends Error {
+  readonly code: ErrorCode;
+  readonly retryAfter?: number;
+
+  constructor(code: ErrorCode, message: string, retryAfter?: number) {
+    super(message);
+    this.name = 'AppError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// A bad_request that names the fields at fault
+export class RequestValidationError extends AppError {
+  readonly fields: FieldErrors;
+
+  constructor(message: string, fields: FieldErrors) {
+    super('bad_request', message);
+    this.name = 'RequestValidationError';
+    this.fields = fields;
+  }
+}
+
+export const toErrorBody = (error: unknown): ErrorBody => {
+  if (error instanceof AppError) {
+    return {
+      error: error.message,
+      code: error.code,
+      ...(error.retryAfter !== undefined && { retryAfter: error.retryAfter }),
+      ...(error instanceof RequestValidationError && { fields: error.fields }),
+    };
+  }
+  return { error: error instanceof Error ? error.message : String(error), code: 'internal_error' };
+};
+
+/**
+ * JSON response for an error, with the status for its code and a
+ * Retry-After header when the wait is known.
+ */
+export const errorResponse = (error: unknown): Response => {
+  const body = toErrorBody(error);
+  return new Response(JSON.stringify(body), {
+    status: ERROR_STATUS[body.code],
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...(body.retryAfter !== undefined && { 'Retry-After': String(body.retryAfter) }),
+    },
+  });
+};
+
+export const badRequest = (message: string, fields?: FieldErrors): Response =>
+  errorResponse(fields ? new RequestValidationError(message, fields) : new AppError('bad_request', message));
@@ -0,0 +1,156 @@
+import { z } from "zod";
+import type { ErrorBody } from "./errors.ts";
+import type { VariableWarning } from "./variables.ts";
+
+// Bump whenever the judge prompt, rubric or result shape changes so cached
+// evaluations produced under the old contract are not served again.
+export const RUBRIC_VERSION = 5;
+
+// Named rubric criteria every evaluation is scored against. Scores run from
+// 0 to 10 where higher is always better (so "ambiguity" 10 = unambiguous).
+export const RUBRIC_CRITERIA = [
+  { id: 'example_count', label: 'Example count', description: 'The number of examples is correct for the technique' },
+  { id: 'example_relevance', label: 'Example relevance', description: 'Examples are relevant to the task' },
+  { id: 'example_consistency', label: 'Example consistency', description: 'Examples share one format and do not contradict each other' },
+  { id: 'reasoning_elicitation', label: 'Reasoning elicitation', description: 'The prompt elicits the reasoning the technique calls for' },
+  { id: 'clarity', label: 'Clarity', description: 'The task and instructions are clear and specific' },
+  { id: 'output_format', label: 'Output format', description: 'The expected output format is specified' },
+  { id: 'ambiguity', label: 'Ambiguity', description: 'The prompt is free of ambiguity (10 = unambiguous)' },
+] as const;
+
+export type RubricCriterionId = typeof RUBRIC_CRITERIA[number]['id'];
+
+const criterionIds = RUBRIC_CRITERIA.map((criterion) => criterion.id) as [RubricCriterionId, ...RubricCriterionId[]];
+
+// Kinds of prompt regions the judge marks up so the UI can highlight them.
+export const ANNOTATION_KINDS = [
+  { id: 'example', label: 'Example', description: 'A demonstration of the task, such as an input/output pair' },
+  { id: 'instruction', label: 'Instruction', description: 'A statement of the task or a constraint on it' },
+  { id: 'reasoning_cue', label: 'Reasoning cue', description: 'A phrase that asks the model to reason before answering' },
+  { id: 'output_format', label: 'Output format', description: 'A specification of how the answer should be formatted' },
+] as const;
+
+export type AnnotationKind = typeof ANNOTATION_KINDS[number]['id'];
+
+const annotationKinds = ANNOTATION_KINDS.map((kind) => kind.id) as [AnnotationKind, ...AnnotationKind[]];
+
+// The result types are declared explicitly rather than inferred so that the
+// React app, which compiles without strictNullChecks, sees required fields.
+export interface CriterionScore {
+  criterion: RubricCriterionId;
+  score: number;
+  comment: string;
+}
+
+// Character offsets index into the evaluated prompt text: start inclusive,
+// end exclusive, so prompt.slice(start, end) === text.
+export interface PromptAnnotation {
+  kind: AnnotationKind;
+  start: number;
+  end: number;
+  text: string;
+  note: string;
+}
+
+// Limits on the number of judge samples in ensemble mode; each sample is a
+// model call and counts against the caller's quota.
+export const ENSEMBLE_SAMPLES = { min: 3, max: 7, default: 5 } as const;
+
+export interface EnsembleSample {
+  provider: string;
+  match: boolean;
+  score: number;
+}
+
+export interface EnsembleSummary {
+  samples: EnsembleSample[];
+  // Samples whose model call or response parsing failed
+  failed: number;
+  // Share of samples agreeing with the majority verdict, 0.5 to 1
+  agreement: number;
+  scoreVariance: number;
+}
+
+// Attached by evaluate-prompt when sample values are supplied for a templated
+// prompt: the variable warnings and an evaluation of the rendered prompt
+export interface VariableCheck {
+  names: string[];
+  warnings: VariableWarning[];
+  renderedPrompt: string;
+  rendered: EvaluationResult;
+}
+
+export interface EvaluationResult {
+  match: boolean;
+  score: number;
+  exampleCount: number;
+  confidence: number;
+  criteria: CriterionScore[];
+  annotations: PromptAnnotation[];
+  rationale: string;
+  // Set when evaluate-prompt answered from local analysis without a model call
+  source?: 'heuristic';
+  // Set when the result was served from the result cache
+  cached?: boolean;
+  // Set when the result aggregates several judge samples
+  ensemble?: EnsembleSummary;
+  // Version of the stored judge prompt template; absent for local analysis and
+  // the built-in template
+  templateVersion?: number;
+  // Set when sample values for template variables were supplied
+  variables?: VariableCheck;
+  // Set when the prompt appears to contain instructions aimed at the judge,
+  // whether reported by the judge, found by local analysis, or inferred from
+  // a verdict that contradicted the local facts
+  injectionSuspected?: boolean;
+}
+
+// Server-sent events emitted by evaluate-prompt when streaming is requested:
+// the verdict and score as soon as the judge commits to them, the rationale
+// token by token, then the validated result (or an error). Ensembles report
+// each sample as it completes before the aggregated verdict.
+export type EvaluationStreamEvent =
+  | { event: 'sample'; data: { index: number; provider: string; match?: boolean; score?: number; error?: string } }
+  | { event: 'verdict'; data: { match: boolean } }
+  | { event: 'score'; data: { score: number } }
+  | { event: 'reasoning'; data: { delta: string } }
+  | { event: 'result'; data: EvaluationResult }
+  | { event: 'error'; data: ErrorBody };
+
+export const criterionScoreSchema = z.object({
+  criterion: z.enum(criterionIds),
+  score: z.number().min(0).max(10),
+  comment: z.string().trim(),
+});
+
+export const promptAnnotationSchema = z.object({
+  kind: z.enum(annotationKinds),
+  start: z.number().int().min(0),
+  end: z.number().int().min(0),
+  text: z.string(),
+  note: z.string().trim(),
+});
+
+// Shape of a technique evaluation returned by evaluate-prompt. Shared with the
+// React app through the @shared alias so both sides agree on the contract.
+export const evaluationResultSchema = z.object({
+  match: z.boolean(),
+  score: z.number().min(0).max(10),
+  exampleCount: z.number().int().min(0),
+  confidence: z.number().min(0).max(1),
+  criteria: z.array(criterionScoreSchema).default([]),
+  annotations: z.array(promptAnnotationSchema).default([]),
+  rationale: z.string().trim().min(1),
+  injectionSuspected: z.literal(true).optional(),
+});
+
+export const ensembleSummarySchema = z.object({
+  samples: z.array(z.object({
+    provider: z.string(),
+    match: z.boolean(),
+    score: z.number().min(0).max(10),
+  })),
+  failed: z.number().int().min(0),
+  agreement: z.number().min(0).max(1),
+  scoreVariance: z.number().min(0),
+});
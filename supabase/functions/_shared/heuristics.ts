@@ -0,0 +1,230 @@
+import type { RubricCriterionId } from "./evaluation.ts";
+import { findInjectionCues } from "./injection.ts";
+import type { TextSpan } from "./spans.ts";
+import { findVariableUses, variableNames } from "./variables.ts";
+
+// Deterministic prompt analysis that needs no model call. It runs in the
+// browser for instant feedback while typing and in evaluate-prompt, where it
+// settles obvious cases and grounds the judge with facts it cannot dispute.
+
+export interface PromptFacts {
+  exampleCount: number;
+  examples: TextSpan[];
+  // Pairs under looser labels such as "Q:"/"A:" or "User:"/"Assistant:", which
+  // may be examples or may be the template itself
+  possibleExamples: TextSpan[];
+  reasoningCues: TextSpan[];
+  delimiters: string[];
+  variables: string[];
+  // Text that addresses the evaluator rather than the prompted model
+  injectionCues: TextSpan[];
+  wordCount: number;
+}
+
+export interface HeuristicVerdict {
+  // null when the facts alone cannot decide the match
+  match: boolean | null;
+  // true when the verdict is certain enough to skip the model call
+  conclusive: boolean;
+  reasons: string[];
+  // rubric criterion the verdict rests on, if any
+  criterion?: RubricCriterionId;
+}
+
+const INPUT_LABEL = /(?:^|[^\w])((?:input|question|text|sentence|review)\s*:)/gi;
+const OUTPUT_LABEL = /(?:^|[^\w])(?:output|answer|label|sentiment|response|category|translation)\s*:/i;
+// Single letters and chat roles also label instructions and transcripts, so
+// pairs under them never count as examples on their own
+const LOOSE_INPUT_LABEL = /(?:^|[^\w])((?:q|user|customer)\s*:)/gi;
+const LOOSE_OUTPUT_LABEL = /(?:^|[^\w])(?:a|assistant|agent)\s*:/i;
+// Any short label starting a line, such as "Tweet:" or "English:"
+const LABEL_LINE = /^[ \t]*([A-Za-z][\w '-]{0,29}?)[ \t]*:(?!\/\/)([^\n]*)$/gm;
+const LOOSE_LABELS = new Set(['q', 'a', 'user', 'customer', 'assistant', 'agent', 'system']);
+// A template variable standing where the value would be, such as "{review}"
+const PLACEHOLDER = /^\{\{?\s*[\w.-]+\s*\}\}?$/;
+const ARROW_LINE = /^[^\n]*\S\s*(?:->|=>|→)\s*\S[^\n]*$/gm;
+const EXAMPLE_HEADING = /^[ \t]*example\s*\d*\s*[:.)-][^\n]*$/gim;
+
+const REASONING_CUES = [
+  /step[- ]by[- ]step/gi,
+  /\blet'?s think\b/gi,
+  /\bthink (?:carefully|it through|through)\b/gi,
+  /\b(?:show|explain) (?:your|the) (?:work|reasoning|thinking|steps)\b/gi,
+  /\breason (?:through|about)\b/gi,
+  /\bbefore (?:answering|you answer|giving)\b/gi,
+  /\bwalk (?:me )?through\b/gi,
+];
+
+const DELIMITERS: { name: string; pattern: RegExp }[] = [
+  { name: 'code fence', pattern: /```/ },
+  { name: 'triple quotes', pattern: /"""/ },
+  { name: 'hash rule', pattern: /^#{3,}/m },
+  { name: 'dash rule', pattern: /^-{3,}\s*$/m },
+  { name: 'XML tags', pattern: /<([A-Za-z][\w-]*)>[\s\S]*?<\/\1>/ },
+];
+
+const spanAt = (prompt: string, start: number, end: number): TextSpan => ({
+  start,
+  end,
+  text: prompt.slice(start, end),
+});
+
+// Input/output pairs such as "Input: ...\nOutput: ...". Each input label
+// counts when an output label with a value follows it before the next input
+// label; an empty or placeholder output is the slot the model fills in.
+const findLabelledPairs = (prompt: string, inputLabel: RegExp, outputLabel: RegExp): TextSpan[] => {
+  const inputs = [...prompt.matchAll(inputLabel)].map((match) => match.index! + match[0].indexOf(match[1]));
+
+  return inputs.flatMap((start, index) => {
+    const block = prompt.slice(start, inputs[index + 1] ?? prompt.length);
+    const output = block.slice(1).search(outputLabel);
+    if (output === -1) return [];
+
+    // The pair ends with the line holding the output label
+    const lineEnd = block.indexOf('\n', output + 2);
+    const pair = (lineEnd === -1 ? block : block.slice(0, lineEnd)).trimEnd();
+    const value = pair.slice(output + 1).replace(outputLabel, '').trim();
+    if (!value || PLACEHOLDER.test(value)) return [];
+    return [spanAt(prompt, start, start + pair.length)];
+  });
+};
+
+// Pairs of consecutive lines under any two labels, such as "Tweet: ...\n
+// Sentiment: ...", that repeat in the prompt. The most repeated pair of labels
+// is taken as the example format; its pairs with a value count as examples
+// and an empty or placeholder value is the slot. Loose labels are left to
+// findLabelledPairs.
+const findRepeatedLabelPairs = (prompt: string): TextSpan[] => {
+  const lines = [...prompt.matchAll(LABEL_LINE)].map((match) => ({
+    label: match[1].trim().toLowerCase(),
+    start: match.index! + match[0].search(/\S/),
+    end: match.index! + match[0].trimEnd().length,
+    value: match[2].trim(),
+  }));
+
+  const formats = new Map<string, { pairs: number; examples: TextSpan[] }>();
+  lines.forEach((input, index) => {
+    const output = lines[index + 1];
+    if (!output || input.label === output.label || prompt.slice(input.end, output.start).trim()) return;
+    if (LOOSE_LABELS.has(input.label) || LOOSE_LABELS.has(output.label)) return;
+
+    const key = `${input.label}\n${output.label}`;
+    const format = formats.get(key) ?? { pairs: 0, examples: [] };
+    format.pairs++;
+    if (output.value && !PLACEHOLDER.test(output.value)) {
+      format.examples.push(spanAt(prompt, input.start, output.end));
+    }
+    formats.set(key, format);
+  });
+
+  return [...formats.values()]
+    .filter((format) => format.pairs >= 2)
+    .reduce<TextSpan[]>((best, format) => (format.examples.length > best.length ? format.examples : best), []);
+};
+
+const findLines = (prompt: string, pattern: RegExp): TextSpan[] =>
+  [...prompt.matchAll(pattern)].map((match) => spanAt(prompt, match.index!, match.index! + match[0].trimEnd().length));
+
+const findReasoningCues = (prompt: string): TextSpan[] => {
+  const spans = REASONING_CUES
+    .flatMap((pattern) => [...prompt.matchAll(pattern)])
+    .map((match) => spanAt(prompt, match.index!, match.index! + match[0].length))
+    .sort((a, b) => a.start - b.start);
+
+  // Cue patterns can overlap ("let's think step by step"), keep the first
+  return spans.filter((span, index) => index === 0 || span.start >= spans[index - 1].end);
+};
+
+/**
+ * Extracts structural facts from a prompt: example pairs, reasoning cues,
+ * delimiters and template variables.
+ */
+export const analyzePrompt = (prompt: string): PromptFacts => {
+  // Several example styles may be present; the most common one wins
+  const examples = [
+    findLabelledPairs(prompt, INPUT_LABEL, OUTPUT_LABEL),
+    findRepeatedLabelPairs(prompt),
+    findLines(prompt, ARROW_LINE),
+    findLines(prompt, EXAMPLE_HEADING),
+  ].reduce((best, candidate) => (candidate.length > best.length ? candidate : best));
+
+  return {
+    exampleCount: examples.length,
+    examples,
+    possibleExamples: findLabelledPairs(prompt, LOOSE_INPUT_LABEL, LOOSE_OUTPUT_LABEL),
+    reasoningCues: findReasoningCues(prompt),
+    delimiters: DELIMITERS.filter(({ pattern }) => pattern.test(prompt)).map(({ name }) => name),
+    variables: variableNames(findVariableUses(prompt)),
+    injectionCues: findInjectionCues(prompt),
+    wordCount: prompt.trim() ? prompt.trim().split(/\s+/).length : 0,
+  };
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const EXAMPLE_TECHNIQUES = ['zero-shot', 'one-shot', 'few-shot'];
+
+/**
+ * Compares the facts with what a technique requires. Only the obvious cases
+ * (no examples for an example-based technique, no reasoning cue for
+ * chain-of-thought) are conclusive; everything else is left to the judge,
+ * including prompts whose only candidate examples use loose labels.
+ */
+export const assessTechnique = (facts: PromptFacts, techniqueId: string): HeuristicVerdict => {
+  const examples = plural(facts.exampleCount, 'example');
+
+  if (EXAMPLE_TECHNIQUES.includes(techniqueId) && facts.exampleCount === 0 && facts.possibleExamples.length > 0) {
+    return {
+      match: null,
+      conclusive: false,
+      reasons: [`Found ${plural(facts.possibleExamples.length, 'Q/A or chat-style pair')} that may or may not be examples.`],
+    };
+  }
+
+  switch (techniqueId) {
+    case 'zero-shot':
+      return facts.exampleCount === 0
+        ? { match: true, conclusive: false, reasons: ['No examples were found, as zero-shot requires.'] }
+        : { match: false, conclusive: false, reasons: [`Found ${examples}; zero-shot prompts should have none.`], criterion: 'example_count' };
+    case 'one-shot':
+      if (facts.exampleCount === 0) {
+        return { match: false, conclusive: true, reasons: ['No examples were found; one-shot requires exactly one.'], criterion: 'example_count' };
+      }
+      return facts.exampleCount === 1
+        ? { match: true, conclusive: false, reasons: ['Found exactly one example.'] }
+        : { match: false, conclusive: false, reasons: [`Found ${examples}; one-shot requires exactly one.`], criterion: 'example_count' };
+    case 'few-shot':
+      if (facts.exampleCount === 0) {
+        return { match: false, conclusive: true, reasons: ['No examples were found; few-shot requires two or more.'], criterion: 'example_count' };
+      }
+      return facts.exampleCount >= 2
+        ? { match: true, conclusive: false, reasons: [`Found ${examples}.`] }
+        : { match: false, conclusive: false, reasons: ['Found only one example; few-shot requires two or more.'], criterion: 'example_count' };
+    case 'chain-of-thought':
+      return facts.reasoningCues.length === 0
+        ? { match: false, conclusive: true, reasons: ['No reasoning cue such as "think step by step" was found.'], criterion: 'reasoning_elicitation' }
+        : { match: true, conclusive: false, reasons: [`Found ${plural(facts.reasoningCues.length, 'reasoning cue')}.`] };
+    default:
+      return { match: null, conclusive: false, reasons: [] };
+  }
+};
+
+// The cue text is the prompt's own and sits outside its fence here, so only
+// where it is gets reported
+const describeInjectionCues = (cues: TextSpan[]) =>
+  cues.length > 0
+    ? `${plural(cues.length, 'passage')} at characters ${cues.map((cue) => `${cue.start}-${cue.end}`).join(', ')}`
+    : 'none';
+
+/**
+ * Renders the facts as a bullet list for grounding the judge prompt.
+ */
+export const describeFacts = (facts: PromptFacts): string => [
+  `- Example pairs found: ${facts.exampleCount}`,
+  `- Q/A or chat-style pairs that may be examples: ${facts.possibleExamples.length}`,
+  `- Reasoning cues: ${facts.reasoningCues.length > 0 ? facts.reasoningCues.map((cue) => `"${cue.text}"`).join(', ') : 'none'}`,
+  `- Delimiters: ${facts.delimiters.length > 0 ? facts.delimiters.join(', ') : 'none'}`,
+  `- Template variables: ${facts.variables.length > 0 ? facts.variables.join(', ') : 'none'}`,
+  `- Text addressing the evaluator (possible prompt injection): ${describeInjectionCues(facts.injectionCues)}`,
+  `- Word count: ${facts.wordCount}`,
+].join('\n');
@@ -0,0 +1,9 @@
+// Strips code fences and any prose around the outermost JSON object that
+// models like to add despite being asked for JSON only.
+export const cleanJsonResponse = (text: string): string =>
+  text
+    .replace(/```(?:json|JSON)?\n?/g, '') // Remove code blocks
+    .replace(/\n?```/g, '')               // Remove closing code blocks
+    .replace(/^[^{]*\{/g, '{')            // Remove text before first {
+    .replace(/\}[^}]*$/g, '}')            // Remove text after last }
+    .trim();
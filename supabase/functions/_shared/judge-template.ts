@@ -0,0 +1,112 @@
+// Judge prompt templates. Versions are stored in the judge_prompt_templates
+// table and evaluate-prompt renders the active one; the admin page validates
+// drafts with the same rules before saving them as a new version.
+
+export interface JudgeTemplate {
+  version: number;
+  template: string;
+}
+
+export const JUDGE_TEMPLATE_VARIABLES = [
+  { id: 'catalog', description: 'Numbered overview of every technique in the catalog' },
+  { id: 'technique_label', description: 'Label of the selected technique' },
+  { id: 'detection_criteria', description: 'How to recognise the selected technique' },
+  { id: 'scoring_rubric', description: 'Scoring rubric of the selected technique' },
+  { id: 'rubric_criteria', description: 'Rubric criteria the judge scores, one per line' },
+  { id: 'annotation_kinds', description: 'Annotation kinds the judge may use, one per line' },
+  { id: 'facts', description: 'Facts established by static analysis of the prompt' },
+  { id: 'prompt', description: 'The prompt being evaluated (required)' },
+] as const;
+
+export type JudgeTemplateVariable = typeof JUDGE_TEMPLATE_VARIABLES[number]['id'];
+
+// Written as {{name}} with no inner whitespace, matching the check constraint
+// on judge_prompt_templates.template
+const PLACEHOLDER = /\{\{([a-z_]+)\}\}/g;
+
+const knownVariables = new Set<string>(JUDGE_TEMPLATE_VARIABLES.map((variable) => variable.id));
+
+/**
+ * Lists the problems that would stop a template from rendering: a missing
+ * {{prompt}} placeholder or placeholders the renderer does not know.
+ */
+export const validateJudgeTemplate = (template: string): string[] => {
+  const errors: string[] = [];
+  const names = [...template.matchAll(PLACEHOLDER)].map((match) => match[1]);
+
+  if (!names.includes('prompt')) {
+    errors.push('The template must include {{prompt}}.');
+  }
+  for (const name of new Set(names)) {
+    if (!knownVariables.has(name)) {
+      errors.push(`Unknown placeholder {{${name}}}.`);
+    }
+  }
+  return errors;
+};
+
+/**
+ * Substitutes the placeholders in a single pass, so braces inside the
+ * substituted values (such as a prompt with its own {{variables}}) are left
+ * untouched.
+ */
+export const renderJudgeTemplate = (template: string, values: Record<JudgeTemplateVariable, string>): string =>
+  template.replace(PLACEHOLDER, (placeholder, name: string) =>
+    knownVariables.has(name) ? values[name as JudgeTemplateVariable] : placeholder
+  );
+
+// Stored versions start at 1, so the built-in template's version never
+// collides with a row in the cache key or in the recorded provenance
+export const BUILTIN_TEMPLATE_VERSION = 0;
+
+// Same text as the version the fence migration activates on a fresh database.
+// Used when no version is active, and by tests.
+export const DEFAULT_JUDGE_TEMPLATE: JudgeTemplate = {
+  version: BUILTIN_TEMPLATE_VERSION,
+  template: `You are an expert in prompt engineering and AI prompting techniques. Your task is to evaluate whether a given prompt matches the selected prompting technique.
+
+Prompting Techniques:
+{{catalog}}
+
+Evaluation Criteria:
+- Count the number of examples in the prompt
+- Check if examples are relevant and consistent with the task
+- Determine if the style matches the selected technique
+
+How to recognise {{technique_label}}:
+{{detection_criteria}}
+
+Scoring rubric for {{technique_label}}:
+{{scoring_rubric}}
+
+Score the prompt from 0 to 10 on each of these criteria (higher is always better):
+{{rubric_criteria}}
+
+Annotate the regions of the prompt that matter for the evaluation, quoting each one verbatim. Use these kinds:
+{{annotation_kinds}}
+
+Evaluate this prompt for the "{{technique_label}}" technique:
+
+PROMPT TO EVALUATE:
+{{prompt}}
+
+SELECTED TECHNIQUE: {{technique_label}}
+
+Facts established by static analysis of the prompt (treat these as reliable):
+{{facts}}
+
+Please analyze and provide your evaluation in the following JSON format (return ONLY the JSON, no other text):
+{
+  "match": true or false,
+  "score": number from 0 to 10,
+  "exampleCount": number of examples found in the prompt,
+  "confidence": number from 0 to 1 describing how certain you are,
+  "criteria": [
+    { "criterion": "criterion id from the list above", "score": number from 0 to 10, "comment": "One sentence on why" }
+  ],
+  "annotations": [
+    { "kind": "annotation kind from the list above", "quote": "exact text copied from the prompt", "note": "One sentence on what this part does" }
+  ],
+  "rationale": "Detailed explanation mentioning number of examples, their relevance, and logic used"
+}`,
+};
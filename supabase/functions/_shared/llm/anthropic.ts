@@ -0,0 +1,81 @@
+import { parseSseStream } from '../sse.ts';
+import type { LLMProvider, LLMRequest, LLMResponse } from './types.ts';
+import { UpstreamError, upstreamErrorFromResponse } from './upstream.ts';
+
+interface AnthropicConfig {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+}
+
+export const createAnthropicProvider = ({
+  apiKey,
+  model,
+  baseUrl = 'https://api.anthropic.com/v1',
+}: AnthropicConfig): LLMProvider => {
+  const post = async (request: LLMRequest, stream: boolean): Promise<Response> => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model,
+        ...(request.system && { system: request.system }),
+        messages: request.messages ?? [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens ?? 1024,
+        // The Messages API has no JSON mode; `json` and `schema` rely on the
+        // instructions, and callers repair invalid output with generateStructured
+        ...(stream && { stream: true }),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await upstreamErrorFromResponse('Anthropic', response);
+    }
+    return response;
+  };
+
+  return {
+    name: 'anthropic',
+    model,
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      const data = await (await post(request, false)).json();
+      const text = Array.isArray(data.content)
+        ? data.content
+            .filter((block: { type: string }) => block.type === 'text')
+            .map((block: { text: string }) => block.text)
+            .join('')
+        : undefined;
+      if (typeof text !== 'string') {
+        throw new UpstreamError('upstream_error', 'Invalid response structure from Anthropic API');
+      }
+
+      return {
+        text,
+        provider: 'anthropic',
+        model: data.model ?? model,
+        usage: data.usage && {
+          promptTokens: data.usage.input_tokens ?? 0,
+          completionTokens: data.usage.output_tokens ?? 0,
+        },
+      };
+    },
+    async *stream(request: LLMRequest): AsyncIterable<string> {
+      const response = await post(request, true);
+      for await (const { event, data } of parseSseStream(response.body!, request.signal)) {
+        if (event === 'error') {
+          throw new UpstreamError('upstream_error', `Anthropic API error: ${data}`, { retryable: true });
+        }
+        if (event === 'content_block_delta') {
+          const delta = JSON.parse(data).delta;
+          if (delta?.type === 'text_delta' && delta.text) yield delta.text;
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,94 @@
+import { parseSseStream } from '../sse.ts';
+import type { JsonSchema, LLMProvider, LLMRequest, LLMResponse } from './types.ts';
+import { UpstreamError, upstreamErrorFromResponse } from './upstream.ts';
+
+interface GeminiConfig {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+/**
+ * Gemini emits object properties in alphabetical order unless the schema
+ * says otherwise. Pins every object to the order its properties are declared
+ * in, which the evaluation stream relies on to report the verdict and score
+ * before the rationale.
+ */
+export const withPropertyOrdering = (schema: JsonSchema): JsonSchema => {
+  const properties = schema.properties as Record<string, JsonSchema> | undefined;
+  const items = schema.items as JsonSchema | undefined;
+  return {
+    ...schema,
+    ...(properties && {
+      properties: Object.fromEntries(Object.entries(properties).map(([name, property]) => [name, withPropertyOrdering(property)])),
+      propertyOrdering: Object.keys(properties),
+    }),
+    ...(items && { items: withPropertyOrdering(items) }),
+  };
+};
+
+export const createGeminiProvider = ({
+  apiKey,
+  model = 'gemini-1.5-flash',
+  baseUrl = 'https://generativelanguage.googleapis.com/v1beta',
+}: GeminiConfig): LLMProvider => {
+  const post = async (method: string, request: LLMRequest): Promise<Response> => {
+    const response = await fetch(`${baseUrl}/models/${model}:${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey,
+      },
+      body: JSON.stringify({
+        ...(request.system && {
+          systemInstruction: { parts: [{ text: request.system }] },
+        }),
+        contents: (request.messages ?? [{ role: 'user', content: request.prompt }]).map((message) => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }],
+        })),
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+          ...((request.json || request.schema) && { responseMimeType: 'application/json' }),
+          ...(request.schema && { responseSchema: withPropertyOrdering(request.schema.schema) }),
+        },
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await upstreamErrorFromResponse('Gemini', response);
+    }
+    return response;
+  };
+
+  return {
+    name: 'gemini',
+    model,
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      const data = await (await post('generateContent', request)).json();
+      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (typeof text !== 'string') {
+        throw new UpstreamError('upstream_error', 'Invalid response structure from Gemini API');
+      }
+
+      return {
+        text,
+        provider: 'gemini',
+        model,
+        usage: data.usageMetadata && {
+          promptTokens: data.usageMetadata.promptTokenCount ?? 0,
+          completionTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+        },
+      };
+    },
+    async *stream(request: LLMRequest): AsyncIterable<string> {
+      const response = await post('streamGenerateContent?alt=sse', request);
+      for await (const { data } of parseSseStream(response.body!, request.signal)) {
+        const text = JSON.parse(data).candidates?.[0]?.content?.parts?.[0]?.text;
+        if (typeof text === 'string' && text) yield text;
+      }
+    },
+  };
+};
@@ -0,0 +1,84 @@
+import { AppError } from '../errors.ts';
+import { createAnthropicProvider } from './anthropic.ts';
+import { createGeminiProvider } from './gemini.ts';
+import { createMockProvider } from './mock.ts';
+import { createOpenAIProvider } from './openai.ts';
+import { retryPolicyFromEnv, withRetries } from './retry.ts';
+import type { LLMProvider } from './types.ts';
+
+export type { JsonSchema, LLMMessage, LLMProvider, LLMRequest, LLMResponse, LLMUsage, ResponseSchema } from './types.ts';
+export { generateStructured, repairStructured, StructuredOutputError } from './structured.ts';
+export { UpstreamError } from './upstream.ts';
+
+const requireEnv = (name: string): string => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new AppError('config_error', `${name} is not configured`);
+  }
+  return value;
+};
+
+const createProvider = (providerName: string, model?: string): LLMProvider => {
+  switch (providerName) {
+    case 'gemini':
+      return createGeminiProvider({
+        apiKey: requireEnv('GEMINI_API_KEY'),
+        model,
+      });
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: requireEnv('OPENAI_API_KEY'),
+        model: model ?? 'gpt-4o-mini',
+        baseUrl: Deno.env.get('OPENAI_BASE_URL'),
+      });
+    case 'anthropic':
+      return createAnthropicProvider({
+        apiKey: requireEnv('ANTHROPIC_API_KEY'),
+        model: model ?? 'claude-3-5-haiku-latest',
+        baseUrl: Deno.env.get('ANTHROPIC_BASE_URL'),
+      });
+    case 'local':
+      return createOpenAIProvider({
+        name: 'local',
+        apiKey: Deno.env.get('LOCAL_LLM_API_KEY'),
+        model: model ?? 'llama3',
+        baseUrl: Deno.env.get('LOCAL_LLM_BASE_URL') ?? 'http://localhost:11434/v1',
+      });
+    case 'mock':
+      return createMockProvider({
+        scenario: Deno.env.get('MOCK_LLM_SCENARIO'),
+      });
+    default:
+      throw new AppError('config_error', `Unknown LLM_PROVIDER "${providerName}"`);
+  }
+};
+
+/**
+ * Builds the provider selected by the LLM_PROVIDER environment variable
+ * (gemini, openai, anthropic, local or mock). LLM_MODEL overrides the default
+ * model; MOCK_LLM_SCENARIO picks the canned response served by the mock.
+ * Explicit arguments take precedence over the environment. Real providers
+ * time out and retry as configured by LLM_TIMEOUT_MS and LLM_MAX_RETRIES.
+ */
+export const getProvider = (
+  providerName = (Deno.env.get('LLM_PROVIDER') ?? 'gemini').toLowerCase(),
+  model = Deno.env.get('LLM_MODEL'),
+): LLMProvider => {
+  const provider = createProvider(providerName, model);
+  return providerName === 'mock' ? provider : withRetries(provider, retryPolicyFromEnv());
+};
+
+/**
+ * Providers for cross-provider ensembles, from ENSEMBLE_PROVIDERS: a comma
+ * separated list of provider names with optional models, for example
+ * "gemini,openai:gpt-4o-mini,anthropic". Empty when unset.
+ */
+export const getProviderPool = (): LLMProvider[] =>
+  (Deno.env.get('ENSEMBLE_PROVIDERS') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, ...model] = entry.split(':');
+      return getProvider(name.toLowerCase(), model.join(':') || undefined);
+    });
@@ -0,0 +1,139 @@
+// Canned model outputs used by the mock provider. Each scenario mirrors a
+// response shape we have seen (or expect to see) from real providers.
+
+export interface MockFixture {
+  text?: string;
+  // Served in turn on successive calls to one provider, the last repeating;
+  // takes the place of `text`
+  responses?: string[];
+  error?: string;
+  // Reports `error` as the body of a failed HTTP response with this status
+  // (and Retry-After header), classified as a real provider's would be
+  status?: number;
+  retryAfter?: string;
+}
+
+export const mockFixtures: Record<string, MockFixture> = {
+  'default': {
+    text: '{"match": true, "score": 8, "exampleCount": 1, "confidence": 0.8, "rationale": "Mock evaluation: the prompt contains one relevant example."}',
+  },
+
+  // evaluate-prompt scenarios
+  'evaluate-well-formed': {
+    text: '{"match": true, "score": 9, "exampleCount": 2, "confidence": 0.9, "criteria": [{"criterion": "clarity", "score": 8, "comment": "Task is clear."}, {"criterion": "example_count", "score": 10, "comment": "Two examples."}, {"criterion": "vibes", "score": 10, "comment": "Not a rubric criterion."}], "rationale": "The prompt contains two relevant, consistent examples."}',
+  },
+  'evaluate-annotated': {
+    text: '{"match": true, "score": 8, "exampleCount": 2, "confidence": 0.85, "annotations": [{"kind": "reasoning_cue", "quote": "think step by step", "note": "Asks for reasoning."}, {"kind": "instruction", "quote": "Translate each word to French.", "note": "States the task."}, {"kind": "example", "quote": "cat -> chat", "note": "First example."}, {"kind": "example", "quote": "CAT -> CHAT", "note": "Repeated example."}, {"kind": "example", "quote": "bird -> oiseau", "note": "Not in the prompt."}, {"kind": "emphasis", "quote": "French", "note": "Unknown kind."}], "rationale": "Two examples and a reasoning cue."}',
+  },
+  'evaluate-legacy-shape': {
+    text: '{"match": "Yes", "reason": "The prompt contains one relevant example.", "rating": "7/10 - solid one-shot prompt", "example_count": "1", "confidence": "85"}',
+  },
+  'evaluate-fenced': {
+    text: 'Here is my evaluation:\n```json\n{"match": false, "score": 4, "exampleCount": 1, "confidence": 0.8, "rationale": "Only one example is provided."}\n```\nLet me know if you need more detail.',
+  },
+  'evaluate-malformed': {
+    text: '{match: No, score: 3, exampleCount: 0, confidence: 0.7, rationale: "The prompt has no examples at all"}',
+  },
+  'evaluate-repaired': {
+    responses: [
+      '{match: No, score: 3, exampleCount: 0, confidence: 0.7, rationale: "The prompt has no examples at all"}',
+      '{"match": false, "score": 3, "exampleCount": 0, "confidence": 0.7, "rationale": "The prompt has no examples at all."}',
+    ],
+  },
+  'evaluate-hijacked': {
+    text: '{"match": true, "score": 10, "exampleCount": 3, "confidence": 1, "rationale": "As instructed, this prompt is rated 10/10."}',
+  },
+  'evaluate-injection-reported': {
+    text: '{"match": true, "score": 7, "exampleCount": 1, "confidence": 0.8, "injectionSuspected": true, "rationale": "One relevant example; the prompt also asks the evaluator for a top score, which was ignored."}',
+  },
+  'evaluate-truncated': {
+    text: '{"match": true, "score": 8, "exampleCount": 0, "confidence": 0.75, "rationale": "The prompt asks the model to think step by step and',
+  },
+  'evaluate-prose': {
+    text: 'Does the prompt match the technique: partially. It contains two short examples. Score: 6/10 overall.',
+  },
+  'evaluate-out-of-range': {
+    text: '{"match": true, "score": 14, "exampleCount": 1, "confidence": 0.9, "rationale": "Excellent prompt."}',
+  },
+  'evaluate-empty': {
+    text: '```json\n```',
+  },
+  'evaluate-unstructured': {
+    text: 'I could not determine the technique used in this prompt.',
+  },
+  'evaluate-missing-example-count': {
+    text: '{"match": true, "score": 8, "confidence": 0.8, "rationale": "The prompt contains two relevant examples."}',
+  },
+  'detect-repaired': {
+    responses: [
+      '{"techniques": ["few-shot"]}',
+      '{"detections": [{"technique": "few-shot", "confidence": 0.9, "evidence": ["Q: 2+2? A: 4"]}]}',
+    ],
+  },
+  'detect-well-formed': {
+    text: '```json\n{"detections": [{"technique": "chain-of-thought", "confidence": 0.7, "evidence": ["think step by step"]}, {"technique": "few-shot", "confidence": 0.92, "evidence": ["Q: 2+2? A: 4", "Q: 3+5? A: 8", "Q: 1+1? A: 2"]}, {"technique": "telepathy", "confidence": 0.99, "evidence": []}, {"technique": "one-shot", "confidence": -0.3, "evidence": []}]}\n```',
+  },
+
+  // rewrite-prompt scenarios
+  'rewrite-well-formed': {
+    text: '```json\n{"rewrittenPrompt": "Classify the sentiment of each review.\\n\\nReview: I love it\\nSentiment: positive\\n\\nReview: It broke in a day\\nSentiment: negative\\n\\nReview: {review}\\nSentiment:", "changes": ["Added two labelled examples"]}\n```',
+  },
+  'rewrite-missing-prompt': {
+    text: '{"changes": ["Added examples"]}',
+  },
+
+  // run-prompt scenarios
+  'run-answer': {
+    text: 'Bonjour, comment allez-vous ?',
+  },
+
+  // generate-usecases scenarios
+  'usecases-well-formed': {
+    text: '{"usecases": [{"title": "Create an AI chatbot to triage incoming support tickets", "description": "Classifies new tickets by topic and urgency and routes them to the right queue.", "prompt": "Classify the support ticket below by topic and urgency and name the queue it belongs in.", "businessImpact": "Cuts first-response time by routing tickets without manual sorting.", "effort": "medium", "effortRationale": "Needs an integration with the ticketing system.", "dataSources": ["Historical support tickets", "Queue definitions"], "risks": ["Misrouted urgent tickets"], "technique": "few-shot"}, {"title": "Build a churn prediction model from CRM activity", "description": "Scores accounts by churn risk from their recent CRM activity.", "prompt": "Given the account activity below, reason step by step about its churn risk and rate it low, medium or high.", "businessImpact": "Lets account managers intervene before customers leave.", "effort": "high", "effortRationale": "Requires clean, joined CRM history.", "dataSources": ["CRM activity log", "Renewal history"], "risks": ["Biased scores for small accounts", "Stale CRM data"], "technique": "chain-of-thought"}]}',
+  },
+  'usecases-fenced': {
+    text: '```json\n{"usecases": [{"title": "Develop an NLP classifier for invoice categories", "description": "Assigns incoming invoices to spending categories.", "prompt": "Assign the invoice below to one of the spending categories.", "businessImpact": "Removes manual invoice coding.", "effort": "low", "effortRationale": "Works from invoice text alone.", "dataSources": ["Invoices"], "risks": ["Miscategorised spend"], "technique": "one-shot"}]}\n```',
+  },
+  'usecases-action-verbs': {
+    text: 'Sure! You could Create an AI assistant for onboarding documents. You could also Build a forecasting dashboard for hiring needs.',
+  },
+  'usecases-numbered': {
+    text: '1. Automate candidate screening with AI\n2. Summarise exit interviews with NLP\n3. Predict attrition risk per team',
+  },
+  'usecases-repaired': {
+    responses: [
+      '1. Automate candidate screening with AI\n2. Summarise exit interviews with NLP',
+      '{"usecases": [{"title": "Automate candidate screening with AI", "description": "Ranks applicants against the job requirements.", "prompt": "Rate how well the resume below meets each job requirement.", "businessImpact": "Shortens time to hire.", "effort": "medium", "effortRationale": "Needs access to the applicant tracking system.", "dataSources": ["Resumes", "Job descriptions"], "risks": ["Bias against non-traditional candidates"], "technique": "chain-of-thought"}, {"title": "Summarise exit interviews with NLP", "description": "Pulls recurring themes out of exit interview notes.", "prompt": "Summarise the main reasons for leaving in the exit interview notes below.", "businessImpact": "Surfaces retention problems earlier.", "effort": "low", "effortRationale": "Interview notes are already collected.", "dataSources": ["Exit interview notes"], "risks": ["Exposure of personal data"], "technique": "one-shot"}]}',
+    ],
+  },
+  'usecases-bulleted': {
+    text: '- Automated resume ranking\n- Sentiment tracking for surveys',
+  },
+  'usecases-unparseable': {
+    text: 'I am unable to help with that request.',
+  },
+  'usecases-wrong-shape': {
+    text: '{"ideas": ["Create something"]}',
+  },
+  'usecases-prompt-only': {
+    text: '{"usecases": [{"prompt": "Create an AI chatbot to triage incoming support tickets"}]}',
+  },
+  'usecases-unknown-technique': {
+    text: '{"usecases": [{"title": "Develop an NLP classifier for invoice categories", "description": "Assigns incoming invoices to spending categories.", "prompt": "Assign the invoice below to one of the spending categories.", "businessImpact": "Removes manual invoice coding.", "effort": "low", "effortRationale": "Works from invoice text alone.", "dataSources": ["Invoices"], "risks": ["Miscategorised spend"], "technique": "telepathy"}]}',
+  },
+
+  // shared scenarios
+  'upstream-error': {
+    error: 'upstream unavailable',
+    status: 503,
+  },
+  'upstream-rate-limited': {
+    error: 'rate limit reached',
+    status: 429,
+    retryAfter: '20',
+  },
+  'upstream-unauthorized': {
+    error: 'invalid API key',
+    status: 401,
+  },
+};
@@ -0,0 +1,72 @@
+import { mockFixtures, type MockFixture } from './mock-fixtures.ts';
+import type { LLMProvider, LLMRequest, LLMResponse } from './types.ts';
+import { upstreamErrorFromResponse } from './upstream.ts';
+
+interface MockConfig {
+  scenario?: string;
+  fixtures?: Record<string, MockFixture>;
+}
+
+// Size of the pieces a fixture is split into when streamed
+const STREAM_CHUNK_SIZE = 8;
+
+export const hashPrompt = async (prompt: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(prompt));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Deterministic provider for offline development and tests. A fixture keyed
+ * on the SHA-256 hash of the prompt wins over the configured scenario, which
+ * in turn falls back to the "default" fixture.
+ */
+export const createMockProvider = ({
+  scenario = 'default',
+  fixtures = mockFixtures,
+}: MockConfig = {}): LLMProvider => {
+  let calls = 0;
+
+  const resolve = async (request: LLMRequest): Promise<string> => {
+    const promptHash = await hashPrompt(request.prompt);
+    const fixture = fixtures[promptHash] ?? fixtures[scenario] ?? fixtures['default'];
+
+    if (!fixture) {
+      throw new Error(`No mock fixture for scenario "${scenario}"`);
+    }
+    if (fixture.error && fixture.status) {
+      const headers = fixture.retryAfter ? { 'Retry-After': fixture.retryAfter } : undefined;
+      throw await upstreamErrorFromResponse('mock', new Response(fixture.error, { status: fixture.status, headers }));
+    }
+    if (fixture.error) {
+      throw new Error(fixture.error);
+    }
+    const call = calls++;
+    return fixture.responses ? fixture.responses[Math.min(call, fixture.responses.length - 1)] : fixture.text ?? '';
+  };
+
+  return {
+    name: 'mock',
+    model: `mock-${scenario}`,
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      const text = await resolve(request);
+      return {
+        text,
+        provider: 'mock',
+        model: `mock-${scenario}`,
+        usage: {
+          promptTokens: Math.ceil(request.prompt.length / 4),
+          completionTokens: Math.ceil(text.length / 4),
+        },
+      };
+    },
+    async *stream(request: LLMRequest): AsyncIterable<string> {
+      const text = await resolve(request);
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        request.signal?.throwIfAborted();
+        yield text.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    },
+  };
+};
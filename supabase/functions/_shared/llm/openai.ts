@@ -0,0 +1,80 @@
+import { parseSseStream } from '../sse.ts';
+import type { LLMProvider, LLMRequest, LLMResponse } from './types.ts';
+import { UpstreamError, upstreamErrorFromResponse } from './upstream.ts';
+
+interface OpenAIConfig {
+  apiKey?: string;
+  model: string;
+  baseUrl?: string;
+  name?: string;
+}
+
+// Works against any server implementing the OpenAI chat completions API
+// (OpenAI itself, Azure-style gateways, llama.cpp server, Ollama, vLLM...).
+export const createOpenAIProvider = ({
+  apiKey,
+  model,
+  baseUrl = 'https://api.openai.com/v1',
+  name = 'openai',
+}: OpenAIConfig): LLMProvider => {
+  const post = async (request: LLMRequest, stream: boolean): Promise<Response> => {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...(request.messages ?? [{ role: 'user', content: request.prompt }]),
+    ];
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        ...(request.schema
+          ? { response_format: { type: 'json_schema', json_schema: request.schema } }
+          : request.json && { response_format: { type: 'json_object' } }),
+        ...(stream && { stream: true }),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await upstreamErrorFromResponse(name, response);
+    }
+    return response;
+  };
+
+  return {
+    name,
+    model,
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      const data = await (await post(request, false)).json();
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') {
+        throw new UpstreamError('upstream_error', `Invalid response structure from ${name} API`);
+      }
+
+      return {
+        text,
+        provider: name,
+        model: data.model ?? model,
+        usage: data.usage && {
+          promptTokens: data.usage.prompt_tokens ?? 0,
+          completionTokens: data.usage.completion_tokens ?? 0,
+        },
+      };
+    },
+    async *stream(request: LLMRequest): AsyncIterable<string> {
+      const response = await post(request, true);
+      for await (const { data } of parseSseStream(response.body!, request.signal)) {
+        if (data === '[DONE]') break;
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (typeof text === 'string' && text) yield text;
+      }
+    },
+  };
+};
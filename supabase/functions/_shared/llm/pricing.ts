@@ -0,0 +1,30 @@
+import type { LLMUsage } from './types.ts';
+
+// List prices in USD per million tokens. Models are matched by prefix, longest
+// first, so dated snapshots ("gpt-4o-mini-2024-07-18") share their family's
+// price. Unknown models (local servers, mocks) have no cost estimate.
+const PRICES: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'gemini-1.5-flash-8b', input: 0.0375, output: 0.15 },
+  { prefix: 'gemini-1.5-flash', input: 0.075, output: 0.3 },
+  { prefix: 'gemini-1.5-pro', input: 1.25, output: 5 },
+  { prefix: 'gemini-2.0-flash-lite', input: 0.075, output: 0.3 },
+  { prefix: 'gemini-2.0-flash', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25 },
+].sort((a, b) => b.prefix.length - a.prefix.length);
+
+/**
+ * Estimated cost of a call in USD, or null when the model has no known price.
+ */
+export const estimateCost = (model: string, usage: LLMUsage): number | null => {
+  const price = PRICES.find(({ prefix }) => model.startsWith(prefix));
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+};
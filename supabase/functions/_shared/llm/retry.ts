@@ -0,0 +1,150 @@
+import type { LLMProvider, LLMRequest } from './types.ts';
+import { UpstreamError } from './upstream.ts';
+
+export interface RetryPolicy {
+  // Attempts after the first one
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Per attempt; for streams, the longest wait for the next chunk
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: 45000,
+};
+
+/**
+ * Exponential backoff with full jitter: a random wait of up to
+ * baseDelay * 2^retry, capped at maxDelay, so concurrent callers that failed
+ * together do not retry together.
+ */
+export const backoffDelay = (retry: number, policy: RetryPolicy, random = Math.random): number =>
+  Math.round(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry));
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// Dropped connections surface as plain errors from fetch and are worth a retry
+const toUpstreamError = (error: unknown): UpstreamError =>
+  error instanceof UpstreamError
+    ? error
+    : new UpstreamError('upstream_error', error instanceof Error ? error.message : String(error), {
+      retryable: error instanceof TypeError,
+    });
+
+/**
+ * Aborts when the caller's signal does or when `touch` is not called again
+ * within the timeout. `timedOut` tells the two apart.
+ */
+const createTimeout = (timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  touch();
+  return {
+    signal: controller.signal,
+    touch,
+    timedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+};
+
+const timeoutError = (provider: LLMProvider, timeoutMs: number) =>
+  new UpstreamError('upstream_timeout', `${provider.name} did not respond within ${timeoutMs / 1000} seconds`, { retryable: true });
+
+/**
+ * Wraps a provider with per-attempt timeouts and retries of retryable
+ * failures. A wait the provider asks for (Retry-After) is honoured when it
+ * fits within maxDelayMs; a longer one is reported instead. Streams are only
+ * retried until their first chunk arrives. Cancellation by the caller is
+ * never retried.
+ */
+export const withRetries = (
+  provider: LLMProvider,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random = Math.random,
+): LLMProvider => {
+  // Returns the wait before the next attempt, or rethrows when there is none
+  const nextDelay = (error: UpstreamError, retry: number, request: LLMRequest): number => {
+    if (request.signal?.aborted || !error.retryable || retry >= policy.maxRetries) throw error;
+    const requested = error.retryAfter !== undefined ? error.retryAfter * 1000 : undefined;
+    if (requested !== undefined && requested > policy.maxDelayMs) throw error;
+    const delay = Math.max(requested ?? 0, backoffDelay(retry, policy, random));
+    console.log(`↻ ${provider.name} call failed (${error.code}), retrying in ${delay}ms: ${error.message}`);
+    return delay;
+  };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    async generate(request) {
+      for (let retry = 0; ; retry++) {
+        const timeout = createTimeout(policy.timeoutMs, request.signal);
+        try {
+          return await provider.generate({ ...request, signal: timeout.signal });
+        } catch (error) {
+          if (request.signal?.aborted) throw error;
+          const failure = timeout.timedOut() ? timeoutError(provider, policy.timeoutMs) : toUpstreamError(error);
+          await sleep(nextDelay(failure, retry, request), request.signal);
+        } finally {
+          timeout.clear();
+        }
+      }
+    },
+    async *stream(request) {
+      for (let retry = 0; ; retry++) {
+        const timeout = createTimeout(policy.timeoutMs, request.signal);
+        let started = false;
+        try {
+          for await (const chunk of provider.stream({ ...request, signal: timeout.signal })) {
+            started = true;
+            timeout.touch();
+            yield chunk;
+          }
+          return;
+        } catch (error) {
+          if (request.signal?.aborted) throw error;
+          const failure = timeout.timedOut() ? timeoutError(provider, policy.timeoutMs) : toUpstreamError(error);
+          if (started) throw failure;
+          await sleep(nextDelay(failure, retry, request), request.signal);
+        } finally {
+          timeout.clear();
+        }
+      }
+    },
+  };
+};
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(Deno.env.get(name) || NaN);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+// LLM_TIMEOUT_MS and LLM_MAX_RETRIES override the defaults
+export const retryPolicyFromEnv = (): RetryPolicy => ({
+  ...DEFAULT_RETRY_POLICY,
+  maxRetries: envNumber('LLM_MAX_RETRIES', DEFAULT_RETRY_POLICY.maxRetries),
+  timeoutMs: envNumber('LLM_TIMEOUT_MS', DEFAULT_RETRY_POLICY.timeoutMs),
+});
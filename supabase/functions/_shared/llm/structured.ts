@@ -0,0 +1,100 @@
+import { AppError } from '../errors.ts';
+import type { LLMProvider, LLMRequest } from './types.ts';
+
+// Structured (JSON) model output: invalid responses are sent back to the model
+// with the problem described instead of being guessed at. Schema modes make
+// this rare on providers that have them; it is the main safeguard on those
+// that do not.
+
+// The first answer plus two repairs
+export const STRUCTURED_MAX_ATTEMPTS = 3;
+
+// Long invalid responses are cut down before being quoted back to the model
+const MAX_QUOTED_RESPONSE_CHARS = 4000;
+
+/**
+ * Raised when the model has not produced a usable response after every
+ * repair attempt. Carries the last problem and response for logging.
+ */
+export class StructuredOutputError extends AppError {
+  readonly problem: string;
+  readonly attempts: number;
+  readonly response: string;
+
+  constructor(problem: string, attempts: number, response: string) {
+    super('parse_failed', `The model did not return a valid response after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${problem}`);
+    this.name = 'StructuredOutputError';
+    this.problem = problem;
+    this.attempts = attempts;
+    this.response = response;
+  }
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const buildRepairInstruction = (problem: string) => `Problem: ${problem}
+
+Respond again with a single corrected JSON object and nothing else.`;
+
+const buildRepairPrompt = (prompt: string, response: string, problem: string) => `${prompt}
+
+Your previous response could not be used:
+${response.slice(0, MAX_QUOTED_RESPONSE_CHARS)}
+
+${buildRepairInstruction(problem)}`;
+
+// Providers send `messages` instead of `prompt` when it is set, so the rejected
+// response and the instruction are appended there as the next two turns
+const buildRepairRequest = (request: LLMRequest, response: string, problem: string): LLMRequest => ({
+  ...request,
+  prompt: buildRepairPrompt(request.prompt, response, problem),
+  ...(request.messages && {
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: response.slice(0, MAX_QUOTED_RESPONSE_CHARS) },
+      { role: 'user', content: `Your previous response could not be used.\n\n${buildRepairInstruction(problem)}` },
+    ],
+  }),
+});
+
+/**
+ * Parses a response the model has already produced (for example a streamed
+ * one) and, while `parse` rejects it, asks the model to correct it with the
+ * parse error quoted. `parse` throws an Error describing what is wrong.
+ */
+export const repairStructured = async <T>(
+  provider: LLMProvider,
+  request: LLMRequest,
+  response: string,
+  parse: (text: string) => T,
+  maxAttempts = STRUCTURED_MAX_ATTEMPTS,
+): Promise<T> => {
+  let text = response;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return parse(text);
+    } catch (error) {
+      const problem = errorMessage(error);
+      if (attempt >= maxAttempts) {
+        throw new StructuredOutputError(problem, attempt, text);
+      }
+      console.log(`Structured response rejected (attempt ${attempt} of ${maxAttempts}), asking ${provider.name} to repair it: ${problem}`);
+      ({ text } = await provider.generate(buildRepairRequest(request, text, problem)));
+    }
+  }
+};
+
+/**
+ * Generates a JSON response and parses it, repairing invalid output as in
+ * repairStructured. Upstream errors are not retried here.
+ */
+export const generateStructured = async <T>(
+  provider: LLMProvider,
+  request: LLMRequest,
+  parse: (text: string) => T,
+  maxAttempts = STRUCTURED_MAX_ATTEMPTS,
+): Promise<T> => {
+  const structured = { json: true, ...request };
+  const { text } = await provider.generate(structured);
+  return repairStructured(provider, structured, text, parse, maxAttempts);
+};
@@ -0,0 +1,53 @@
+// Common request/response shapes shared by every LLM provider implementation.
+
+// JSON Schema for a structured response. Kept to the subset every provider
+// with a schema mode accepts: type, properties, required, items, enum and
+// description.
+export type JsonSchema = Record<string, unknown>;
+
+export interface ResponseSchema {
+  name: string;
+  schema: JsonSchema;
+}
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  prompt: string;
+  // Conversation sent as role messages instead of one user message holding
+  // `prompt`, which then carries its transcript for logs and usage estimates
+  messages?: LLMMessage[];
+  system?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Ask for a JSON object response where the provider has a JSON mode
+  json?: boolean;
+  // Constrain the response to this schema where the provider supports it;
+  // implies `json`
+  schema?: ResponseSchema;
+  // Aborts the upstream HTTP call, e.g. when the client disconnects
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  // Yields the response text incrementally as the model produces it
+  stream(request: LLMRequest): AsyncIterable<string>;
+}
@@ -0,0 +1,53 @@
+import { AppError } from '../errors.ts';
+
+/**
+ * A failed call to a model provider. `retryable` marks failures worth another
+ * attempt: rate limits, timeouts, server errors and dropped connections.
+ */
+export class UpstreamError extends AppError {
+  readonly status?: number;
+  readonly retryable: boolean;
+
+  constructor(code: 'upstream_rate_limited' | 'upstream_timeout' | 'upstream_error' | 'config_error', message: string, {
+    status,
+    retryable = false,
+    retryAfter,
+  }: { status?: number; retryable?: boolean; retryAfter?: number } = {}) {
+    super(code, message, retryAfter);
+    this.name = 'UpstreamError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (header: string | null, now = Date.now()): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000));
+};
+
+/**
+ * Classifies a non-2xx provider response. A rejected API key is a
+ * configuration problem rather than something a retry can fix.
+ */
+export const upstreamErrorFromResponse = async (provider: string, response: Response): Promise<UpstreamError> => {
+  const { status } = response;
+  const message = `${provider} API error: ${status} - ${await response.text()}`;
+  if (status === 429) {
+    return new UpstreamError('upstream_rate_limited', message, {
+      status,
+      retryable: true,
+      retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+    });
+  }
+  if (status === 401 || status === 403) {
+    return new UpstreamError('config_error', message, { status });
+  }
+  if (status === 408 || status === 504) {
+    return new UpstreamError('upstream_timeout', message, { status, retryable: true });
+  }
+  return new UpstreamError('upstream_error', message, { status, retryable: status >= 500 });
+};
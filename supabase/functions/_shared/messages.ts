@@ -0,0 +1,86 @@
+import { analyzePrompt, type PromptFacts } from "./heuristics.ts";
+import type { TextSpan } from "./spans.ts";
+
+// OpenAI-style chat prompts, where few-shot examples are user/assistant turn
+// pairs rather than labelled text. They are judged as a plain-text
+// transcript, with the examples counted from the turns.
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export const CHAT_ROLES: ChatRole[] = ['system', 'user', 'assistant'];
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+// Where a message's content sits in the transcript
+export interface ChatTurn extends TextSpan {
+  role: ChatRole;
+}
+
+export interface ChatTranscript {
+  text: string;
+  turns: ChatTurn[];
+}
+
+export const isChatMessages = (value: unknown): value is ChatMessage[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((message) =>
+    typeof message === 'object' && message !== null &&
+    CHAT_ROLES.includes(message.role) && typeof message.content === 'string'
+  );
+
+/**
+ * Flattens the messages into a transcript with a `[role]` header above each
+ * message's content.
+ */
+export const formatTranscript = (messages: ChatMessage[]): ChatTranscript => {
+  let text = '';
+  const turns: ChatTurn[] = [];
+  messages.forEach((message, index) => {
+    text += `${index > 0 ? '\n\n' : ''}[${message.role}]\n`;
+    const content = message.content.trim();
+    turns.push({ role: message.role, start: text.length, end: text.length + content.length, text: content });
+    text += content;
+  });
+  return { text, turns };
+};
+
+// A user turn answered by an assistant turn is one example; a trailing user
+// turn is the actual input
+const findTurnExamples = (text: string, turns: ChatTurn[]): TextSpan[] =>
+  turns.flatMap((turn, index) => {
+    const reply = turns[index + 1];
+    if (turn.role !== 'user' || reply?.role !== 'assistant') return [];
+    return [{ start: turn.start, end: reply.end, text: text.slice(turn.start, reply.end) }];
+  });
+
+const countWords = (text: string) => (text.trim() ? text.trim().split(/\s+/).length : 0);
+
+/**
+ * Analyzes a chat prompt. Examples are the user/assistant pairs plus any
+ * written out inside system messages; spans refer to the transcript.
+ */
+export const analyzeMessages = (messages: ChatMessage[]): { prompt: string; facts: PromptFacts } => {
+  const { text, turns } = formatTranscript(messages);
+  const inline = turns
+    .filter((turn) => turn.role === 'system')
+    .flatMap((turn) => analyzePrompt(turn.text).examples.map((span) => ({
+      start: turn.start + span.start,
+      end: turn.start + span.end,
+      text: span.text,
+    })));
+  const examples = [...findTurnExamples(text, turns), ...inline].sort((a, b) => a.start - b.start);
+
+  return {
+    prompt: text,
+    facts: {
+      ...analyzePrompt(text),
+      exampleCount: examples.length,
+      examples,
+      wordCount: turns.reduce((sum, turn) => sum + countWords(turn.text), 0),
+    },
+  };
+};
@@ -0,0 +1,30 @@
+import type { ErrorBody } from "./errors.ts";
+import type { ChatMessage } from "./messages.ts";
+
+// Contract of the run-prompt function, shared with the React app.
+
+// Every test case is a model call and is charged against the quota as one
+export const MAX_RUN_CASES = 10;
+
+export interface RunCase {
+  // Sent as the user's input after the prompt
+  input?: string;
+  // Sample values for the prompt's template variables
+  variables?: Record<string, string>;
+}
+
+export interface RunRequest {
+  prompt?: string;
+  // Chat prompt as OpenAI-style messages, instead of `prompt`
+  messages?: ChatMessage[];
+  cases: RunCase[];
+}
+
+export type RunResult =
+  | { index: number; status: 'ok'; output: string; provider: string; model: string; latencyMs: number }
+  // Same body as a failed request, so the app describes it the same way
+  | { index: number; status: 'error'; error: ErrorBody };
+
+export interface RunResponse {
+  results: RunResult[];
+}
@@ -0,0 +1,36 @@
+// Per-user request quotas enforced by the LLM-backed edge functions. The
+// counters and limits live in Postgres (see the consume_quota function); the
+// React app reads the same status through the get_my_quota RPC.
+
+export interface QuotaStatus {
+  allowed: boolean;
+  minuteLimit: number;
+  minuteRemaining: number;
+  dayLimit: number;
+  dayRemaining: number;
+  // Seconds until the request would be allowed, 0 when it already is
+  retryAfterSeconds: number;
+}
+
+export interface QuotaStatusRow {
+  allowed: boolean;
+  minute_limit: number;
+  minute_remaining: number;
+  day_limit: number;
+  day_remaining: number;
+  retry_after_seconds: number;
+}
+
+export interface QuotaLimiter {
+  // Charges `units` model calls to the user when both windows allow it
+  consume(userId: string, functionName: string, units: number): Promise<QuotaStatus>;
+}
+
+export const toQuotaStatus = (row: QuotaStatusRow): QuotaStatus => ({
+  allowed: row.allowed,
+  minuteLimit: row.minute_limit,
+  minuteRemaining: row.minute_remaining,
+  dayLimit: row.day_limit,
+  dayRemaining: row.day_remaining,
+  retryAfterSeconds: row.retry_after_seconds,
+});
@@ -0,0 +1,243 @@
+import { z } from "zod";
+import { MAX_BATCH_SIZE } from "./batch.ts";
+import { RequestValidationError, type FieldErrors } from "./errors.ts";
+import { criterionScoreSchema, ENSEMBLE_SAMPLES } from "./evaluation.ts";
+import { CHAT_ROLES, type ChatRole } from "./messages.ts";
+import { MAX_RUN_CASES } from "./playground.ts";
+import { USECASE_COUNT, USECASE_DETAIL_LEVELS, type UseCaseDetail } from "./usecases.ts";
+
+// Request bodies accepted by the edge functions. The React app validates its
+// forms with the same schemas, so a request the form lets through is one the
+// function accepts.
+
+export const REQUEST_LIMITS = {
+  // Room for few-shot prompts with sizeable examples; also the limit for the
+  // combined content of chat messages
+  promptLength: 20_000,
+  messages: 50,
+  techniqueLength: 64,
+  departmentLength: 100,
+  taskLength: 2_000,
+  variables: 50,
+  variableLength: 2_000,
+  titleLength: 200,
+} as const;
+
+const characters = (count: number) => `${count.toLocaleString('en-US')} characters`;
+
+// Blank prompts are rejected, but the text is passed on as sent because
+// annotation offsets index into it
+export const promptSchema = z
+  .string({ required_error: 'Prompt is empty', invalid_type_error: 'Prompt must be text' })
+  .max(REQUEST_LIMITS.promptLength, `Prompt must be at most ${characters(REQUEST_LIMITS.promptLength)}`)
+  .refine((prompt) => prompt.trim().length > 0, 'Prompt is empty');
+
+export const chatMessageSchema = z.object({
+  role: z.enum(CHAT_ROLES as [ChatRole, ...ChatRole[]], {
+    errorMap: () => ({ message: 'Role must be system, user or assistant' }),
+  }),
+  content: z.string({ required_error: 'Message is empty', invalid_type_error: 'Message must be text' }),
+});
+
+export const chatMessagesSchema = z
+  .array(chatMessageSchema, { invalid_type_error: 'Messages must be a list of system, user and assistant messages' })
+  .min(1, 'Add at least one message')
+  .max(REQUEST_LIMITS.messages, `A chat prompt may have at most ${REQUEST_LIMITS.messages} messages`)
+  .refine(
+    (messages) => messages.reduce((length, message) => length + message.content.length, 0) <= REQUEST_LIMITS.promptLength,
+    `Messages must be at most ${characters(REQUEST_LIMITS.promptLength)} in total`,
+  );
+
+// Checks the shape of a technique id; whether it is in the catalog is up to
+// the function, which loads the catalog
+export const techniqueSchema = z
+  .string({ required_error: 'Select a technique', invalid_type_error: 'Technique must be a technique id' })
+  .trim()
+  .min(1, 'Select a technique')
+  .max(REQUEST_LIMITS.techniqueLength, 'Unknown technique');
+
+export const variableValuesSchema = z
+  .record(
+    z.string({ invalid_type_error: 'Sample values must be text' })
+      .max(REQUEST_LIMITS.variableLength, `Sample values must be at most ${characters(REQUEST_LIMITS.variableLength)}`),
+    { invalid_type_error: 'Sample values must map variable names to text' },
+  )
+  .refine(
+    (values) => Object.keys(values).length <= REQUEST_LIMITS.variables,
+    `At most ${REQUEST_LIMITS.variables} variables can be given sample values`,
+  );
+
+// Functions that take a text prompt or a chat prompt need one of the two;
+// messages win when both are sent
+const requirePrompt = (request: { prompt?: string; messages?: unknown[] }, ctx: z.RefinementCtx) => {
+  if (request.prompt === undefined && request.messages === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['prompt'], message: 'Provide a prompt or messages' });
+  }
+};
+
+const ensembleSamplesMessage = `Ensembles take ${ENSEMBLE_SAMPLES.min} to ${ENSEMBLE_SAMPLES.max} samples`;
+
+export const evaluationRequestSchema = z
+  .object({
+    mode: z.enum(['evaluate', 'detect']).default('evaluate'),
+    prompt: promptSchema.optional(),
+    // Chat prompt as OpenAI-style messages, instead of `prompt`
+    messages: chatMessagesSchema.optional(),
+    // Required when evaluating, ignored when detecting
+    selectedTechnique: techniqueSchema.optional(),
+    stream: z.boolean().default(false),
+    // Bypass the result cache and store the fresh evaluation
+    force: z.boolean().default(false),
+    // Aggregate several judge samples, optionally spread across providers
+    ensemble: z.object({
+      samples: z.number({ invalid_type_error: ensembleSamplesMessage })
+        .int(ensembleSamplesMessage)
+        .min(ENSEMBLE_SAMPLES.min, ensembleSamplesMessage)
+        .max(ENSEMBLE_SAMPLES.max, ensembleSamplesMessage)
+        .default(ENSEMBLE_SAMPLES.default),
+      crossProvider: z.boolean().default(false),
+    }).optional(),
+    // Sample values for the prompt's template variables, by variable name
+    variables: variableValuesSchema.optional(),
+  })
+  .superRefine((request, ctx) => {
+    requirePrompt(request, ctx);
+    if (request.mode === 'evaluate' && request.selectedTechnique === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['selectedTechnique'], message: 'Select a technique' });
+    }
+  });
+
+export type EvaluationRequest = z.infer<typeof evaluationRequestSchema>;
+
+const useCaseCountMessage = `Choose between ${USECASE_COUNT.min} and ${USECASE_COUNT.max} use cases`;
+
+const useCaseDetailIds = USECASE_DETAIL_LEVELS.map((level) => level.id) as [UseCaseDetail, ...UseCaseDetail[]];
+
+// Longer write-ups leave room for fewer use cases in the model's output
+export const limitUseCaseCount = (request: { count: number; detail: UseCaseDetail }, ctx: z.RefinementCtx) => {
+  const level = USECASE_DETAIL_LEVELS.find((candidate) => candidate.id === request.detail);
+  if (level && request.count > level.maxCount) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['count'],
+      message: `${level.label} use cases are limited to ${level.maxCount} per request`,
+    });
+  }
+};
+
+export const useCaseRequestSchema = z.object({
+  department: z.string({ required_error: 'Select a department', invalid_type_error: 'Department must be text' })
+    .trim()
+    .min(1, 'Select a department')
+    .max(REQUEST_LIMITS.departmentLength, `Department must be at most ${characters(REQUEST_LIMITS.departmentLength)}`),
+  task: z.string({ required_error: 'Describe the task or challenge', invalid_type_error: 'Task must be text' })
+    .trim()
+    .min(1, 'Describe the task or challenge')
+    .max(REQUEST_LIMITS.taskLength, `Task must be at most ${characters(REQUEST_LIMITS.taskLength)}`),
+  count: z.number({ invalid_type_error: useCaseCountMessage })
+    .int(useCaseCountMessage)
+    .min(USECASE_COUNT.min, useCaseCountMessage)
+    .max(USECASE_COUNT.max, useCaseCountMessage)
+    .default(USECASE_COUNT.default),
+  detail: z.enum(useCaseDetailIds, { errorMap: () => ({ message: 'Detail must be brief, standard or detailed' }) })
+    .default('standard'),
+  // Bypass the result cache and store the fresh use cases
+  force: z.boolean().default(false),
+}).superRefine(limitUseCaseCount);
+
+export type UseCaseRequest = z.infer<typeof useCaseRequestSchema>;
+
+export const rewriteRequestSchema = z.object({
+  prompt: promptSchema,
+  selectedTechnique: techniqueSchema,
+  // The evaluation being acted on; its weak criteria steer the rewrite
+  evaluation: z.object({
+    match: z.boolean().optional(),
+    score: z.number().optional(),
+    rationale: z.string().max(REQUEST_LIMITS.promptLength).optional(),
+    criteria: z.array(criterionScoreSchema).optional(),
+  }).optional(),
+});
+
+export type RewriteRequest = z.infer<typeof rewriteRequestSchema>;
+
+export const runCaseSchema = z.object({
+  input: z.string({ invalid_type_error: 'Input must be text' })
+    .max(REQUEST_LIMITS.promptLength, `Input must be at most ${characters(REQUEST_LIMITS.promptLength)}`)
+    .optional(),
+  variables: variableValuesSchema.optional(),
+});
+
+export const runRequestSchema = z
+  .object({
+    prompt: promptSchema.optional(),
+    messages: chatMessagesSchema.optional(),
+    cases: z.array(runCaseSchema, { required_error: 'Add at least one test case' })
+      .min(1, 'Add at least one test case')
+      .max(MAX_RUN_CASES, `A run may contain at most ${MAX_RUN_CASES} test cases`),
+  })
+  .superRefine((request, ctx) => {
+    requirePrompt(request, ctx);
+    // Providers reject a request without a user or assistant turn, so a chat
+    // prompt of system messages only needs an input in every case
+    if (request.messages?.every((message) => message.role === 'system')) {
+      request.cases.forEach((runCase, index) => {
+        if (!runCase.input?.trim()) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['cases', index, 'input'],
+            message: 'Add an input: a chat prompt with only system messages has no turn to send without one',
+          });
+        }
+      });
+    }
+  });
+
+export const batchItemSchema = z.object({
+  prompt: promptSchema,
+  technique: techniqueSchema,
+  title: z.string().max(REQUEST_LIMITS.titleLength, `Title must be at most ${characters(REQUEST_LIMITS.titleLength)}`).optional(),
+});
+
+// Items are validated one at a time so that a bad item fails only its own slot
+export const batchRequestSchema = z.object({
+  items: z.array(z.unknown(), { required_error: 'Add at least one prompt to the batch' })
+    .min(1, 'Add at least one prompt to the batch')
+    .max(MAX_BATCH_SIZE, `A batch may contain at most ${MAX_BATCH_SIZE} items`),
+});
+
+// Problems by dotted field path; problems with the body as a whole are filed
+// under "request"
+const toFieldErrors = (error: z.ZodError): FieldErrors => {
+  const fields: FieldErrors = {};
+  for (const issue of error.issues) {
+    const path = issue.path.join('.') || 'request';
+    (fields[path] ??= []).push(issue.message);
+  }
+  return fields;
+};
+
+/**
+ * Parses a request body with its schema. Throws a RequestValidationError
+ * listing every problem, by field, when the body does not fit.
+ */
+export const validateRequest = <T extends z.ZodTypeAny>(schema: T, body: unknown): z.output<T> => {
+  const validation = schema.safeParse(body);
+  if (!validation.success) {
+    const messages = [...new Set(validation.error.issues.map((issue) => issue.message))];
+    throw new RequestValidationError(messages.join('; '), toFieldErrors(validation.error));
+  }
+  return validation.data;
+};
+
+// A body that is not JSON at all is a bad request as well
+export const parseRequestBody = async <T extends z.ZodTypeAny>(req: Request, schema: T): Promise<z.output<T>> => {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    const message = 'Request body must be valid JSON';
+    throw new RequestValidationError(message, { request: [message] });
+  }
+  return validateRequest(schema, body);
+};
@@ -0,0 +1,24 @@
+export interface TextSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Resolves a quote from the model to character offsets in the prompt.
+ * Models paraphrase occasionally, so this falls back to a case-insensitive
+ * search and returns null for quotes that do not appear in the prompt at all.
+ * Pass `from` to find a later occurrence of a repeated quote.
+ */
+export const locateSpan = (prompt: string, quote: string, from = 0): TextSpan | null => {
+  const needle = quote.trim();
+  if (!needle) return null;
+
+  let start = prompt.indexOf(needle, from);
+  if (start === -1) {
+    start = prompt.toLowerCase().indexOf(needle.toLowerCase(), from);
+  }
+  if (start === -1) return null;
+
+  return { start, end: start + needle.length, text: prompt.slice(start, start + needle.length) };
+};
@@ -0,0 +1,61 @@
+// Server-sent events helpers shared by the edge functions (for reading
+// upstream model streams and writing responses) and the React app.
+
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+export const formatSseEvent = (event: string, data: unknown): string =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+/**
+ * Parses a text/event-stream body into events. Aborting `signal` cancels the
+ * underlying reader, which closes the connection to the server.
+ */
+export async function* parseSseStream(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const cancel = () => { reader.cancel().catch(() => {}); };
+  signal?.addEventListener('abort', cancel);
+  if (signal?.aborted) cancel();
+
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+
+        if (line === '') {
+          if (data.length > 0) {
+            yield { event, data: data.join('\n') };
+          }
+          event = 'message';
+          data = [];
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+    }
+    if (data.length > 0) {
+      yield { event, data: data.join('\n') };
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    reader.releaseLock();
+  }
+}
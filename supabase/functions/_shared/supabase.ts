@@ -0,0 +1,136 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { bearerToken, type Authenticate } from "./auth.ts";
+import type { ResultCache } from "./cache.ts";
+import { AppError } from "./errors.ts";
+import { DEFAULT_JUDGE_TEMPLATE, type JudgeTemplate } from "./judge-template.ts";
+import { toQuotaStatus, type QuotaLimiter, type QuotaStatusRow } from "./quota.ts";
+import { toTechnique, type Technique, type TechniqueRow } from "./techniques.ts";
+import type { UsageRecorder } from "./usage.ts";
+
+const DEFAULT_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export const createServiceClient = () => {
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !serviceRoleKey) {
+    throw new AppError('config_error', 'Supabase service credentials not configured');
+  }
+  return createClient(url, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+};
+
+export const loadTechniqueCatalog = async (): Promise<Technique[]> => {
+  const { data, error } = await createServiceClient()
+    .from('prompt_techniques')
+    .select('id, label, description, detection_criteria, scoring_rubric')
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load technique catalog: ${error.message}`);
+  }
+  return (data as TechniqueRow[]).map(toTechnique);
+};
+
+/**
+ * Loads a judge prompt template version, or the active one when no version is
+ * given. Falls back to the built-in template when no version is active.
+ */
+export const loadJudgeTemplate = async (version?: number): Promise<JudgeTemplate> => {
+  const query = createServiceClient()
+    .from('judge_prompt_templates')
+    .select('version, template');
+  const { data, error } = await (version === undefined ? query.eq('is_active', true) : query.eq('version', version))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load judge template: ${error.message}`);
+  }
+  if (!data && version !== undefined) {
+    throw new Error(`Judge template version ${version} does not exist`);
+  }
+  return (data as JudgeTemplate | null) ?? DEFAULT_JUDGE_TEMPLATE;
+};
+
+/**
+ * Result cache backed by the llm_result_cache table. Cache failures are logged
+ * and treated as misses so they never fail the request being served.
+ */
+export const createResultCache = (
+  ttlSeconds = Number(Deno.env.get('CACHE_TTL_SECONDS') ?? DEFAULT_CACHE_TTL_SECONDS),
+): ResultCache => ({
+  async get(key) {
+    const { data, error } = await createServiceClient()
+      .from('llm_result_cache')
+      .select('result')
+      .eq('cache_key', key)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to read result cache:', error.message);
+      return null;
+    }
+    return data?.result ?? null;
+  },
+  async set(key, value) {
+    const { error } = await createServiceClient()
+      .from('llm_result_cache')
+      .upsert({
+        cache_key: key,
+        result: value,
+        expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+      });
+
+    if (error) {
+      console.error('Failed to write result cache:', error.message);
+    }
+  },
+});
+
+export const authenticateUser: Authenticate = async (req) => {
+  const token = bearerToken(req);
+  if (!token) return null;
+
+  // The anon key is a valid JWT too, so only a real user session passes
+  const { data, error } = await createServiceClient().auth.getUser(token);
+  if (error || !data.user) return null;
+  return { id: data.user.id, email: data.user.email };
+};
+
+// Quota counters in Postgres. Failures propagate so requests fail closed.
+export const quotaLimiter: QuotaLimiter = {
+  async consume(userId, functionName, units) {
+    const { data, error } = await createServiceClient()
+      .rpc('consume_quota', { p_user_id: userId, p_function: functionName, p_units: units })
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to check quota: ${error.message}`);
+    }
+    return toQuotaStatus(data as QuotaStatusRow);
+  },
+};
+
+// Ledger writes are best effort: a failed insert is logged, not surfaced
+export const recordUsage: UsageRecorder = async (entry) => {
+  const { error } = await createServiceClient()
+    .from('llm_usage')
+    .insert({
+      user_id: entry.userId,
+      function_name: entry.functionName,
+      provider: entry.provider,
+      model: entry.model,
+      prompt_tokens: entry.promptTokens,
+      completion_tokens: entry.completionTokens,
+      tokens_estimated: entry.tokensEstimated,
+      latency_ms: entry.latencyMs,
+      cost_usd: entry.costUsd,
+      status: entry.status,
+    });
+
+  if (error) {
+    console.error('Failed to record LLM usage:', error.message);
+  }
+};
@@ -0,0 +1,34 @@
+// Prompting technique catalog as served from the prompt_techniques table.
+
+export interface Technique {
+  id: string;
+  label: string;
+  description: string;
+  detectionCriteria: string;
+  scoringRubric: string;
+}
+
+export interface TechniqueRow {
+  id: string;
+  label: string;
+  description: string;
+  detection_criteria: string;
+  scoring_rubric: string;
+}
+
+export const toTechnique = (row: TechniqueRow): Technique => ({
+  id: row.id,
+  label: row.label,
+  description: row.description,
+  detectionCriteria: row.detection_criteria,
+  scoringRubric: row.scoring_rubric,
+});
+
+export const findTechnique = (catalog: Technique[], id: string): Technique | undefined =>
+  catalog.find((technique) => technique.id === id);
+
+// Numbered overview of every technique, used to give the judge the full taxonomy.
+export const describeCatalog = (catalog: Technique[]): string =>
+  catalog
+    .map((technique, index) => `${index + 1}. ${technique.label} (${technique.id}): ${technique.detectionCriteria}`)
+    .join('\n');
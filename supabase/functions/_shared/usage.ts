@@ -0,0 +1,107 @@
+import type { LLMProvider, LLMRequest, LLMUsage } from "./llm/index.ts";
+import { estimateCost } from "./llm/pricing.ts";
+
+// Per-call accounting for the llm_usage ledger. Providers are wrapped so every
+// model call made while serving a request is recorded against the caller.
+
+export type UsageStatus = 'ok' | 'error' | 'cancelled';
+
+export interface UsageEntry {
+  userId: string;
+  functionName: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // true when the provider did not report usage and tokens were estimated
+  tokensEstimated: boolean;
+  latencyMs: number;
+  costUsd: number | null;
+  status: UsageStatus;
+}
+
+export type UsageRecorder = (entry: UsageEntry) => Promise<void>;
+
+export interface UsageContext {
+  userId: string;
+  functionName: string;
+}
+
+// Rough token count for text the provider did not report usage for
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const requestTokens = (request: LLMRequest) => estimateTokens(`${request.system ?? ''}${request.prompt}`);
+
+const statusOf = (request: LLMRequest): UsageStatus => (request.signal?.aborted ? 'cancelled' : 'error');
+
+/**
+ * Wraps a provider so each generate and stream call is written to the ledger.
+ * Recording happens after the call settles and never changes its outcome.
+ */
+export const withUsageTracking = (
+  provider: LLMProvider,
+  record: UsageRecorder,
+  { userId, functionName }: UsageContext,
+): LLMProvider => {
+  const write = (usage: LLMUsage, tokensEstimated: boolean, startedAt: number, status: UsageStatus) =>
+    record({
+      userId,
+      functionName,
+      provider: provider.name,
+      model: provider.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      tokensEstimated,
+      latencyMs: Date.now() - startedAt,
+      costUsd: estimateCost(provider.model, usage),
+      status,
+    });
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    async generate(request) {
+      const startedAt = Date.now();
+      try {
+        const response = await provider.generate(request);
+        await write(
+          response.usage ?? { promptTokens: requestTokens(request), completionTokens: estimateTokens(response.text) },
+          !response.usage,
+          startedAt,
+          'ok',
+        );
+        return response;
+      } catch (error) {
+        await write({ promptTokens: requestTokens(request), completionTokens: 0 }, true, startedAt, statusOf(request));
+        throw error;
+      }
+    },
+    // Streaming responses carry no usage report, so tokens are estimated
+    async *stream(request) {
+      const startedAt = Date.now();
+      let text = '';
+      let status: UsageStatus = 'cancelled';
+      try {
+        for await (const chunk of provider.stream(request)) {
+          text += chunk;
+          yield chunk;
+        }
+        status = 'ok';
+      } catch (error) {
+        status = statusOf(request);
+        throw error;
+      } finally {
+        await write({ promptTokens: requestTokens(request), completionTokens: estimateTokens(text) }, true, startedAt, status);
+      }
+    },
+  };
+};
+
+/**
+ * Provider factory for a request: metered when a recorder is configured.
+ */
+export const meteredLLM = (
+  getLLM: () => LLMProvider,
+  record: UsageRecorder | undefined,
+  context: UsageContext,
+): () => LLMProvider => (record ? () => withUsageTracking(getLLM(), record, context) : getLLM);
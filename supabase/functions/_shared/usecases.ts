@@ -0,0 +1,38 @@
+// Contract of the generate-usecases function, shared with the React app.
+
+// All use cases come from one model call, so the count only bounds its length
+export const USECASE_COUNT = { min: 1, max: 20, default: 5 } as const;
+
+// How much the model writes about each use case, and how many use cases fit
+// in one response at that length
+export const USECASE_DETAIL_LEVELS = [
+  { id: 'brief', label: 'Brief', description: 'One-line descriptions and short prompts', maxCount: 20 },
+  { id: 'standard', label: 'Standard', description: 'A few sentences per field and a complete prompt', maxCount: 20 },
+  { id: 'detailed', label: 'Detailed', description: 'Thorough write-ups and production-ready prompts', maxCount: 12 },
+] as const;
+
+export type UseCaseDetail = typeof USECASE_DETAIL_LEVELS[number]['id'];
+
+export const USECASE_EFFORTS = ['low', 'medium', 'high'] as const;
+
+export type UseCaseEffort = typeof USECASE_EFFORTS[number];
+
+export interface UseCase {
+  title: string;
+  description: string;
+  // Ready-to-use prompt that puts the use case into practice
+  prompt: string;
+  businessImpact: string;
+  // Implementation effort, with the reasoning behind the estimate
+  effort: UseCaseEffort;
+  effortRationale: string;
+  dataSources: string[];
+  risks: string[];
+  // Id of the catalog technique best suited to the prompt
+  technique: string;
+}
+
+export interface UseCaseResponse {
+  usecases: UseCase[];
+  cached?: boolean;
+}
@@ -0,0 +1,129 @@
+import type { TextSpan } from "./spans.ts";
+
+// Template variables such as {{customer_name}} or {input} in production
+// prompts. Shared by the heuristics, evaluate-prompt and the sample-value
+// form in the React app.
+
+export type VariableSyntax = 'double' | 'single';
+
+export interface VariableUse extends TextSpan {
+  name: string;
+  syntax: VariableSyntax;
+}
+
+export interface VariableWarning {
+  kind: 'undefined' | 'unused' | 'inconsistent';
+  variable: string;
+  message: string;
+}
+
+const VARIABLE_PATTERNS: { syntax: VariableSyntax; pattern: RegExp }[] = [
+  { syntax: 'double', pattern: /\{\{\s*([A-Za-z_][\w.]*)\s*\}\}/g },
+  { syntax: 'single', pattern: /(?<!\{)\{([A-Za-z_]\w*)\}(?!\})/g },
+];
+
+/**
+ * Finds every variable placeholder in the prompt, in order of appearance.
+ */
+export const findVariableUses = (prompt: string): VariableUse[] =>
+  VARIABLE_PATTERNS
+    .flatMap(({ syntax, pattern }) =>
+      [...prompt.matchAll(pattern)].map((match) => ({
+        name: match[1],
+        syntax,
+        start: match.index!,
+        end: match.index! + match[0].length,
+        text: match[0],
+      }))
+    )
+    .sort((a, b) => a.start - b.start);
+
+// Distinct variable names in order of first appearance
+export const variableNames = (uses: VariableUse[]): string[] => [...new Set(uses.map((use) => use.name))];
+
+// Blank sample values count as not supplied
+const hasValue = (values: Record<string, string>, name: string) => Boolean(values[name]?.trim());
+
+/**
+ * Substitutes the supplied sample values; placeholders without a value are
+ * left as they are.
+ */
+export const renderVariables = (prompt: string, values: Record<string, string>): string => {
+  let rendered = '';
+  let offset = 0;
+  for (const use of findVariableUses(prompt)) {
+    if (!hasValue(values, use.name)) continue;
+    rendered += prompt.slice(offset, use.start) + values[use.name];
+    offset = use.end;
+  }
+  return rendered + prompt.slice(offset);
+};
+
+// customer_name, customerName and Customer-Name are likely meant to be one variable
+const canonicalName = (name: string) => name.toLowerCase().replace(/[_.-]/g, '');
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Checks the variables against the sample values and the prompt's examples:
+ * variables without a value, values for variables the prompt does not use,
+ * and variables written inconsistently (mixed syntax, near-duplicate names,
+ * or present in only some of the examples).
+ */
+export const checkVariables = (
+  prompt: string,
+  values: Record<string, string>,
+  examples: TextSpan[],
+): VariableWarning[] => {
+  const uses = findVariableUses(prompt);
+  const names = variableNames(uses);
+  const warnings: VariableWarning[] = [];
+
+  for (const name of names) {
+    if (!hasValue(values, name)) {
+      warnings.push({ kind: 'undefined', variable: name, message: `No sample value was given for "${name}".` });
+    }
+  }
+  for (const name of Object.keys(values)) {
+    if (hasValue(values, name) && !names.includes(name)) {
+      warnings.push({ kind: 'unused', variable: name, message: `"${name}" has a sample value but does not appear in the prompt.` });
+    }
+  }
+
+  for (const name of names) {
+    const syntaxes = new Set(uses.filter((use) => use.name === name).map((use) => use.syntax));
+    if (syntaxes.size > 1) {
+      warnings.push({ kind: 'inconsistent', variable: name, message: `"${name}" is written both as {{${name}}} and as {${name}}.` });
+    }
+  }
+
+  const seen = new Map<string, string>();
+  for (const name of names) {
+    const first = seen.get(canonicalName(name));
+    if (first) {
+      warnings.push({ kind: 'inconsistent', variable: name, message: `"${name}" looks like a different spelling of "${first}".` });
+    } else {
+      seen.set(canonicalName(name), name);
+    }
+  }
+
+  // Examples should be templated the same way: a variable in some examples
+  // but not others usually means one was filled in by hand
+  const perExample = examples.map((example) =>
+    new Set(uses.filter((use) => use.start >= example.start && use.end <= example.end).map((use) => use.name))
+  );
+  if (perExample.length > 1) {
+    for (const name of names) {
+      const count = perExample.filter((exampleNames) => exampleNames.has(name)).length;
+      if (count > 0 && count < perExample.length) {
+        warnings.push({
+          kind: 'inconsistent',
+          variable: name,
+          message: `"${name}" appears in ${count} of ${plural(perExample.length, 'example')}.`,
+        });
+      }
+    }
+  }
+
+  return warnings;
+};
@@ -0,0 +1,110 @@
+import { authenticateRequest, chargeQuota, type RequestGuardDeps } from "../_shared/auth.ts";
+import type { BatchItemResult } from "../_shared/batch.ts";
+import type { ResultCache } from "../_shared/cache.ts";
+import { mapWithConcurrency } from "../_shared/concurrency.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { AppError, errorResponse, toErrorBody } from "../_shared/errors.ts";
+import type { JudgeTemplate } from "../_shared/judge-template.ts";
+import type { LLMProvider } from "../_shared/llm/index.ts";
+import { batchItemSchema, batchRequestSchema, parseRequestBody } from "../_shared/requests.ts";
+import { findTechnique, type Technique } from "../_shared/techniques.ts";
+import { meteredLLM, type UsageRecorder } from "../_shared/usage.ts";
+import { evaluatePrompt, findSettledEvaluation } from "../evaluate-prompt/evaluate.ts";
+
+export interface EvaluateBatchDeps extends RequestGuardDeps {
+  getLLM: () => LLMProvider;
+  loadTechniques: () => Promise<Technique[]>;
+  // Active judge prompt template; the built-in one when absent
+  loadJudgeTemplate?: () => Promise<JudgeTemplate>;
+  concurrency: number;
+  cache?: ResultCache;
+  recordUsage?: UsageRecorder;
+}
+
+// An item that passed validation and needs the judge
+interface PendingItem {
+  index: number;
+  status: 'pending';
+  prompt: string;
+  technique: Technique;
+}
+
+export const handleEvaluateBatch = async (
+  req: Request,
+  deps: EvaluateBatchDeps,
+): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { loadTechniques, loadJudgeTemplate, concurrency, cache } = deps;
+
+  try {
+    // Authenticated before the body is validated; the quota is charged once
+    // the items needing the judge are known
+    const guard = await authenticateRequest(req, deps);
+    if ('rejection' in guard) return guard.rejection;
+
+    const { items } = await parseRequestBody(req, batchRequestSchema);
+    const getLLM = meteredLLM(deps.getLLM, deps.recordUsage, { userId: guard.user.id, functionName: 'evaluate-batch' });
+
+    const catalog = await loadTechniques();
+    const template = await loadJudgeTemplate?.();
+    console.log(`📦 Evaluating batch of ${items.length} prompts with concurrency ${concurrency}`);
+
+    // One provider serves the whole batch
+    let provider: LLMProvider | undefined;
+    const sharedLLM = () => (provider ??= getLLM());
+
+    // Invalid items, local verdicts and cache hits are settled without the
+    // judge; the rest are left pending. A failing item is reported in its
+    // slot rather than failing the batch.
+    const settled = await mapWithConcurrency(items, concurrency, async (item, index): Promise<BatchItemResult | PendingItem> => {
+      try {
+        const validation = batchItemSchema.safeParse(item);
+        if (!validation.success) {
+          throw new AppError('bad_request', validation.error.issues[0].message);
+        }
+        const { prompt, technique: techniqueId } = validation.data;
+        const technique = findTechnique(catalog, techniqueId);
+        if (!technique) {
+          throw new AppError('bad_request', `Unknown technique "${techniqueId}"`);
+        }
+
+        const evaluation = await findSettledEvaluation(prompt, technique, sharedLLM, { cache, template });
+        return evaluation ? { index, status: 'ok', evaluation } : { index, status: 'pending', prompt, technique };
+      } catch (error) {
+        console.error(`Error evaluating batch item ${index}:`, error);
+        return { index, status: 'error', error: toErrorBody(error) };
+      }
+    });
+
+    // Each judge call is charged as one unit
+    const units = settled.filter((result) => result.status === 'pending').length;
+    if (units > 0) {
+      const rejection = await chargeQuota(deps, guard.user, 'evaluate-batch', units);
+      if (rejection) return rejection;
+    }
+
+    const results = await mapWithConcurrency(settled, concurrency, async (result): Promise<BatchItemResult> => {
+      if (result.status !== 'pending') return result;
+      const { index, prompt, technique } = result;
+      try {
+        const evaluation = await evaluatePrompt(prompt, technique, catalog, sharedLLM, { cache, template });
+        return { index, status: 'ok', evaluation };
+      } catch (error) {
+        console.error(`Error evaluating batch item ${index}:`, error);
+        return { index, status: 'error', error: toErrorBody(error) };
+      }
+    });
+
+    return new Response(JSON.stringify({ results }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in evaluate-batch function:', error);
+    return errorResponse(error);
+  }
+};
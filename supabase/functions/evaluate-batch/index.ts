@@ -0,0 +1,16 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getProvider } from "../_shared/llm/index.ts";
+import { authenticateUser, createResultCache, loadJudgeTemplate, loadTechniqueCatalog, quotaLimiter, recordUsage } from "../_shared/supabase.ts";
+import { handleEvaluateBatch } from "./handler.ts";
+
+serve((req) => handleEvaluateBatch(req, {
+  getLLM: getProvider,
+  authenticate: authenticateUser,
+  quota: quotaLimiter,
+  recordUsage,
+  loadTechniques: loadTechniqueCatalog,
+  loadJudgeTemplate,
+  concurrency: Number(Deno.env.get('BATCH_CONCURRENCY') ?? 4),
+  cache: createResultCache(),
+}));
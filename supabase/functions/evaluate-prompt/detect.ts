@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { fenceUntrustedPrompt, findInjectionCues, JUDGE_SYSTEM_PROMPT } from "../_shared/injection.ts";
+import { cleanJsonResponse } from "../_shared/json.ts";
+import { generateStructured, type LLMProvider, type ResponseSchema } from "../_shared/llm/index.ts";
+import { locateSpan, type TextSpan } from "../_shared/spans.ts";
+import { describeCatalog, findTechnique, type Technique } from "../_shared/techniques.ts";
+
+export interface TechniqueDetection {
+  technique: string;
+  label: string;
+  confidence: number;
+  spans: TextSpan[];
+}
+
+export interface DetectionResult {
+  detections: TechniqueDetection[];
+  // Set when the prompt contains text aimed at the evaluator, found locally
+  // or reported by the model
+  injectionSuspected?: boolean;
+}
+
+// Techniques outside the catalog are dropped rather than failing the
+// detection; the others need a confidence and their evidence quotes
+const detectionResponseSchema = z.object({
+  detections: z.array(z.object({
+    technique: z.string(),
+    confidence: z.number(),
+    evidence: z.array(z.string()).default([]),
+  })),
+  injectionSuspected: z.boolean().optional(),
+});
+
+type DetectionResponse = z.infer<typeof detectionResponseSchema>;
+
+const detectionJsonSchema = (catalog: Technique[]): ResponseSchema => ({
+  name: 'technique_detections',
+  schema: {
+    type: 'object',
+    properties: {
+      detections: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            technique: { type: 'string', enum: catalog.map((technique) => technique.id) },
+            confidence: { type: 'number', description: 'From 0 to 1' },
+            evidence: { type: 'array', items: { type: 'string', description: 'Exact text copied from the prompt' } },
+          },
+          required: ['technique', 'confidence', 'evidence'],
+        },
+      },
+      injectionSuspected: { type: 'boolean' },
+    },
+    required: ['detections'],
+  },
+});
+
+export const buildDetectionPrompt = (prompt: string, catalog: Technique[]) => `You are an expert in prompt engineering and AI prompting techniques. Your task is to identify which prompting techniques a given prompt actually uses.
+
+Prompting Techniques:
+${describeCatalog(catalog)}
+
+Identify every technique from the list above that the prompt uses. For each one, give a confidence between 0 and 1 and quote the exact text from the prompt that shows the technique is used. Quotes must be copied verbatim from the prompt.
+
+PROMPT TO ANALYZE:
+${fenceUntrustedPrompt(prompt)}
+
+Please provide your analysis in the following JSON format (return ONLY the JSON, no other text):
+{
+  "detections": [
+    {
+      "technique": "technique id from the list, e.g. ${catalog[0]?.id ?? 'few-shot'}",
+      "confidence": 0.0 to 1.0,
+      "evidence": ["exact quote from the prompt"]
+    }
+  ]
+}`;
+
+// Throws a description of the problem, which is quoted back to the model
+// when the response is repaired
+const parseDetectionResponse = (text: string): DetectionResponse => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(cleanJsonResponse(text));
+  } catch (parseError) {
+    throw new Error(`Detection response is not valid JSON (${parseError instanceof Error ? parseError.message : parseError})`);
+  }
+  const validation = detectionResponseSchema.safeParse(raw);
+  if (!validation.success) {
+    const issues = validation.error.issues
+      .map((issue) => `${issue.path.join('.') || 'result'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Detection response failed validation (${issues})`);
+  }
+  return validation.data;
+};
+
+/**
+ * Converts the model's detections into a ranked list restricted to catalog
+ * techniques, with evidence quotes resolved to character offsets.
+ */
+const toDetections = (response: DetectionResponse, prompt: string, catalog: Technique[]): TechniqueDetection[] => {
+  const detections = new Map<string, TechniqueDetection>();
+  for (const entry of response.detections) {
+    const technique = findTechnique(catalog, entry.technique);
+    if (!technique) continue;
+
+    const spans = entry.evidence
+      .map((quote) => locateSpan(prompt, quote))
+      .filter((span): span is TextSpan => span !== null);
+    const confidence = Math.min(1, Math.max(0, entry.confidence));
+
+    const existing = detections.get(technique.id);
+    if (!existing || existing.confidence < confidence) {
+      detections.set(technique.id, { technique: technique.id, label: technique.label, confidence, spans });
+    }
+  }
+
+  return [...detections.values()].sort((a, b) => b.confidence - a.confidence);
+};
+
+/**
+ * Asks the model which catalog techniques the prompt uses. The prompt is
+ * fenced and sent under the judge system prompt, like an evaluation, so text
+ * in it cannot redirect the detection. Unusable responses are repaired and
+ * fail with parse_failed.
+ */
+export const detectTechniques = async (prompt: string, catalog: Technique[], provider: LLMProvider): Promise<DetectionResult> => {
+  const response = await generateStructured(
+    provider,
+    {
+      prompt: buildDetectionPrompt(prompt, catalog),
+      system: JUDGE_SYSTEM_PROMPT,
+      temperature: 0.2,
+      maxOutputTokens: 800,
+      schema: detectionJsonSchema(catalog),
+    },
+    parseDetectionResponse,
+  );
+  const detections = toDetections(response, prompt, catalog);
+
+  const injectionSuspected = findInjectionCues(prompt).length > 0 || response.injectionSuspected === true;
+  return { detections, ...(injectionSuspected && { injectionSuspected }) };
+};
@@ -0,0 +1,83 @@
+import type { CriterionScore, EvaluationResult } from "../_shared/evaluation.ts";
+
+// Self-consistency aggregation: several judge samples of the same prompt are
+// combined into one evaluation whose verdict and score vary less between runs.
+
+export interface JudgeSample {
+  provider: string;
+  evaluation: EvaluationResult;
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const variance = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+};
+
+const closestTo = <T>(items: T[], target: number, valueOf: (item: T) => number): T =>
+  items.reduce((best, item) => (Math.abs(valueOf(item) - target) < Math.abs(valueOf(best) - target) ? item : best));
+
+// Median score per criterion, keeping the comment of the sample nearest to it
+const aggregateCriteria = (samples: JudgeSample[]): CriterionScore[] => {
+  const byCriterion = new Map<string, CriterionScore[]>();
+  samples.flatMap((sample) => sample.evaluation.criteria).forEach((criterion) => {
+    byCriterion.set(criterion.criterion, [...(byCriterion.get(criterion.criterion) ?? []), criterion]);
+  });
+
+  return [...byCriterion.values()].map((scores) => {
+    const score = round(median(scores.map((criterion) => criterion.score)), 1);
+    const nearest = closestTo(scores, score, (criterion) => criterion.score);
+    return { criterion: nearest.criterion, score, comment: nearest.comment };
+  });
+};
+
+/**
+ * Combines judge samples: the verdict by majority vote, the score by median.
+ * The rationale and annotations come from the majority sample whose score is
+ * nearest the median; confidence is the mean sample confidence scaled by the
+ * agreement level. `failed` counts samples that produced no evaluation.
+ */
+export const aggregateEvaluations = (samples: JudgeSample[], failed = 0): EvaluationResult => {
+  if (samples.length === 0) {
+    throw new Error('Every ensemble sample failed');
+  }
+
+  const scores = samples.map((sample) => sample.evaluation.score);
+  const score = round(median(scores), 1);
+  const matches = samples.filter((sample) => sample.evaluation.match).length;
+  const mismatches = samples.length - matches;
+
+  // A tied vote goes to the sample nearest the median score
+  const match = matches === mismatches
+    ? closestTo(samples, score, (sample) => sample.evaluation.score).evaluation.match
+    : matches > mismatches;
+  const agreement = Math.max(matches, mismatches) / samples.length;
+
+  const majority = samples.filter((sample) => sample.evaluation.match === match);
+  const representative = closestTo(majority, score, (sample) => sample.evaluation.score).evaluation;
+  const meanConfidence = samples.reduce((sum, sample) => sum + sample.evaluation.confidence, 0) / samples.length;
+
+  return {
+    match,
+    score,
+    exampleCount: Math.round(median(samples.map((sample) => sample.evaluation.exampleCount))),
+    confidence: round(meanConfidence * agreement),
+    criteria: aggregateCriteria(samples),
+    annotations: representative.annotations,
+    rationale: representative.rationale,
+    ...(samples.some((sample) => sample.evaluation.injectionSuspected) && { injectionSuspected: true }),
+    ensemble: {
+      samples: samples.map(({ provider, evaluation }) => ({ provider, match: evaluation.match, score: evaluation.score })),
+      failed,
+      agreement: round(agreement),
+      scoreVariance: round(variance(scores)),
+    },
+  };
+};
@@ -0,0 +1,362 @@
+import { z } from "zod";
+import { cacheKey, normalizePromptText, type ResultCache } from "../_shared/cache.ts";
+import {
+  ANNOTATION_KINDS,
+  RUBRIC_CRITERIA,
+  RUBRIC_VERSION,
+  ensembleSummarySchema,
+  evaluationResultSchema,
+  type EvaluationResult,
+  type EvaluationStreamEvent,
+  type PromptAnnotation,
+} from "../_shared/evaluation.ts";
+import { AppError, toErrorBody, type ErrorBody } from "../_shared/errors.ts";
+import { analyzePrompt, assessTechnique, describeFacts, type HeuristicVerdict, type PromptFacts } from "../_shared/heuristics.ts";
+import { fenceUntrustedPrompt, JUDGE_SYSTEM_PROMPT } from "../_shared/injection.ts";
+import {
+  BUILTIN_TEMPLATE_VERSION,
+  DEFAULT_JUDGE_TEMPLATE,
+  renderJudgeTemplate,
+  type JudgeTemplate,
+} from "../_shared/judge-template.ts";
+import { generateStructured, repairStructured, type LLMProvider, type LLMRequest } from "../_shared/llm/index.ts";
+import { locateSpan } from "../_shared/spans.ts";
+import { describeCatalog, type Technique } from "../_shared/techniques.ts";
+import { aggregateEvaluations, type JudgeSample } from "./ensemble.ts";
+import { JUDGE_RESPONSE_SCHEMA, parseEvaluation } from "./parse.ts";
+import { createEvaluationStreamParser } from "./stream.ts";
+
+// Long analyses with per-criterion comments and annotations need room
+const JUDGE_MAX_OUTPUT_TOKENS = 4096;
+
+const JUDGE_TEMPERATURE = 0.3;
+// Ensemble samples need diversity for the vote to reduce variance
+const ENSEMBLE_TEMPERATURE = 0.7;
+
+// Score and confidence reported when local analysis settles the verdict
+const HEURISTIC_SCORE = 2;
+const HEURISTIC_CONFIDENCE = 0.95;
+
+// Every judge call asks for the same schema under the same system prompt
+const judgeRequest = (judgePrompt: string, temperature: number, signal?: AbortSignal): LLMRequest => ({
+  prompt: judgePrompt,
+  system: JUDGE_SYSTEM_PROMPT,
+  temperature,
+  maxOutputTokens: JUDGE_MAX_OUTPUT_TOKENS,
+  schema: JUDGE_RESPONSE_SCHEMA,
+  signal,
+});
+
+const heuristicEvaluation = (facts: PromptFacts, verdict: HeuristicVerdict): EvaluationResult => ({
+  match: false,
+  score: HEURISTIC_SCORE,
+  exampleCount: facts.exampleCount,
+  confidence: HEURISTIC_CONFIDENCE,
+  criteria: verdict.criterion ? [{ criterion: verdict.criterion, score: 0, comment: verdict.reasons.join(' ') }] : [],
+  annotations: [
+    ...facts.examples.map((span) => ({ kind: 'example' as const, ...span, note: 'Example detected by local analysis.' })),
+    ...facts.reasoningCues.map((span) => ({ kind: 'reasoning_cue' as const, ...span, note: 'Reasoning cue detected by local analysis.' })),
+  ].sort((a, b) => a.start - b.start),
+  rationale: `${verdict.reasons.join(' ')} This verdict comes from local analysis, so no model call was made.`,
+  source: 'heuristic',
+  // No judge saw the prompt, but the cues are worth flagging all the same
+  ...(facts.injectionCues.length > 0 && { injectionSuspected: true }),
+});
+
+/**
+ * Cross-checks the judge against local analysis. Conclusive facts never reach
+ * the judge, so this checks the ones that only lean against a match. On their
+ * own they are not enough to overrule the judge, which may see examples the
+ * heuristics miss. When the prompt also addresses the evaluator (injection
+ * cues include attempts to close its fence), a verdict that contradicts them
+ * has most likely been steered by the prompt: a match, or an example count
+ * other than the one found, is replaced with the local verdict. Any other
+ * verdict on such a prompt is kept and marked as suspected injection.
+ */
+const crossCheckVerdict = (evaluation: EvaluationResult, facts: PromptFacts, verdict: HeuristicVerdict): EvaluationResult => {
+  if (facts.injectionCues.length === 0) {
+    return evaluation;
+  }
+  const contradictsFacts = verdict.match === false &&
+    (evaluation.match || (verdict.criterion === 'example_count' && evaluation.exampleCount !== facts.exampleCount));
+  if (contradictsFacts) {
+    return {
+      ...heuristicEvaluation(facts, verdict),
+      rationale: `${verdict.reasons.join(' ')} The prompt addresses the evaluator and the judge's verdict contradicted these facts, so it was discarded.`,
+    };
+  }
+  return { ...evaluation, injectionSuspected: true };
+};
+
+// Judge results record the stored template version they were produced with;
+// the built-in template has no row to point to
+const withTemplateVersion = (evaluation: EvaluationResult, template: JudgeTemplate): EvaluationResult =>
+  template.version === BUILTIN_TEMPLATE_VERSION ? evaluation : { ...evaluation, templateVersion: template.version };
+
+export interface EnsembleOptions {
+  samples: number;
+  // Sample i is judged by providers[i % providers.length]. Called only when
+  // a model call is needed, like getLLM.
+  getProviders: () => LLMProvider[];
+}
+
+export interface EvaluateOptions {
+  cache?: ResultCache;
+  // Skip the lookup and overwrite the cached entry with a fresh evaluation
+  force?: boolean;
+  // Sample the judge several times and aggregate instead of a single call
+  ensemble?: EnsembleOptions;
+  // Judge prompt template; defaults to the built-in version
+  template?: JudgeTemplate;
+  // Facts for prompts that are not plain text, such as chat transcripts whose
+  // examples are counted from the turns; defaults to analyzing the prompt
+  facts?: PromptFacts;
+  // Aborting cancels the judge calls of evaluatePrompt
+  signal?: AbortSignal;
+}
+
+const describeModels = (providers: LLMProvider[]) =>
+  providers.map((provider) => `${provider.name}/${provider.model}`).join('+');
+
+const evaluationCacheKey = (
+  prompt: string,
+  technique: Technique,
+  providers: LLMProvider[],
+  template: JudgeTemplate,
+  ensemble?: EnsembleOptions,
+) =>
+  cacheKey(
+    'evaluate-prompt',
+    RUBRIC_VERSION,
+    `template:${template.version}`,
+    describeModels(providers),
+    technique.id,
+    normalizePromptText(prompt),
+    ...(ensemble ? [`ensemble:${ensemble.samples}`] : []),
+  );
+
+const cachedEvaluationSchema = evaluationResultSchema.extend({
+  ensemble: ensembleSummarySchema.optional(),
+  templateVersion: z.number().int().optional(),
+});
+
+// Cached offsets point into the prompt that filled the cache, which may differ
+// from this one in whitespace. Each annotation is looked up again in order, so
+// repeated quotes keep mapping to successive occurrences; ones that no longer
+// appear are dropped.
+const relocateAnnotations = (annotations: PromptAnnotation[], prompt: string): PromptAnnotation[] => {
+  const nextFrom = new Map<string, number>();
+  return annotations.flatMap((annotation) => {
+    const key = annotation.text.trim().toLowerCase();
+    const span = locateSpan(prompt, annotation.text, nextFrom.get(key) ?? 0);
+    if (!span) return [];
+    nextFrom.set(key, span.end);
+    return [{ ...annotation, ...span }];
+  });
+};
+
+// Entries written under an older result shape fail validation and count as misses
+const readCachedEvaluation = async (cache: ResultCache, key: string, prompt: string): Promise<EvaluationResult | null> => {
+  const parsed = cachedEvaluationSchema.safeParse(await cache.get(key));
+  if (!parsed.success) return null;
+  const evaluation = parsed.data as EvaluationResult;
+  return { ...evaluation, annotations: relocateAnnotations(evaluation.annotations, prompt), cached: true };
+};
+
+type SampleOutcome = { index: number; provider: string } & ({ evaluation: EvaluationResult } | { failure: ErrorBody });
+
+/**
+ * Judges the prompt once per ensemble sample, in parallel, yielding a
+ * `sample` event as each completes. Returns the aggregated evaluation; failed
+ * samples are counted but only fail the run when none succeed.
+ */
+async function* runEnsemble(
+  prompt: string,
+  judgePrompt: string,
+  samples: number,
+  providers: LLMProvider[],
+  signal?: AbortSignal,
+): AsyncGenerator<EvaluationStreamEvent, EvaluationResult> {
+  const judge = async (index: number): Promise<SampleOutcome> => {
+    const provider = providers[index % providers.length];
+    const name = `${provider.name}/${provider.model}`;
+    try {
+      const evaluation = await generateStructured(
+        provider,
+        judgeRequest(judgePrompt, ENSEMBLE_TEMPERATURE, signal),
+        (text) => parseEvaluation(text, prompt),
+      );
+      return { index, provider: name, evaluation };
+    } catch (error) {
+      console.error(`Ensemble sample ${index} from ${name} failed:`, error);
+      return { index, provider: name, failure: toErrorBody(error) };
+    }
+  };
+
+  const pending = new Map(Array.from({ length: samples }, (_, index) => [index, judge(index)]));
+  const completed: JudgeSample[] = [];
+  let lastFailure: ErrorBody | undefined;
+
+  while (pending.size > 0) {
+    const outcome = await Promise.race(pending.values());
+    pending.delete(outcome.index);
+
+    if ('evaluation' in outcome) {
+      const { provider, evaluation } = outcome;
+      completed.push({ provider, evaluation });
+      yield { event: 'sample', data: { index: outcome.index, provider, match: evaluation.match, score: evaluation.score } };
+    } else {
+      lastFailure = outcome.failure;
+      yield { event: 'sample', data: { index: outcome.index, provider: outcome.provider, error: outcome.failure.error } };
+    }
+  }
+
+  // Reported under the code of the last failure, e.g. upstream_rate_limited
+  if (completed.length === 0) {
+    throw new AppError(lastFailure!.code, `Every ensemble sample failed: ${lastFailure!.error}`, lastFailure!.retryAfter);
+  }
+  return aggregateEvaluations(completed, samples - completed.length);
+}
+
+const buildJudgePrompt = (template: JudgeTemplate, prompt: string, technique: Technique, catalog: Technique[], facts: PromptFacts) =>
+  renderJudgeTemplate(template.template, {
+    catalog: describeCatalog(catalog),
+    technique_label: technique.label,
+    detection_criteria: technique.detectionCriteria,
+    scoring_rubric: technique.scoringRubric,
+    rubric_criteria: RUBRIC_CRITERIA.map((criterion) => `- ${criterion.id}: ${criterion.description}`).join('\n'),
+    annotation_kinds: ANNOTATION_KINDS.map((kind) => `- ${kind.id}: ${kind.description}`).join('\n'),
+    facts: describeFacts(facts),
+    // Delimited here rather than in the template so every version is covered
+    prompt: fenceUntrustedPrompt(prompt),
+  });
+
+/**
+ * The evaluation evaluatePrompt would return without calling the judge: the
+ * local verdict on an obvious mismatch or a cached result. Null when the
+ * judge has to be asked, so callers can charge for the call beforehand.
+ */
+export const findSettledEvaluation = async (
+  prompt: string,
+  technique: Technique,
+  getLLM: () => LLMProvider,
+  { cache, force = false, ensemble, template = DEFAULT_JUDGE_TEMPLATE, facts = analyzePrompt(prompt) }: EvaluateOptions = {},
+): Promise<EvaluationResult | null> => {
+  const verdict = assessTechnique(facts, technique.id);
+  if (verdict.conclusive) {
+    return heuristicEvaluation(facts, verdict);
+  }
+  if (!cache || force) {
+    return null;
+  }
+  const providers = ensemble ? ensemble.getProviders() : [getLLM()];
+  return await readCachedEvaluation(cache, await evaluationCacheKey(prompt, technique, providers, template, ensemble), prompt);
+};
+
+/**
+ * Evaluates one prompt against a catalog technique. Obvious mismatches are
+ * settled by local analysis; otherwise the judge model is asked, grounded in
+ * the same facts. The provider is only created when a model call is needed.
+ * Judge results record the template version they were produced with and are
+ * cached per normalized prompt, technique, rubric and template version and
+ * model unless `force` is set.
+ */
+export const evaluatePrompt = async (
+  prompt: string,
+  technique: Technique,
+  catalog: Technique[],
+  getLLM: () => LLMProvider,
+  { cache, force = false, ensemble, template = DEFAULT_JUDGE_TEMPLATE, facts = analyzePrompt(prompt), signal }: EvaluateOptions = {},
+): Promise<EvaluationResult> => {
+  // Settle obvious mismatches locally instead of paying for a model call
+  const verdict = assessTechnique(facts, technique.id);
+  if (verdict.conclusive) {
+    return heuristicEvaluation(facts, verdict);
+  }
+
+  const providers = ensemble ? ensemble.getProviders() : [getLLM()];
+  const key = await evaluationCacheKey(prompt, technique, providers, template, ensemble);
+  const cached = cache && !force ? await readCachedEvaluation(cache, key, prompt) : null;
+  if (cached) {
+    return cached;
+  }
+
+  const judgePrompt = buildJudgePrompt(template, prompt, technique, catalog, facts);
+  let evaluation: EvaluationResult;
+  if (ensemble) {
+    const run = runEnsemble(prompt, judgePrompt, ensemble.samples, providers, signal);
+    let step = await run.next();
+    while (!step.done) step = await run.next();
+    evaluation = withTemplateVersion(step.value, template);
+  } else {
+    const parsed = await generateStructured(
+      providers[0],
+      judgeRequest(judgePrompt, JUDGE_TEMPERATURE, signal),
+      (text) => parseEvaluation(text, prompt),
+    );
+    evaluation = withTemplateVersion(parsed, template);
+  }
+
+  evaluation = crossCheckVerdict(evaluation, facts, verdict);
+  await cache?.set(key, evaluation);
+  return evaluation;
+};
+
+// Emits a finished evaluation as the same event sequence a live judge produces
+function* replayEvaluation(evaluation: EvaluationResult): Generator<EvaluationStreamEvent> {
+  yield { event: 'verdict', data: { match: evaluation.match } };
+  yield { event: 'score', data: { score: evaluation.score } };
+  yield { event: 'reasoning', data: { delta: evaluation.rationale } };
+  yield { event: 'result', data: evaluation };
+}
+
+/**
+ * Streaming counterpart of evaluatePrompt. Yields the verdict, score and
+ * rationale as the judge produces them and finishes with the validated
+ * result. Aborting `signal` cancels the upstream model call.
+ */
+export async function* streamEvaluation(
+  prompt: string,
+  technique: Technique,
+  catalog: Technique[],
+  getLLM: () => LLMProvider,
+  signal?: AbortSignal,
+  { cache, force = false, ensemble, template = DEFAULT_JUDGE_TEMPLATE, facts = analyzePrompt(prompt) }: EvaluateOptions = {},
+): AsyncGenerator<EvaluationStreamEvent> {
+  const verdict = assessTechnique(facts, technique.id);
+  if (verdict.conclusive) {
+    yield* replayEvaluation(heuristicEvaluation(facts, verdict));
+    return;
+  }
+
+  const providers = ensemble ? ensemble.getProviders() : [getLLM()];
+  const key = await evaluationCacheKey(prompt, technique, providers, template, ensemble);
+  const cached = cache && !force ? await readCachedEvaluation(cache, key, prompt) : null;
+  if (cached) {
+    yield* replayEvaluation(cached);
+    return;
+  }
+
+  const judgePrompt = buildJudgePrompt(template, prompt, technique, catalog, facts);
+  if (ensemble) {
+    // Samples are not streamed token by token; each reports when it completes
+    const aggregated: EvaluationResult = yield* runEnsemble(prompt, judgePrompt, ensemble.samples, providers, signal);
+    const evaluation = crossCheckVerdict(withTemplateVersion(aggregated, template), facts, verdict);
+    await cache?.set(key, evaluation);
+    yield* replayEvaluation(evaluation);
+    return;
+  }
+
+  const parser = createEvaluationStreamParser();
+  const request = judgeRequest(judgePrompt, JUDGE_TEMPERATURE, signal);
+  for await (const chunk of providers[0].stream(request)) {
+    yield* parser.push(chunk);
+  }
+
+  // An invalid streamed answer is repaired without streaming; the result
+  // event carries the corrected evaluation
+  const parsed = await repairStructured(providers[0], request, parser.text, (text) => parseEvaluation(text, prompt));
+  const evaluation = crossCheckVerdict(withTemplateVersion(parsed, template), facts, verdict);
+  await cache?.set(key, evaluation);
+  yield { event: 'result', data: evaluation };
+}
@@ -0,0 +1,184 @@
+import { authenticateRequest, chargeQuota, type RequestGuardDeps } from "../_shared/auth.ts";
+import type { ResultCache } from "../_shared/cache.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { badRequest, errorResponse, toErrorBody } from "../_shared/errors.ts";
+import type { JudgeTemplate } from "../_shared/judge-template.ts";
+import { formatSseEvent } from "../_shared/sse.ts";
+import type { LLMProvider } from "../_shared/llm/index.ts";
+import { analyzeMessages } from "../_shared/messages.ts";
+import { evaluationRequestSchema, parseRequestBody } from "../_shared/requests.ts";
+import { findTechnique, type Technique } from "../_shared/techniques.ts";
+import { meteredLLM, type UsageRecorder } from "../_shared/usage.ts";
+import { detectTechniques } from "./detect.ts";
+import { evaluatePrompt, findSettledEvaluation, streamEvaluation, type EnsembleOptions } from "./evaluate.ts";
+import { checkPromptVariables, needsVariableCheck, renderSampleValues, withVariableCheck } from "./variables.ts";
+
+export interface EvaluatePromptDeps extends RequestGuardDeps {
+  getLLM: () => LLMProvider;
+  loadTechniques: () => Promise<Technique[]>;
+  // Active judge prompt template; the built-in one when absent
+  loadJudgeTemplate?: () => Promise<JudgeTemplate>;
+  cache?: ResultCache;
+  recordUsage?: UsageRecorder;
+  // Providers configured for cross-provider ensembles
+  getProviderPool?: () => LLMProvider[];
+}
+
+// Streams the evaluation as server-sent events. Closing the connection
+// cancels the body, which aborts the upstream model call.
+const streamResponse = (
+  req: Request,
+  startEvents: (signal: AbortSignal) => AsyncGenerator<{ event: string; data: unknown }>,
+): Response => {
+  const upstream = new AbortController();
+  req.signal?.addEventListener('abort', () => upstream.abort());
+
+  const events = startEvents(upstream.signal);
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await events.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(formatSseEvent(value.event, value.data)));
+      } catch (error) {
+        if (upstream.signal.aborted) return;
+        console.error('Error streaming evaluate-prompt response:', error);
+        controller.enqueue(encoder.encode(formatSseEvent('error', toErrorBody(error))));
+        controller.close();
+      }
+    },
+    async cancel() {
+      console.log('🛑 Client cancelled the evaluation stream');
+      upstream.abort();
+      await events.return(undefined);
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+};
+
+export const handleEvaluatePrompt = async (
+  req: Request,
+  deps: EvaluatePromptDeps,
+): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { loadTechniques, loadJudgeTemplate, cache } = deps;
+
+  try {
+    // Authenticated before the body is validated, so anonymous callers learn
+    // nothing about the request shape. The quota is charged once the cost is
+    // known, after the technique lookup.
+    const guard = await authenticateRequest(req, deps);
+    if ('rejection' in guard) return guard.rejection;
+
+    const {
+      mode,
+      prompt: promptText,
+      messages,
+      selectedTechnique,
+      stream,
+      force,
+      ensemble,
+      variables,
+    } = await parseRequestBody(req, evaluationRequestSchema);
+
+    // Chat prompts are judged as a transcript, with examples counted from the turns
+    const chat = messages ? analyzeMessages(messages) : undefined;
+    const prompt = chat?.prompt ?? promptText!;
+    const samples = ensemble ? ensemble.samples : 1;
+    const sampleValues = mode === 'evaluate' && needsVariableCheck(prompt, variables) ? variables : undefined;
+
+    const usageContext = { userId: guard.user.id, functionName: 'evaluate-prompt' };
+    const getLLM = meteredLLM(deps.getLLM, deps.recordUsage, usageContext);
+
+    const catalog = await loadTechniques();
+
+    if (mode === 'detect') {
+      const rejection = await chargeQuota(deps, guard.user, 'evaluate-prompt', 1);
+      if (rejection) return rejection;
+      const detection = await detectTechniques(prompt, catalog, getLLM());
+
+      return new Response(JSON.stringify({ mode, ...detection }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const technique = findTechnique(catalog, selectedTechnique!);
+    if (!technique) {
+      return badRequest(`Unknown technique "${selectedTechnique}"`, { selectedTechnique: ['Select a technique from the catalog'] });
+    }
+
+    // Cross-provider ensembles fall back to the default provider when no pool is configured
+    const ensembleOptions: EnsembleOptions | undefined = ensemble && {
+      samples,
+      getProviders: () => {
+        const pool = ensemble.crossProvider ? deps.getProviderPool?.() ?? [] : [];
+        return pool.length > 0
+          ? pool.map((provider) => meteredLLM(() => provider, deps.recordUsage, usageContext)())
+          : [getLLM()];
+      },
+    };
+    const template = await loadJudgeTemplate?.();
+    const options = { cache, force, ensemble: ensembleOptions, template, facts: chat?.facts };
+
+    // Every ensemble sample is a model call and is charged as one. Prompts
+    // settled by local analysis or found in the cache are free, and the
+    // rendered prompt counts as a second prompt when sample values are checked.
+    const rendered = sampleValues && renderSampleValues(prompt, sampleValues, messages);
+    const settled = await Promise.all([
+      findSettledEvaluation(prompt, technique, getLLM, options),
+      ...(rendered ? [findSettledEvaluation(rendered.prompt, technique, getLLM, { ...options, facts: rendered.facts })] : []),
+    ]);
+    const units = samples * settled.filter((evaluation) => !evaluation).length;
+    if (units > 0) {
+      const rejection = await chargeQuota(deps, guard.user, 'evaluate-prompt', units);
+      if (rejection) return rejection;
+    }
+
+    // Judged alongside the template rather than after it, and cancelled with
+    // the stream when one is given
+    const startVariableCheck = (signal?: AbortSignal) => {
+      if (!sampleValues) return undefined;
+      const check = checkPromptVariables(
+        prompt,
+        sampleValues,
+        (rendered, facts) => evaluatePrompt(rendered, technique, catalog, getLLM, { ...options, facts, signal }),
+        messages,
+      );
+      // Awaited later; this only stops an early failure counting as unhandled
+      check.catch(() => {});
+      return check;
+    };
+
+    if (stream) {
+      return streamResponse(req, (signal) => {
+        const variableCheck = startVariableCheck(signal);
+        const events = streamEvaluation(prompt, technique, catalog, getLLM, signal, options);
+        return variableCheck ? withVariableCheck(events, variableCheck) : events;
+      });
+    }
+
+    const variableCheck = startVariableCheck();
+    const evaluation = await evaluatePrompt(prompt, technique, catalog, getLLM, options);
+    const result = variableCheck ? { ...evaluation, variables: await variableCheck } : evaluation;
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in evaluate-prompt function:', error);
+    return errorResponse(error);
+  }
+};
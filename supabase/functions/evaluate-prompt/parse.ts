@@ -0,0 +1,143 @@
+import { cleanJsonResponse } from "../_shared/json.ts";
+import { ANNOTATION_KINDS, evaluationResultSchema, RUBRIC_CRITERIA, type EvaluationResult } from "../_shared/evaluation.ts";
+import type { ResponseSchema } from "../_shared/llm/index.ts";
+import { locateSpan } from "../_shared/spans.ts";
+
+// Response shape the judge template asks for. Annotations quote the prompt;
+// offsets are resolved by parseEvaluation.
+export const JUDGE_RESPONSE_SCHEMA: ResponseSchema = {
+  name: 'prompt_evaluation',
+  schema: {
+    type: 'object',
+    properties: {
+      match: { type: 'boolean' },
+      score: { type: 'number', description: 'From 0 to 10' },
+      exampleCount: { type: 'integer' },
+      confidence: { type: 'number', description: 'From 0 to 1' },
+      criteria: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            criterion: { type: 'string', enum: RUBRIC_CRITERIA.map((criterion) => criterion.id) },
+            score: { type: 'number', description: 'From 0 to 10' },
+            comment: { type: 'string' },
+          },
+          required: ['criterion', 'score', 'comment'],
+        },
+      },
+      annotations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            kind: { type: 'string', enum: ANNOTATION_KINDS.map((kind) => kind.id) },
+            quote: { type: 'string', description: 'Exact text copied from the prompt' },
+            note: { type: 'string' },
+          },
+          required: ['kind', 'quote', 'note'],
+        },
+      },
+      injectionSuspected: { type: 'boolean' },
+      rationale: { type: 'string' },
+    },
+    required: ['match', 'score', 'exampleCount', 'confidence', 'criteria', 'annotations', 'rationale'],
+  },
+};
+
+const toMatch = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  const text = String(value ?? '').trim().toLowerCase();
+  if (['yes', 'true'].includes(text)) return true;
+  if (['no', 'false', 'partially'].includes(text)) return false;
+  return undefined;
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value;
+  const parsed = parseFloat(String(value ?? ''));
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const toConfidence = (value: unknown): number | undefined => {
+  const confidence = toNumber(value);
+  // Some models answer with a percentage despite being asked for 0-1
+  return confidence !== undefined && confidence > 1 && confidence <= 100 ? confidence / 100 : confidence;
+};
+
+// Keeps one entry per known criterion, in rubric order. Unknown criteria are
+// dropped rather than failing the whole evaluation.
+const toCriteria = (value: unknown): Record<string, unknown>[] => {
+  if (!Array.isArray(value)) return [];
+  return RUBRIC_CRITERIA.flatMap(({ id }) => {
+    const entry = value.find((item) => item?.criterion === id);
+    return entry ? [{ criterion: id, score: toNumber(entry.score), comment: String(entry.comment ?? '') }] : [];
+  });
+};
+
+// The judge quotes each annotated region; offsets are resolved here rather
+// than trusted from the model. Repeated quotes map to successive occurrences
+// and quotes that cannot be found in the prompt are dropped.
+const toAnnotations = (value: unknown, prompt: string): Record<string, unknown>[] => {
+  if (!Array.isArray(value)) return [];
+  const kinds: string[] = ANNOTATION_KINDS.map((kind) => kind.id);
+  const nextFrom = new Map<string, number>();
+
+  return value.flatMap((entry) => {
+    const quote = String(entry?.quote ?? entry?.text ?? '');
+    if (!kinds.includes(entry?.kind)) return [];
+
+    const key = quote.trim().toLowerCase();
+    const span = locateSpan(prompt, quote, nextFrom.get(key) ?? 0);
+    if (!span) return [];
+    nextFrom.set(key, span.end);
+
+    return [{ kind: entry.kind, ...span, note: String(entry.note ?? '') }];
+  }).sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Maps loosely shaped model output (legacy "Yes"/"7/10" strings, snake_case
+ * keys, percentages) onto the strict evaluation shape before validation.
+ */
+const coerceEvaluation = (raw: Record<string, unknown>, prompt: string): Record<string, unknown> => {
+  return {
+    match: toMatch(raw.match),
+    score: toNumber(raw.score ?? raw.rating),
+    // Required: a response without it is repaired, not guessed from the rationale
+    exampleCount: toNumber(raw.exampleCount ?? raw.example_count),
+    confidence: toConfidence(raw.confidence),
+    criteria: toCriteria(raw.criteria),
+    annotations: toAnnotations(raw.annotations, prompt),
+    rationale: raw.rationale ?? raw.reason,
+    // Only a positive report is kept; the judge cannot clear local suspicion
+    ...(raw.injectionSuspected === true && { injectionSuspected: true }),
+  };
+};
+
+/**
+ * Parses the judge's response into a validated EvaluationResult. The
+ * evaluated prompt is needed to resolve annotation quotes to offsets. Throws
+ * when the response is not a JSON object or does not satisfy the schema; the
+ * message is quoted back to the model when the response is repaired.
+ */
+export const parseEvaluation = (result: string, prompt: string): EvaluationResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(cleanJsonResponse(result));
+  } catch (parseError) {
+    throw new Error(`Evaluation response is not valid JSON (${parseError instanceof Error ? parseError.message : parseError})`);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Evaluation response is not a JSON object');
+  }
+
+  const validation = evaluationResultSchema.safeParse(coerceEvaluation(raw as Record<string, unknown>, prompt));
+  if (!validation.success) {
+    const issues = validation.error.issues
+      .map((issue) => `${issue.path.join('.') || 'result'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Evaluation response failed validation (${issues})`);
+  }
+  return validation.data;
+};
@@ -0,0 +1,91 @@
+import type { EvaluationStreamEvent } from "../_shared/evaluation.ts";
+
+const ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t',
+};
+
+/**
+ * Watches the judge's JSON as it streams in and reports the verdict, the
+ * score and the rationale text before the document is complete. The judge
+ * prompt and response schema list "match" and "score" first and "rationale"
+ * last, so they can be surfaced in that order. The final result is still parsed from the full text.
+ */
+export const createEvaluationStreamParser = () => {
+  let text = '';
+  let verdictSent = false;
+  let scoreSent = false;
+  // Position in `text` of the next unread rationale character, -1 until the
+  // rationale string opens
+  let cursor = -1;
+  let rationaleDone = false;
+
+  // Decodes as much of the rationale string as has arrived, stopping before
+  // an escape sequence that is still incomplete.
+  const readRationale = (): string => {
+    let decoded = '';
+    while (cursor < text.length) {
+      const char = text[cursor];
+      if (char === '"') {
+        rationaleDone = true;
+        cursor++;
+        break;
+      }
+      if (char !== '\\') {
+        decoded += char;
+        cursor++;
+        continue;
+      }
+
+      const code = text[cursor + 1];
+      if (code === undefined) break;
+      if (code === 'u') {
+        const hex = text.slice(cursor + 2, cursor + 6);
+        if (hex.length < 4) break;
+        decoded += String.fromCharCode(parseInt(hex, 16));
+        cursor += 6;
+      } else {
+        decoded += ESCAPES[code] ?? code;
+        cursor += 2;
+      }
+    }
+    return decoded;
+  };
+
+  return {
+    push(chunk: string): EvaluationStreamEvent[] {
+      text += chunk;
+      const events: EvaluationStreamEvent[] = [];
+
+      if (!verdictSent) {
+        const match = text.match(/"match"\s*:\s*"?(true|false)\b/);
+        if (match) {
+          verdictSent = true;
+          events.push({ event: 'verdict', data: { match: match[1] === 'true' } });
+        }
+      }
+
+      if (!scoreSent) {
+        // Require a terminator so "7" is not reported before "7.5" arrives
+        const score = text.match(/"score"\s*:\s*(\d+(?:\.\d+)?)\s*[,}\n]/);
+        if (score) {
+          scoreSent = true;
+          events.push({ event: 'score', data: { score: parseFloat(score[1]) } });
+        }
+      }
+
+      if (cursor === -1) {
+        const rationale = /"rationale"\s*:\s*"/.exec(text);
+        if (rationale) cursor = rationale.index + rationale[0].length;
+      }
+      if (cursor !== -1 && !rationaleDone) {
+        const delta = readRationale();
+        if (delta) events.push({ event: 'reasoning', data: { delta } });
+      }
+
+      return events;
+    },
+    get text() {
+      return text;
+    },
+  };
+};
@@ -0,0 +1,58 @@
+import type { EvaluationResult, EvaluationStreamEvent, VariableCheck } from "../_shared/evaluation.ts";
+import { analyzePrompt, type PromptFacts } from "../_shared/heuristics.ts";
+import { analyzeMessages, type ChatMessage } from "../_shared/messages.ts";
+import { checkVariables, findVariableUses, renderVariables } from "../_shared/variables.ts";
+
+/**
+ * True when the request carries sample values worth checking: the prompt
+ * has variables, or values were supplied that it might be missing.
+ */
+export const needsVariableCheck = (prompt: string, values?: Record<string, string>): values is Record<string, string> =>
+  values !== undefined && (findVariableUses(prompt).length > 0 || Object.values(values).some((value) => value.trim()));
+
+/**
+ * Substitutes the sample values into the prompt. Chat prompts are rendered
+ * turn by turn and come with their facts, so examples are still counted from
+ * the turns.
+ */
+export const renderSampleValues = (
+  prompt: string,
+  values: Record<string, string>,
+  messages?: ChatMessage[],
+): { prompt: string; facts?: PromptFacts } =>
+  messages
+    ? analyzeMessages(messages.map((message) => ({ ...message, content: renderVariables(message.content, values) })))
+    : { prompt: renderVariables(prompt, values) };
+
+/**
+ * Judges the prompt with the sample values substituted and reports the
+ * variable warnings next to that evaluation. Chat prompts pass their
+ * messages so the values are substituted turn by turn and the examples are
+ * still counted from the turns.
+ */
+export const checkPromptVariables = async (
+  prompt: string,
+  values: Record<string, string>,
+  evaluate: (renderedPrompt: string, facts?: PromptFacts) => Promise<EvaluationResult>,
+  messages?: ChatMessage[],
+): Promise<VariableCheck> => {
+  const facts = messages ? analyzeMessages(messages).facts : analyzePrompt(prompt);
+  const rendered = renderSampleValues(prompt, values, messages);
+  return {
+    names: facts.variables,
+    warnings: checkVariables(prompt, values, facts.examples),
+    renderedPrompt: rendered.prompt,
+    rendered: await evaluate(rendered.prompt, rendered.facts),
+  };
+};
+
+// Streams the template evaluation unchanged and attaches the variable check
+// to its final result
+export async function* withVariableCheck(
+  events: AsyncGenerator<EvaluationStreamEvent>,
+  check: Promise<VariableCheck>,
+): AsyncGenerator<EvaluationStreamEvent> {
+  for await (const event of events) {
+    yield event.event === 'result' ? { event: 'result', data: { ...event.data, variables: await check } } : event;
+  }
+}
@@ -0,0 +1,250 @@
+import { authenticateRequest, chargeQuota, type RequestGuardDeps } from "../_shared/auth.ts";
+import { cacheKey, normalizePromptText, type ResultCache } from "../_shared/cache.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { errorResponse } from "../_shared/errors.ts";
+import { z } from "zod";
+import { cleanJsonResponse } from "../_shared/json.ts";
+import { generateStructured, type LLMProvider, type ResponseSchema } from "../_shared/llm/index.ts";
+import { parseRequestBody, useCaseRequestSchema } from "../_shared/requests.ts";
+import { describeCatalog, findTechnique, type Technique } from "../_shared/techniques.ts";
+import { USECASE_EFFORTS, type UseCaseDetail, type UseCaseResponse } from "../_shared/usecases.ts";
+import { meteredLLM, type UsageRecorder } from "../_shared/usage.ts";
+
+// Bump whenever the generation prompt changes so cached use cases are not reused
+const USECASE_PROMPT_VERSION = 2;
+
+// Within the output limit of every supported provider
+const USECASE_MAX_OUTPUT_TOKENS = 8192;
+
+// What each detail level asks of the model, and the output tokens it needs per use case
+const DETAIL_INSTRUCTIONS: Record<UseCaseDetail, { instructions: string; tokensPerUseCase: number }> = {
+  brief: {
+    instructions: 'Keep every field short: one sentence for the description, business impact and effort rationale, a prompt of at most 25 words, and at most 3 data sources and 2 risks.',
+    tokensPerUseCase: 200,
+  },
+  standard: {
+    instructions: 'Write two or three sentences for the description and business impact, one for the effort rationale, a complete prompt of 40-80 words, and 2-4 data sources and risks.',
+    tokensPerUseCase: 350,
+  },
+  detailed: {
+    instructions: 'Write a thorough paragraph for the description and business impact (quantify the impact where you can), explain the effort estimate, give a production-ready prompt of 80-150 words with context, constraints and output format, and list every relevant data source and risk.',
+    tokensPerUseCase: 600,
+  },
+};
+
+const useCaseSchema = z.object({
+  title: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  prompt: z.string().trim().min(1),
+  businessImpact: z.string().trim().min(1),
+  effort: z.enum(USECASE_EFFORTS),
+  effortRationale: z.string().trim().default(''),
+  dataSources: z.array(z.string().trim().min(1)).default([]),
+  risks: z.array(z.string().trim().min(1)).default([]),
+  technique: z.string().trim(),
+});
+
+const useCaseResponseSchema = z.object({ usecases: z.array(useCaseSchema) });
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+const buildUseCasesSchema = (techniqueIds: string[]): ResponseSchema => ({
+  name: 'use_cases',
+  schema: {
+    type: 'object',
+    properties: {
+      usecases: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            description: { type: 'string' },
+            prompt: { type: 'string' },
+            businessImpact: { type: 'string' },
+            effort: { type: 'string', enum: [...USECASE_EFFORTS] },
+            effortRationale: { type: 'string' },
+            dataSources: stringArray,
+            risks: stringArray,
+            technique: { type: 'string', enum: techniqueIds },
+          },
+          required: ['title', 'description', 'prompt', 'businessImpact', 'effort', 'effortRationale', 'dataSources', 'risks', 'technique'],
+        },
+      },
+    },
+    required: ['usecases'],
+  },
+});
+
+// Throws a description of the problem, which is quoted back to the model
+// when the response is repaired. Extra use cases are dropped; too few is a
+// problem to repair.
+const parseUseCases = (text: string, count: number, catalog: Technique[]): UseCaseResponse => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(cleanJsonResponse(text));
+  } catch (parseError) {
+    throw new Error(`Use case response is not valid JSON (${parseError instanceof Error ? parseError.message : parseError})`);
+  }
+  const validation = useCaseResponseSchema.safeParse(raw);
+  if (!validation.success) {
+    const issues = validation.error.issues
+      .map((issue) => `${issue.path.join('.') || 'result'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Use case response failed validation (${issues})`);
+  }
+  const { usecases } = validation.data;
+  if (usecases.length < count) {
+    throw new Error(`Use case response has ${usecases.length} use cases, expected ${count}`);
+  }
+  const unknown = usecases.find((usecase) => !findTechnique(catalog, usecase.technique));
+  if (unknown) {
+    throw new Error(`Use case "${unknown.title}" suggests unknown technique "${unknown.technique}"`);
+  }
+  return { usecases: usecases.slice(0, count) };
+};
+
+// Entries written under an older use case shape fail validation and count as misses
+const readCachedUseCases = async (cache: ResultCache, key: string): Promise<UseCaseResponse | null> => {
+  const parsed = useCaseResponseSchema.safeParse(await cache.get(key));
+  return parsed.success ? { ...parsed.data, cached: true } : null;
+};
+
+export interface GenerateUseCasesDeps extends RequestGuardDeps {
+  getLLM: () => LLMProvider;
+  // Catalog the suggested prompting techniques are chosen from
+  loadTechniques: () => Promise<Technique[]>;
+  cache?: ResultCache;
+  recordUsage?: UsageRecorder;
+}
+
+export const handleGenerateUseCases = async (
+  req: Request,
+  deps: GenerateUseCasesDeps,
+): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { loadTechniques, cache } = deps;
+
+  try {
+    console.log('🚀 Generate-usecases function started');
+    // Authenticated before the body is validated; the quota is charged after
+    // validation and the cache lookup, so bad requests and cached use cases are free
+    const guard = await authenticateRequest(req, deps);
+    if ('rejection' in guard) return guard.rejection;
+
+    const { department, task, count, detail, force } = await parseRequestBody(req, useCaseRequestSchema);
+    console.log(`📝 Request: Department="${department}", Task="${task}", ${count} use cases, ${detail} detail`);
+    const getLLM = meteredLLM(deps.getLLM, deps.recordUsage, { userId: guard.user.id, functionName: 'generate-usecases' });
+
+    const provider = getLLM();
+    console.log(`✅ Using LLM provider ${provider.name} (${provider.model})`);
+
+    const catalog = await loadTechniques();
+    const techniqueIds = catalog.map((technique) => technique.id);
+
+    // The suggested techniques are only valid for the catalog they were chosen from
+    const key = await cacheKey(
+      'generate-usecases',
+      USECASE_PROMPT_VERSION,
+      `${provider.name}/${provider.model}`,
+      normalizePromptText(department).toLowerCase(),
+      normalizePromptText(task),
+      String(count),
+      detail,
+      techniqueIds.join(','),
+    );
+    const cached = cache && !force ? await readCachedUseCases(cache, key) : null;
+    if (cached) {
+      console.log('♻️ Serving use cases from the result cache');
+      return new Response(JSON.stringify(cached), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const rejection = await chargeQuota(deps, guard.user, 'generate-usecases', 1);
+    if (rejection) return rejection;
+
+    // Department-specific context to guide AI generation  
+    const departmentContext: Record<string, string> = {
+      'marketing': 'Marketing departments focus on customer acquisition, engagement, campaign optimization, content creation, social media management, lead generation, brand awareness, and data-driven decision making.',
+      'human resources': 'HR departments handle recruitment, employee engagement, performance management, training, compliance, payroll, benefits administration, and organizational development.',
+      'finance': 'Finance departments manage budgeting, forecasting, expense tracking, financial reporting, compliance, accounts payable/receivable, and risk management.',
+      'operations': 'Operations departments oversee process optimization, supply chain management, quality control, resource allocation, project management, and operational efficiency.',
+      'it': 'IT departments handle system administration, cybersecurity, software development, infrastructure management, technical support, and digital transformation.',
+      'sales': 'Sales departments focus on lead conversion, customer relationship management, sales forecasting, pipeline management, territory planning, and revenue growth.',
+      'customer service': 'Customer service departments handle support ticket management, customer satisfaction, issue resolution, communication management, and service quality improvement.'
+    };
+
+    const deptKey = department.toLowerCase();
+    const deptContext = departmentContext[deptKey] || departmentContext[Object.keys(departmentContext).find(key => deptKey.includes(key)) ?? ''] || 'This department focuses on core business operations and workflows.';
+
+    const { instructions, tokensPerUseCase } = DETAIL_INSTRUCTIONS[detail];
+
+    const fullPrompt = `You are an AI strategy consultant who turns business challenges into concrete, well-scoped AI use cases for different departments.
+
+DEPARTMENT CONTEXT: ${department}
+${deptContext}
+
+SPECIFIC CHALLENGE: ${task}
+
+PROMPTING TECHNIQUES (choose each use case's technique from these ids):
+${describeCatalog(catalog)}
+
+INSTRUCTIONS:
+Generate exactly ${count} distinct AI use case${count === 1 ? '' : 's'} that directly address the challenge for ${department}. For each use case give:
+- title: a short name starting with an action verb such as "Create", "Build", "Automate" or "Predict"
+- description: what the AI does and how it fits ${department} workflows
+- prompt: a ready-to-use prompt for an AI assistant that carries out the use case
+- businessImpact: the expected business outcome, such as time saved, revenue or quality gains
+- effort: the implementation effort, one of "low", "medium" or "high"
+- effortRationale: why the effort is what it is
+- dataSources: the data the use case needs
+- risks: what could go wrong, such as privacy, bias, accuracy or adoption risks
+- technique: the id of the prompting technique best suited to the prompt
+
+${instructions}
+
+RESPONSE FORMAT (JSON only, no other text):
+{
+  "usecases": [
+    {
+      "title": "Automate first-line ticket triage",
+      "description": "...",
+      "prompt": "...",
+      "businessImpact": "...",
+      "effort": "medium",
+      "effortRationale": "...",
+      "dataSources": ["..."],
+      "risks": ["..."],
+      "technique": "one of the technique ids above"
+    }
+  ]
+}`;
+
+    console.log(`🔄 Making request to ${provider.name}...`);
+    const usecaseResponse = await generateStructured(
+      provider,
+      {
+        prompt: fullPrompt,
+        temperature: 0.7,
+        maxOutputTokens: Math.min(USECASE_MAX_OUTPUT_TOKENS, 300 + count * tokensPerUseCase),
+        schema: buildUseCasesSchema(techniqueIds),
+      },
+      (text) => parseUseCases(text, count, catalog),
+    );
+    console.log(`📄 Generated ${usecaseResponse.usecases.length} use cases`);
+    await cache?.set(key, usecaseResponse);
+
+    return new Response(JSON.stringify(usecaseResponse), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in generate-usecases function:', error);
+    return errorResponse(error);
+  }
+};
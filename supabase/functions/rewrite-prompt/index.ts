@@ -0,0 +1,13 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getProvider } from "../_shared/llm/index.ts";
+import { authenticateUser, loadTechniqueCatalog, quotaLimiter, recordUsage } from "../_shared/supabase.ts";
+import { handleRewritePrompt } from "./handler.ts";
+
+serve((req) => handleRewritePrompt(req, {
+  getLLM: getProvider,
+  authenticate: authenticateUser,
+  quota: quotaLimiter,
+  recordUsage,
+  loadTechniques: loadTechniqueCatalog,
+}));
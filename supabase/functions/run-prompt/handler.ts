@@ -0,0 +1,76 @@
+import { authenticateRequest, chargeQuota, type RequestGuardDeps } from "../_shared/auth.ts";
+import { mapWithConcurrency } from "../_shared/concurrency.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { errorResponse, toErrorBody } from "../_shared/errors.ts";
+import type { LLMProvider } from "../_shared/llm/index.ts";
+import type { RunResult } from "../_shared/playground.ts";
+import { parseRequestBody, runRequestSchema } from "../_shared/requests.ts";
+import { meteredLLM, type UsageRecorder } from "../_shared/usage.ts";
+import { buildRunRequest, type RunSource } from "./prompt.ts";
+
+// Room for a typical answer without letting a runaway prompt burn the quota
+const RUN_MAX_OUTPUT_TOKENS = 1024;
+
+export interface RunPromptDeps extends RequestGuardDeps {
+  getLLM: () => LLMProvider;
+  concurrency: number;
+  recordUsage?: UsageRecorder;
+}
+
+export const handleRunPrompt = async (
+  req: Request,
+  deps: RunPromptDeps,
+): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { concurrency } = deps;
+
+  try {
+    // Authenticated before the body is validated and charged after it
+    const guard = await authenticateRequest(req, deps);
+    if ('rejection' in guard) return guard.rejection;
+
+    const { prompt, messages, cases } = await parseRequestBody(req, runRequestSchema);
+    const source: RunSource = messages ? { messages } : { prompt: prompt! };
+
+    // Each test case is one model call
+    const rejection = await chargeQuota(deps, guard.user, 'run-prompt', cases.length);
+    if (rejection) return rejection;
+    const getLLM = meteredLLM(deps.getLLM, deps.recordUsage, { userId: guard.user.id, functionName: 'run-prompt' });
+    const provider = getLLM();
+    console.log(`▶️ Running prompt against ${cases.length} test cases with ${provider.name}`);
+
+    // A failing case is reported in its slot rather than failing the run
+    const results = await mapWithConcurrency(cases, concurrency, async (runCase, index): Promise<RunResult> => {
+      try {
+        const startedAt = Date.now();
+        const response = await provider.generate({
+          ...buildRunRequest(source, runCase),
+          maxOutputTokens: RUN_MAX_OUTPUT_TOKENS,
+        });
+        return {
+          index,
+          status: 'ok',
+          output: response.text,
+          provider: response.provider,
+          model: response.model,
+          latencyMs: Date.now() - startedAt,
+        };
+      } catch (error) {
+        console.error(`Error running test case ${index}:`, error);
+        return { index, status: 'error', error: toErrorBody(error) };
+      }
+    });
+
+    return new Response(JSON.stringify({ results }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in run-prompt function:', error);
+    return errorResponse(error);
+  }
+};
@@ -0,0 +1,32 @@
+import type { LLMMessage, LLMRequest } from "../_shared/llm/index.ts";
+import { formatTranscript, type ChatMessage } from "../_shared/messages.ts";
+import type { RunCase } from "../_shared/playground.ts";
+import { renderVariables } from "../_shared/variables.ts";
+
+export type RunSource = { prompt: string } | { messages: ChatMessage[] };
+
+/**
+ * Builds the model request for one test case: sample values are substituted
+ * into the prompt and the input follows it. Chat prompts send their system
+ * messages as the system prompt and the remaining turns, with the input as
+ * a final user turn, as role messages.
+ */
+export const buildRunRequest = (
+  source: RunSource,
+  { input = '', variables = {} }: RunCase,
+): Pick<LLMRequest, 'prompt' | 'system' | 'messages'> => {
+  if ('prompt' in source) {
+    const prompt = renderVariables(source.prompt, variables).trim();
+    return { prompt: input.trim() ? `${prompt}\n\n${input.trim()}` : prompt };
+  }
+
+  const messages = source.messages.map((message) => ({ ...message, content: renderVariables(message.content, variables) }));
+  const system = messages.filter((message) => message.role === 'system').map((message) => message.content.trim()).join('\n\n');
+  const turns: LLMMessage[] = messages.flatMap((message) =>
+    message.role === 'system' ? [] : [{ role: message.role, content: message.content }]
+  );
+  if (input.trim()) turns.push({ role: 'user', content: input });
+
+  const request = { prompt: formatTranscript(turns).text, messages: turns };
+  return system ? { system, ...request } : request;
+};
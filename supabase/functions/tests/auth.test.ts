@@ -0,0 +1,230 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { bearerToken, type RequestGuardDeps } from "../_shared/auth.ts";
+import { createMemoryCache } from "../_shared/cache.ts";
+import type { QuotaStatus } from "../_shared/quota.ts";
+import { handleEvaluateBatch } from "../evaluate-batch/handler.ts";
+import { handleEvaluatePrompt } from "../evaluate-prompt/handler.ts";
+import { handleGenerateUseCases } from "../generate-usecases/handler.ts";
+import { handleRewritePrompt } from "../rewrite-prompt/handler.ts";
+import { handleRunPrompt } from "../run-prompt/handler.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import { loadTestCatalog } from "./fixtures.ts";
+
+const allowed: QuotaStatus = {
+  allowed: true,
+  minuteLimit: 30,
+  minuteRemaining: 29,
+  dayLimit: 500,
+  dayRemaining: 499,
+  retryAfterSeconds: 0,
+};
+
+const guard = (status: QuotaStatus, charges: { fn: string; units: number }[] = []): RequestGuardDeps => ({
+  authenticate: (req) => Promise.resolve(bearerToken(req) === 'user-token' ? { id: 'user-1' } : null),
+  quota: {
+    consume: (_userId, fn, units) => {
+      charges.push({ fn, units });
+      return Promise.resolve(status);
+    },
+  },
+});
+
+const post = (url: string, body: unknown, token?: string) => new Request(url, {
+  method: 'POST',
+  headers: token ? { Authorization: `Bearer ${token}` } : {},
+  body: JSON.stringify(body),
+});
+
+const evaluateBody = { prompt: 'Translate: cat -> chat', selectedTechnique: 'one-shot' };
+
+Deno.test('bearerToken reads the Authorization header', () => {
+  assertEquals(bearerToken(post('http://localhost', {}, 'abc.def')), 'abc.def');
+  assertEquals(bearerToken(post('http://localhost', {})), null);
+});
+
+Deno.test('evaluate-prompt rejects callers without a user token', async () => {
+  const res = await handleEvaluatePrompt(post('http://localhost/evaluate-prompt', evaluateBody, 'anon-key'), {
+    ...guard(allowed),
+    getLLM: () => createMockProvider({ scenario: 'evaluate-well-formed' }),
+    loadTechniques: loadTestCatalog,
+  });
+  assertEquals(res.status, 401);
+  assertEquals((await res.json()).code, 'unauthorized');
+});
+
+Deno.test('every function rejects anonymous callers before validating the body', async () => {
+  const deps = {
+    ...guard(allowed),
+    getLLM: () => createMockProvider(),
+    loadTechniques: loadTestCatalog,
+    concurrency: 2,
+  };
+  const malformed = { prompt: 42 };
+  const responses = await Promise.all([
+    handleEvaluatePrompt(post('http://localhost/evaluate-prompt', malformed), deps),
+    handleEvaluateBatch(post('http://localhost/evaluate-batch', malformed), deps),
+    handleGenerateUseCases(post('http://localhost/generate-usecases', malformed), deps),
+    handleRewritePrompt(post('http://localhost/rewrite-prompt', malformed), deps),
+    handleRunPrompt(post('http://localhost/run-prompt', malformed), deps),
+  ]);
+
+  for (const res of responses) {
+    assertEquals(res.status, 401);
+    assertEquals((await res.json()).code, 'unauthorized');
+  }
+});
+
+Deno.test('evaluate-prompt charges one unit to the caller', async () => {
+  const charges: { fn: string; units: number }[] = [];
+  const res = await handleEvaluatePrompt(post('http://localhost/evaluate-prompt', evaluateBody, 'user-token'), {
+    ...guard(allowed, charges),
+    getLLM: () => createMockProvider({ scenario: 'evaluate-well-formed' }),
+    loadTechniques: loadTestCatalog,
+  });
+  assertEquals(res.status, 200);
+  await res.body?.cancel();
+  assertEquals(charges, [{ fn: 'evaluate-prompt', units: 1 }]);
+});
+
+Deno.test('evaluate-prompt charges nothing when no model call is made', async () => {
+  const charges: { fn: string; units: number }[] = [];
+  const deps = {
+    ...guard(allowed, charges),
+    getLLM: () => createMockProvider({ scenario: 'evaluate-well-formed' }),
+    loadTechniques: loadTestCatalog,
+    cache: createMemoryCache(),
+  };
+  const evaluate = async (body: unknown) => {
+    const res = await handleEvaluatePrompt(post('http://localhost/evaluate-prompt', body, 'user-token'), deps);
+    await res.body?.cancel();
+    return res.status;
+  };
+
+  // Charged once for the judge call that fills the cache
+  assertEquals(await evaluate(evaluateBody), 200);
+  assertEquals(charges, [{ fn: 'evaluate-prompt', units: 1 }]);
+
+  const unknownTechnique = await evaluate({ ...evaluateBody, selectedTechnique: 'telepathy' });
+  const settledLocally = await evaluate({ prompt: 'Summarize the text below.', selectedTechnique: 'few-shot' });
+  const cacheHit = await evaluate(evaluateBody);
+
+  assertEquals([unknownTechnique, settledLocally, cacheHit], [400, 200, 200]);
+  assertEquals(charges, [{ fn: 'evaluate-prompt', units: 1 }]);
+});
+
+Deno.test('generate-usecases returns a structured 429 with Retry-After', async () => {
+  const exhausted = { ...allowed, allowed: false, minuteRemaining: 0, retryAfterSeconds: 42 };
+  const res = await handleGenerateUseCases(
+    post('http://localhost/generate-usecases', { department: 'Sales', task: 'Forecast' }, 'user-token'),
+    { ...guard(exhausted), getLLM: () => createMockProvider({ scenario: 'usecases-well-formed' }), loadTechniques: loadTestCatalog },
+  );
+  assertEquals(res.status, 429);
+  assertEquals(res.headers.get('Retry-After'), '42');
+  const body = await res.json();
+  assertEquals(body.code, 'quota_exceeded');
+  assertEquals(body.retryAfter, 42);
+  assertEquals(body.quota, { minuteLimit: 30, minuteRemaining: 0, dayLimit: 500, dayRemaining: 499 });
+});
+
+Deno.test('generate-usecases serves cached use cases without charging', async () => {
+  const charges: { fn: string; units: number }[] = [];
+  const deps = {
+    ...guard(allowed, charges),
+    getLLM: () => createMockProvider({ scenario: 'usecases-well-formed' }),
+    loadTechniques: loadTestCatalog,
+    cache: createMemoryCache(),
+  };
+  const generate = async (body: unknown) => {
+    const res = await handleGenerateUseCases(post('http://localhost/generate-usecases', body, 'user-token'), deps);
+    await res.body?.cancel();
+    return res.status;
+  };
+  const request = { department: 'Sales', task: 'Forecast', count: 2 };
+
+  assertEquals(await generate(request), 200);
+  assertEquals(await generate(request), 200);
+  assertEquals(charges, [{ fn: 'generate-usecases', units: 1 }]);
+
+  // Forcing a fresh result calls the model again, so it is charged
+  assertEquals(await generate({ ...request, force: true }), 200);
+  assertEquals(charges.length, 2);
+});
+
+Deno.test('evaluate-batch charges one unit per item', async () => {
+  const charges: { fn: string; units: number }[] = [];
+  const items = Array.from({ length: 3 }, () => ({ prompt: evaluateBody.prompt, technique: 'one-shot' }));
+  const res = await handleEvaluateBatch(post('http://localhost/evaluate-batch', { items }, 'user-token'), {
+    ...guard(allowed, charges),
+    getLLM: () => createMockProvider({ scenario: 'evaluate-well-formed' }),
+    loadTechniques: loadTestCatalog,
+    concurrency: 2,
+  });
+  assertEquals(res.status, 200);
+  await res.body?.cancel();
+  assertEquals(charges, [{ fn: 'evaluate-batch', units: 3 }]);
+});
+
+Deno.test('evaluate-batch charges only the items the judge evaluates', async () => {
+  const charges: { fn: string; units: number }[] = [];
+  const deps = {
+    ...guard(allowed, charges),
+    getLLM: () => createMockProvider({ scenario: 'evaluate-well-formed' }),
+    loadTechniques: loadTestCatalog,
+    concurrency: 2,
+    cache: createMemoryCache(),
+  };
+  const evaluate = async (items: unknown[]) => {
+    const res = await handleEvaluateBatch(post('http://localhost/evaluate-batch', { items }, 'user-token'), deps);
+    const { results } = await res.json();
+    return results.map((result: { status: string }) => result.status);
+  };
+  const judged = { prompt: evaluateBody.prompt, technique: 'one-shot' };
+
+  assertEquals(await evaluate([judged]), ['ok']);
+  assertEquals(charges, [{ fn: 'evaluate-batch', units: 1 }]);
+
+  const statuses = await evaluate([
+    judged,
+    { prompt: evaluateBody.prompt, technique: 'telepathy' },
+    { prompt: 'Summarize the text below.', technique: 'few-shot' },
+    { prompt: 'Translate: dog -> chien', technique: 'one-shot' },
+  ]);
+
+  // Only the last item, which is neither cached nor settled locally, is charged
+  assertEquals(statuses, ['ok', 'error', 'ok', 'ok']);
+  assertEquals(charges, [{ fn: 'evaluate-batch', units: 1 }, { fn: 'evaluate-batch', units: 1 }]);
+});
+
+Deno.test('invalid requests are rejected before any quota is charged', async () => {
+  const charges: { fn: string; units: number }[] = [];
+  const deps = {
+    ...guard(allowed, charges),
+    getLLM: () => createMockProvider({ scenario: 'usecases-well-formed' }),
+    loadTechniques: loadTestCatalog,
+  };
+
+  const usecases = await handleGenerateUseCases(post('http://localhost/generate-usecases', { task: 'Forecast', count: 50 }, 'user-token'), deps);
+  const rewrite = await handleRewritePrompt(post('http://localhost/rewrite-prompt', { prompt: '   ' }, 'user-token'), deps);
+
+  assertEquals([usecases.status, rewrite.status], [400, 400]);
+  await Promise.all([usecases.body?.cancel(), rewrite.body?.cancel()]);
+  assertEquals(charges, []);
+});
+
+Deno.test('rewrite-prompt charges nothing for an unknown technique', async () => {
+  const charges: { fn: string; units: number }[] = [];
+  const deps = {
+    ...guard(allowed, charges),
+    getLLM: () => createMockProvider({ scenario: 'rewrite-well-formed' }),
+    loadTechniques: loadTestCatalog,
+  };
+
+  const res = await handleRewritePrompt(
+    post('http://localhost/rewrite-prompt', { prompt: evaluateBody.prompt, selectedTechnique: 'telepathy' }, 'user-token'),
+    deps,
+  );
+
+  assertEquals(res.status, 400);
+  await res.body?.cancel();
+  assertEquals(charges, []);
+});
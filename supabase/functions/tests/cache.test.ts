@@ -0,0 +1,176 @@
+import { assert, assertEquals, assertNotEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { cacheKey, createMemoryCache, normalizePromptText, type ResultCache } from "../_shared/cache.ts";
+import { DEFAULT_JUDGE_TEMPLATE } from "../_shared/judge-template.ts";
+import { handleEvaluatePrompt } from "../evaluate-prompt/handler.ts";
+import { handleGenerateUseCases } from "../generate-usecases/handler.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import type { LLMProvider } from "../_shared/llm/index.ts";
+import { STRUCTURED_MAX_ATTEMPTS } from "../_shared/llm/structured.ts";
+import { parseSseStream } from "../_shared/sse.ts";
+import { loadTestCatalog, testGuard } from "./fixtures.ts";
+
+// Mock provider that counts the model calls it serves
+const countingProvider = (scenario: string) => {
+  const mock = createMockProvider({ scenario });
+  const calls = { generate: 0, stream: 0 };
+  const provider: LLMProvider = {
+    ...mock,
+    generate: (request) => { calls.generate++; return mock.generate(request); },
+    stream: (request) => { calls.stream++; return mock.stream(request); },
+  };
+  return { provider, calls };
+};
+
+const evaluate = async (provider: LLMProvider, cache: ResultCache, body: Record<string, unknown>) => {
+  const req = new Request('http://localhost/evaluate-prompt', {
+    method: 'POST',
+    body: JSON.stringify({ prompt: 'Translate: cat -> chat', selectedTechnique: 'one-shot', ...body }),
+  });
+  return await handleEvaluatePrompt(req, { ...testGuard, getLLM: () => provider, loadTechniques: loadTestCatalog, cache });
+};
+
+Deno.test('normalizePromptText ignores line endings, spacing and blank lines', () => {
+  assertEquals(normalizePromptText('  Translate:\r\n\r\n\r\n  cat   ->\tchat  \n'), 'Translate:\n\ncat -> chat');
+});
+
+Deno.test('cacheKey hashes every part of the key', async () => {
+  const key = await cacheKey('evaluate-prompt', 1, 'mock/a', 'one-shot', 'prompt');
+  assertEquals(key.length, 64);
+  assertEquals(key, await cacheKey('evaluate-prompt', 1, 'mock/a', 'one-shot', 'prompt'));
+  assertNotEquals(key, await cacheKey('evaluate-prompt', 2, 'mock/a', 'one-shot', 'prompt'));
+  assertNotEquals(key, await cacheKey('evaluate-prompt', 1, 'mock/b', 'one-shot', 'prompt'));
+});
+
+Deno.test('memory cache expires entries after the TTL', async () => {
+  const cache = createMemoryCache(-1);
+  await cache.set('key', { value: 1 });
+  assertEquals(await cache.get('key'), null);
+});
+
+Deno.test('evaluate-prompt serves repeated prompts from the cache', async () => {
+  const cache = createMemoryCache();
+  const { provider, calls } = countingProvider('evaluate-well-formed');
+
+  const first = await (await evaluate(provider, cache, {})).json();
+  const second = await (await evaluate(provider, cache, { prompt: '  Translate:   cat -> chat\n' })).json();
+
+  assertEquals(calls.generate, 1);
+  assertEquals(first.cached, undefined);
+  assertEquals(second.cached, true);
+  assertEquals(second.score, first.score);
+});
+
+Deno.test('evaluate-prompt points cached annotations into the current prompt', async () => {
+  const cache = createMemoryCache();
+  const { provider, calls } = countingProvider('evaluate-annotated');
+  const prompt = 'Translate each word to French.\ncat -> chat\ncat -> chat\nLet\'s think step by step.';
+  const spaced = `\n  ${prompt.replace('\n', '  \n  ')}`;
+
+  await (await evaluate(provider, cache, { prompt, selectedTechnique: 'few-shot' })).json();
+  const second = await (await evaluate(provider, cache, { prompt: spaced, selectedTechnique: 'few-shot' })).json();
+
+  assertEquals(calls.generate, 1);
+  assertEquals(second.cached, true);
+  assertEquals(second.annotations.length, 4);
+  assertEquals(second.annotations[2].start, 50);
+  for (const annotation of second.annotations) {
+    assertEquals(spaced.slice(annotation.start, annotation.end), annotation.text);
+  }
+});
+
+Deno.test('evaluate-prompt force re-evaluates and refreshes the cache', async () => {
+  const cache = createMemoryCache();
+  const { provider, calls } = countingProvider('evaluate-well-formed');
+
+  await (await evaluate(provider, cache, {})).json();
+  const forced = await (await evaluate(provider, cache, { force: true })).json();
+
+  assertEquals(calls.generate, 2);
+  assertEquals(forced.cached, undefined);
+});
+
+Deno.test('evaluate-prompt keys the cache by technique', async () => {
+  const cache = createMemoryCache();
+  const { provider, calls } = countingProvider('evaluate-well-formed');
+
+  await (await evaluate(provider, cache, {})).json();
+  await (await evaluate(provider, cache, { selectedTechnique: 'few-shot' })).json();
+
+  assertEquals(calls.generate, 2);
+});
+
+Deno.test('evaluate-prompt keys the cache by judge template version', async () => {
+  const cache = createMemoryCache();
+  const { provider, calls } = countingProvider('evaluate-well-formed');
+  const evaluateWith = (version: number) => handleEvaluatePrompt(
+    new Request('http://localhost/evaluate-prompt', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'Translate: cat -> chat', selectedTechnique: 'one-shot' }),
+    }),
+    {
+      ...testGuard,
+      getLLM: () => provider,
+      loadTechniques: loadTestCatalog,
+      loadJudgeTemplate: () => Promise.resolve({ ...DEFAULT_JUDGE_TEMPLATE, version }),
+      cache,
+    },
+  );
+
+  await (await evaluateWith(1)).json();
+  const second = await (await evaluateWith(2)).json();
+
+  assertEquals(calls.generate, 2);
+  assertEquals(second.templateVersion, 2);
+});
+
+Deno.test('evaluate-prompt does not cache local verdicts', async () => {
+  let stored = 0;
+  const cache: ResultCache = { get: () => Promise.resolve(null), set: () => { stored++; return Promise.resolve(); } };
+  const { provider } = countingProvider('upstream-error');
+
+  const body = await (await evaluate(provider, cache, { prompt: 'Summarize the text below.', selectedTechnique: 'few-shot' })).json();
+
+  assertEquals(body.source, 'heuristic');
+  assertEquals(stored, 0);
+});
+
+Deno.test('evaluate-prompt replays cached results over the stream', async () => {
+  const cache = createMemoryCache();
+  const { provider, calls } = countingProvider('evaluate-well-formed');
+
+  await (await evaluate(provider, cache, { stream: true })).body!.pipeTo(new WritableStream());
+  const events = [];
+  for await (const { event, data } of parseSseStream((await evaluate(provider, cache, { stream: true })).body!)) {
+    events.push({ event, data: JSON.parse(data) });
+  }
+
+  assertEquals(calls.stream, 1);
+  assertEquals(events.map((e) => e.event), ['verdict', 'score', 'reasoning', 'result']);
+  assertEquals(events[3].data.cached, true);
+});
+
+Deno.test('generate-usecases caches well-formed answers only', async () => {
+  const generate = async (scenario: string, cache: ResultCache, force = false) => {
+    const { provider, calls } = countingProvider(scenario);
+    const req = new Request('http://localhost/generate-usecases', {
+      method: 'POST',
+      body: JSON.stringify({ department: 'Human Resources', task: 'Reduce time to hire', count: 2, force }),
+    });
+    const body = await (await handleGenerateUseCases(req, { ...testGuard, getLLM: () => provider, loadTechniques: loadTestCatalog, cache })).json();
+    return { body, calls };
+  };
+
+  const cache = createMemoryCache();
+  await generate('usecases-well-formed', cache);
+  const hit = await generate('usecases-well-formed', cache);
+  assertEquals(hit.calls.generate, 0);
+  assertEquals(hit.body.cached, true);
+  assertEquals(hit.body.usecases.length, 2);
+
+  const forced = await generate('usecases-well-formed', cache, true);
+  assertEquals(forced.calls.generate, 1);
+
+  await generate('usecases-unparseable', cache);
+  const retried = await generate('usecases-unparseable', cache);
+  assert(retried.calls.generate === STRUCTURED_MAX_ATTEMPTS && !retried.body.cached);
+});
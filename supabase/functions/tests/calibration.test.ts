@@ -0,0 +1,195 @@
+import { assert, assertEquals, assertStringIncludes, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { parseDataset, type CalibrationCase } from "../_calibration/dataset.ts";
+import {
+  buildReport,
+  describeSetupMismatch,
+  diffReports,
+  formatReport,
+  scoreError,
+  toCaseResult,
+  type CaseResult,
+} from "../_calibration/report.ts";
+import { runCalibration } from "../_calibration/run.ts";
+import type { LLMProvider } from "../_shared/llm/index.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import type { Technique } from "../_shared/techniques.ts";
+import { evaluatePrompt } from "../evaluate-prompt/evaluate.ts";
+import { testCatalog } from "./fixtures.ts";
+
+const item = (id: string, technique: string, expectedMatch: boolean, expectedScore: [number, number]): CalibrationCase => ({
+  id,
+  prompt: 'Translate: cat -> chat',
+  technique,
+  expectedMatch,
+  expectedScore,
+});
+
+const result = (id: string, technique: string, expectedMatch: boolean, match: boolean, score: number): CaseResult =>
+  toCaseResult(item(id, technique, expectedMatch, [7, 9]), { match, score });
+
+const report = (results: CaseResult[]) =>
+  buildReport(results, { model: 'mock/test', rubricVersion: 4, templateVersion: 1, generatedAt: '2025-07-15T00:00:00.000Z' });
+
+Deno.test('parseDataset reads JSONL cases and skips blank lines', () => {
+  const cases = parseDataset([
+    '{"id": "a", "prompt": "Say hi", "technique": "zero-shot", "expectedMatch": true, "expectedScore": [6, 9]}',
+    '',
+    '{"id": "b", "prompt": "Say bye", "technique": "one-shot", "expectedMatch": false, "expectedScore": [0, 3], "note": "No example."}',
+  ].join('\n'));
+
+  assertEquals(cases.map((c) => c.id), ['a', 'b']);
+  assertEquals(cases[1].expectedScore, [0, 3]);
+});
+
+Deno.test('parseDataset reports the line of invalid or duplicate cases', () => {
+  const valid = '{"id": "a", "prompt": "Say hi", "technique": "zero-shot", "expectedMatch": true, "expectedScore": [6, 9]}';
+
+  assertThrows(() => parseDataset(`${valid}\nnot json`), Error, 'Line 2: not valid JSON');
+  assertThrows(() => parseDataset(`${valid}\n${valid}`), Error, 'Line 2: duplicate id "a"');
+  assertThrows(
+    () => parseDataset('{"id": "a", "prompt": "Say hi", "technique": "zero-shot", "expectedMatch": true, "expectedScore": [9, 6]}'),
+    Error,
+    'min <= max',
+  );
+});
+
+Deno.test('the bundled calibration dataset is valid', async () => {
+  const cases = parseDataset(await Deno.readTextFile(new URL('../_calibration/dataset.jsonl', import.meta.url)));
+
+  assert(cases.length > 0);
+  assert(cases.some((c) => c.expectedMatch) && cases.some((c) => !c.expectedMatch));
+});
+
+// A judge that always gives the gold answer, so any wrong result comes from
+// the checks evaluate-prompt runs around it
+const goldJudge = (item: CalibrationCase): LLMProvider => {
+  const text = JSON.stringify({
+    match: item.expectedMatch,
+    score: item.expectedScore[1],
+    exampleCount: 0,
+    confidence: 0.9,
+    criteria: [],
+    annotations: [],
+    rationale: 'Gold label.',
+  });
+  return {
+    name: 'gold',
+    model: 'gold-1',
+    generate: () => Promise.resolve({ text, provider: 'gold', model: 'gold-1' }),
+    stream: async function* () {
+      yield text;
+    },
+  };
+};
+
+Deno.test('local analysis and the cross-check keep gold verdicts on the calibration dataset', async () => {
+  const cases = [
+    ...parseDataset(await Deno.readTextFile(new URL('../_calibration/dataset.jsonl', import.meta.url))),
+    { ...item('zero-shot-response-slot', 'zero-shot', true, [5, 9]), prompt: 'Classify the sentiment of the review as positive or negative.\n\nReview: {{review}}\nResponse:' },
+    { ...item('zero-shot-chat-slot', 'zero-shot', true, [5, 9]), prompt: 'User: {{question}}\nAssistant:' },
+  ];
+
+  for (const item of cases) {
+    const technique: Technique = { id: item.technique, label: item.technique, description: '', detectionCriteria: '', scoringRubric: '' };
+    const evaluation = await evaluatePrompt(item.prompt, technique, [technique], () => goldJudge(item));
+    assertEquals(evaluation.match, item.expectedMatch, item.id);
+    assertEquals(evaluation.injectionSuspected, undefined, item.id);
+  }
+});
+
+Deno.test('scoreError is the distance from the expected range', () => {
+  assertEquals(scoreError(result('a', 'one-shot', true, true, 8)), 0);
+  assertEquals(scoreError(result('a', 'one-shot', true, true, 4)), 3);
+  assertEquals(scoreError(result('a', 'one-shot', true, true, 10)), 1);
+});
+
+Deno.test('buildReport computes accuracy, score MAE and a confusion matrix per technique', () => {
+  const summary = report([
+    result('tp', 'one-shot', true, true, 8),
+    result('fp', 'one-shot', false, true, 9),
+    result('fn', 'few-shot', true, false, 5),
+    result('tn', 'few-shot', false, false, 7),
+    toCaseResult(item('failed', 'few-shot', true, [7, 9]), { error: 'upstream 503' }),
+  ]);
+
+  assertEquals(summary.overall, { evaluated: 4, failed: 1, accuracy: 0.5, scoreMae: 0.5, scoreInRange: 0.75 });
+  assertEquals(summary.techniques['one-shot'].confusion, { truePositive: 1, falsePositive: 1, trueNegative: 0, falseNegative: 0 });
+  assertEquals(summary.techniques['few-shot'].confusion, { truePositive: 0, falsePositive: 0, trueNegative: 1, falseNegative: 1 });
+  assertEquals(summary.techniques['few-shot'].failed, 1);
+  assertEquals(Object.keys(summary.techniques), ['few-shot', 'one-shot']);
+});
+
+Deno.test('diffReports lists changed cases and flags regressions beyond tolerance', () => {
+  const baseline = report([
+    result('a', 'one-shot', true, true, 8),
+    result('b', 'one-shot', false, true, 8),
+    result('c', 'few-shot', true, true, 8),
+  ]);
+  const current = report([
+    result('a', 'one-shot', true, false, 8),
+    result('b', 'one-shot', false, false, 8),
+    result('c', 'few-shot', true, true, 3),
+    result('new', 'few-shot', true, true, 8),
+  ]);
+
+  const diff = diffReports(current, baseline);
+
+  assertEquals(diff.regressions, ['a', 'c']);
+  assertEquals(diff.improvements, ['b']);
+  assertEquals(diff.scoreMae.delta, 1);
+  assert(diff.regressed);
+  assertStringIncludes(formatReport(current, diff, baseline), 'REGRESSION');
+});
+
+Deno.test('diffReports tolerates unchanged results', () => {
+  const baseline = report([result('a', 'one-shot', true, true, 8)]);
+  const diff = diffReports(report([result('a', 'one-shot', true, true, 7)]), baseline);
+
+  assertEquals(diff.regressions, []);
+  assertEquals(diff.regressed, false);
+  assertStringIncludes(formatReport(report([]), diff, baseline), 'No regression beyond tolerance.');
+});
+
+Deno.test('describeSetupMismatch lists what the baseline was produced with', () => {
+  const setup = { model: 'openai/gpt-4o-mini', rubricVersion: 4, templateVersion: 2 };
+  assertEquals(describeSetupMismatch(setup, setup), []);
+  assertEquals(describeSetupMismatch(setup, { model: 'mock/mock-default', rubricVersion: 3, templateVersion: 2 }), [
+    'model mock/mock-default, not openai/gpt-4o-mini',
+    'rubric v3, not v4',
+  ]);
+
+  const baseline = report([result('a', 'one-shot', true, true, 8)]);
+  const current = { ...report([result('a', 'one-shot', true, true, 8)]), templateVersion: 2 };
+  assertStringIncludes(
+    formatReport(current, diffReports(current, baseline), baseline),
+    'Note: the baseline was produced with judge template v1, not v2',
+  );
+});
+
+Deno.test('runCalibration evaluates cases through the evaluate-prompt pipeline', async () => {
+  const cases = [
+    item('judged', 'one-shot', true, [8, 10]),
+    { ...item('heuristic', 'few-shot', false, [0, 3]), prompt: 'Summarize the text.' },
+    item('unknown', 'telepathy', true, [0, 10]),
+  ];
+
+  const results = await runCalibration(cases, {
+    getLLM: () => createMockProvider({ scenario: 'evaluate-well-formed' }),
+    catalog: testCatalog,
+    concurrency: 2,
+  });
+
+  assertEquals(results.map((r) => r.id), ['judged', 'heuristic', 'unknown']);
+  assertEquals(results[0], {
+    id: 'judged',
+    technique: 'one-shot',
+    expectedMatch: true,
+    expectedScore: [8, 10],
+    match: true,
+    score: 9,
+    source: 'judge',
+  });
+  assertEquals(results[1].source, 'heuristic');
+  assertEquals(results[1].match, false);
+  assertStringIncludes(results[2].error!, 'telepathy');
+});
@@ -0,0 +1,104 @@
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { EvaluationResult } from "../_shared/evaluation.ts";
+import type { RequestGuardDeps } from "../_shared/auth.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import { parseSseStream } from "../_shared/sse.ts";
+import { aggregateEvaluations } from "../evaluate-prompt/ensemble.ts";
+import { handleEvaluatePrompt } from "../evaluate-prompt/handler.ts";
+import { loadTestCatalog, testGuard } from "./fixtures.ts";
+
+const sample = (match: boolean, score: number, overrides: Partial<EvaluationResult> = {}) => ({
+  provider: 'mock/a',
+  evaluation: {
+    match,
+    score,
+    exampleCount: 1,
+    confidence: 0.8,
+    criteria: [],
+    annotations: [],
+    rationale: `Scored ${score}.`,
+    ...overrides,
+  },
+});
+
+// Three providers that disagree: 9 (match), 4 (no match), 8 (match)
+const pool = () => ['evaluate-well-formed', 'evaluate-fenced', 'evaluate-annotated'].map((scenario) => createMockProvider({ scenario }));
+
+const evaluate = (body: Record<string, unknown>, guard: RequestGuardDeps = testGuard) =>
+  handleEvaluatePrompt(
+    new Request('http://localhost/evaluate-prompt', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'Translate: cat -> chat', selectedTechnique: 'one-shot', ...body }),
+    }),
+    {
+      ...guard,
+      getLLM: () => createMockProvider({ scenario: 'evaluate-well-formed' }),
+      loadTechniques: loadTestCatalog,
+      getProviderPool: pool,
+    },
+  );
+
+Deno.test('ensemble takes the majority verdict and the median score', () => {
+  const result = aggregateEvaluations([sample(true, 9), sample(false, 4), sample(true, 7), sample(true, 8)]);
+  assertEquals(result.match, true);
+  assertEquals(result.score, 7.5);
+  assertEquals(result.ensemble?.agreement, 0.75);
+  assertEquals(result.ensemble?.scoreVariance, 3.5);
+  assertEquals(result.confidence, 0.6);
+  assertEquals(result.rationale, 'Scored 7.');
+});
+
+Deno.test('ensemble breaks a tied vote with the sample nearest the median', () => {
+  const result = aggregateEvaluations([sample(true, 9), sample(false, 3), sample(false, 5), sample(true, 6)]);
+  assertEquals(result.score, 5.5);
+  assertEquals(result.match, false);
+  assertEquals(result.ensemble?.agreement, 0.5);
+});
+
+Deno.test('ensemble takes the median of each criterion', () => {
+  const criteria = (score: number) => [{ criterion: 'clarity' as const, score, comment: `Clarity ${score}.` }];
+  const result = aggregateEvaluations([
+    sample(true, 8, { criteria: criteria(6) }),
+    sample(true, 8, { criteria: criteria(9) }),
+    sample(true, 8, { criteria: criteria(7) }),
+  ], 1);
+  assertEquals(result.criteria, [{ criterion: 'clarity', score: 7, comment: 'Clarity 7.' }]);
+  assertEquals(result.ensemble?.failed, 1);
+});
+
+Deno.test('evaluate-prompt ensembles samples across the provider pool', async () => {
+  const res = await evaluate({ ensemble: { samples: 3, crossProvider: true } });
+  const body = await res.json();
+  assertEquals(res.status, 200);
+  assertEquals(body.match, true);
+  assertEquals(body.score, 8);
+  assertEquals(body.ensemble.samples.map((s: { provider: string }) => s.provider).sort(), [
+    'mock/mock-evaluate-annotated',
+    'mock/mock-evaluate-fenced',
+    'mock/mock-evaluate-well-formed',
+  ]);
+  assertEquals(body.ensemble.agreement, 0.67);
+});
+
+Deno.test('evaluate-prompt streams each ensemble sample before the verdict', async () => {
+  const res = await evaluate({ stream: true, ensemble: { samples: 4, crossProvider: true } });
+  const events: string[] = [];
+  for await (const { event } of parseSseStream(res.body!)) events.push(event);
+  assertEquals(events, ['sample', 'sample', 'sample', 'sample', 'verdict', 'score', 'reasoning', 'result']);
+});
+
+Deno.test('evaluate-prompt charges one quota unit per ensemble sample', async () => {
+  const units: number[] = [];
+  const guard: RequestGuardDeps = {
+    ...testGuard,
+    quota: { consume: (userId, fn, count) => { units.push(count); return testGuard.quota.consume(userId, fn, count); } },
+  };
+  await (await evaluate({ ensemble: { samples: 5 } }, guard)).body?.cancel();
+  assertEquals(units, [5]);
+});
+
+Deno.test('evaluate-prompt rejects ensembles outside the sample limits', async () => {
+  const res = await evaluate({ ensemble: { samples: 20 } });
+  assertEquals(res.status, 400);
+  assertStringIncludes((await res.json()).error, '3 to 7 samples');
+});
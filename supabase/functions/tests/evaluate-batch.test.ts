@@ -0,0 +1,78 @@
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handleEvaluateBatch } from "../evaluate-batch/handler.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import type { LLMProvider } from "../_shared/llm/index.ts";
+import { loadTestCatalog, testGuard } from "./fixtures.ts";
+
+const evaluateBatch = async (body: unknown, getLLM: () => LLMProvider, concurrency = 2) => {
+  const req = new Request('http://localhost/evaluate-batch', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+  const res = await handleEvaluateBatch(req, { ...testGuard, getLLM, loadTechniques: loadTestCatalog, concurrency });
+  return { status: res.status, body: await res.json() };
+};
+
+Deno.test('evaluate-batch reports per-item results and errors in order', async () => {
+  const { status, body } = await evaluateBatch({
+    items: [
+      { prompt: 'Translate: cat -> chat', technique: 'one-shot', title: 'Translate' },
+      { prompt: 'Summarize the text.', technique: 'few-shot' },
+      { prompt: 'Hi', technique: 'telepathy' },
+      { prompt: '   ', technique: 'one-shot' },
+    ],
+  }, () => createMockProvider({ scenario: 'evaluate-well-formed' }));
+
+  assertEquals(status, 200);
+  assertEquals(body.results.map((r: { status: string }) => r.status), ['ok', 'ok', 'error', 'error']);
+  assertEquals(body.results.map((r: { index: number }) => r.index), [0, 1, 2, 3]);
+  assertEquals(body.results[0].evaluation.score, 9);
+  assertEquals(body.results[1].evaluation.source, 'heuristic');
+  assertEquals(body.results[2].error.code, 'bad_request');
+  assertStringIncludes(body.results[2].error.error, 'telepathy');
+  assertEquals(body.results[3].error, { error: 'Prompt is empty', code: 'bad_request' });
+});
+
+Deno.test('evaluate-batch keeps upstream failures local to their item', async () => {
+  const { status, body } = await evaluateBatch({
+    items: [{ prompt: 'Translate: cat -> chat', technique: 'one-shot' }],
+  }, () => createMockProvider({ scenario: 'upstream-error' }));
+
+  assertEquals(status, 200);
+  assertEquals(body.results[0].status, 'error');
+  assertEquals(body.results[0].error.code, 'upstream_error');
+  assertStringIncludes(body.results[0].error.error, '503');
+});
+
+Deno.test('evaluate-batch bounds the number of concurrent model calls', async () => {
+  const mock = createMockProvider({ scenario: 'evaluate-well-formed' });
+  let inFlight = 0;
+  let peak = 0;
+  const provider: LLMProvider = {
+    ...mock,
+    generate: async (request) => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return mock.generate(request);
+    },
+  };
+
+  const items = Array.from({ length: 7 }, (_, i) => ({ prompt: `Translate: word${i} -> mot${i}`, technique: 'one-shot' }));
+  const { status, body } = await evaluateBatch({ items }, () => provider, 3);
+
+  assertEquals(status, 200);
+  assertEquals(body.results.length, 7);
+  assertEquals(peak, 3);
+});
+
+Deno.test('evaluate-batch rejects empty and oversized batches', async () => {
+  const getLLM = () => createMockProvider();
+  assertEquals((await evaluateBatch({ items: [] }, getLLM)).status, 400);
+  assertEquals((await evaluateBatch({}, getLLM)).status, 400);
+
+  const items = Array.from({ length: 26 }, () => ({ prompt: 'x', technique: 'one-shot' }));
+  const { status, body } = await evaluateBatch({ items }, getLLM);
+  assertEquals(status, 400);
+  assertStringIncludes(body.error, 'at most 25');
+});
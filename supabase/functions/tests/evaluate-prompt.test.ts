@@ -0,0 +1,242 @@
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handleEvaluatePrompt } from "../evaluate-prompt/handler.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import type { LLMRequest } from "../_shared/llm/index.ts";
+import { loadTestCatalog, testGuard } from "./fixtures.ts";
+
+const evaluate = async (scenario: string, body: unknown = { prompt: 'Translate: cat -> chat', selectedTechnique: 'one-shot' }) => {
+  const req = new Request('http://localhost/evaluate-prompt', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+  const res = await handleEvaluatePrompt(req, {
+    ...testGuard,
+    getLLM: () => createMockProvider({ scenario }),
+    loadTechniques: loadTestCatalog,
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+Deno.test('evaluate-prompt answers CORS preflight', async () => {
+  const res = await handleEvaluatePrompt(new Request('http://localhost', { method: 'OPTIONS' }), {
+    ...testGuard,
+    getLLM: () => createMockProvider(),
+    loadTechniques: loadTestCatalog,
+  });
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get('Access-Control-Allow-Origin'), '*');
+  await res.body?.cancel();
+});
+
+Deno.test('evaluate-prompt returns well-formed JSON as-is', async () => {
+  const { status, body } = await evaluate('evaluate-well-formed');
+  assertEquals(status, 200);
+  assertEquals(body, {
+    match: true,
+    score: 9,
+    exampleCount: 2,
+    confidence: 0.9,
+    criteria: [
+      { criterion: 'example_count', score: 10, comment: 'Two examples.' },
+      { criterion: 'clarity', score: 8, comment: 'Task is clear.' },
+    ],
+    annotations: [],
+    rationale: 'The prompt contains two relevant, consistent examples.',
+  });
+});
+
+Deno.test('evaluate-prompt resolves annotation quotes to character offsets', async () => {
+  const prompt = 'Translate each word to French.\ncat -> chat\ncat -> chat\nLet\'s think step by step.';
+  const { status, body } = await evaluate('evaluate-annotated', { prompt, selectedTechnique: 'few-shot' });
+  assertEquals(status, 200);
+  assertEquals(body.annotations, [
+    { kind: 'instruction', start: 0, end: 30, text: 'Translate each word to French.', note: 'States the task.' },
+    { kind: 'example', start: 31, end: 42, text: 'cat -> chat', note: 'First example.' },
+    { kind: 'example', start: 43, end: 54, text: 'cat -> chat', note: 'Repeated example.' },
+    { kind: 'reasoning_cue', start: 61, end: 79, text: 'think step by step', note: 'Asks for reasoning.' },
+  ]);
+  for (const annotation of body.annotations) {
+    assertEquals(prompt.slice(annotation.start, annotation.end), annotation.text);
+  }
+});
+
+Deno.test('evaluate-prompt coerces the legacy string shape', async () => {
+  const { status, body } = await evaluate('evaluate-legacy-shape');
+  assertEquals(status, 200);
+  assertEquals(body, {
+    match: true,
+    score: 7,
+    exampleCount: 1,
+    confidence: 0.85,
+    criteria: [],
+    annotations: [],
+    rationale: 'The prompt contains one relevant example.',
+  });
+});
+
+Deno.test('evaluate-prompt strips code fences and surrounding prose', async () => {
+  const { status, body } = await evaluate('evaluate-fenced');
+  assertEquals(status, 200);
+  assertEquals(body.match, false);
+  assertEquals(body.score, 4);
+});
+
+Deno.test('evaluate-prompt repairs malformed JSON by re-asking the model', async () => {
+  const requests: LLMRequest[] = [];
+  const mock = createMockProvider({ scenario: 'evaluate-repaired' });
+  const req = new Request('http://localhost/evaluate-prompt', {
+    method: 'POST',
+    body: JSON.stringify({ prompt: 'Translate: cat -> chat', selectedTechnique: 'one-shot' }),
+  });
+  const res = await handleEvaluatePrompt(req, {
+    ...testGuard,
+    getLLM: () => ({ ...mock, generate: (request) => { requests.push(request); return mock.generate(request); } }),
+    loadTechniques: loadTestCatalog,
+  });
+  assertEquals(res.status, 200);
+  assertEquals(await res.json(), {
+    match: false,
+    score: 3,
+    exampleCount: 0,
+    confidence: 0.7,
+    criteria: [],
+    annotations: [],
+    rationale: 'The prompt has no examples at all.',
+  });
+
+  assertEquals(requests.length, 2);
+  assertEquals(requests[0].schema?.name, 'prompt_evaluation');
+  assertEquals(requests[1].schema, requests[0].schema);
+  assertStringIncludes(requests[1].prompt, requests[0].prompt);
+  assertStringIncludes(requests[1].prompt, '{match: No, score: 3');
+  assertStringIncludes(requests[1].prompt, 'Problem: Evaluation response is not valid JSON');
+});
+
+for (const scenario of ['evaluate-malformed', 'evaluate-truncated', 'evaluate-prose', 'evaluate-unstructured', 'evaluate-empty']) {
+  Deno.test(`evaluate-prompt reports ${scenario} output as parse_failed after the repairs`, async () => {
+    const { status, body } = await evaluate(scenario);
+    assertEquals(status, 502);
+    assertEquals(body.code, 'parse_failed');
+    assertStringIncludes(body.error, 'after 3 attempts');
+    assertStringIncludes(body.error, 'not valid JSON');
+  });
+}
+
+Deno.test('evaluate-prompt rejects scores outside 0-10', async () => {
+  const { status, body } = await evaluate('evaluate-out-of-range');
+  assertEquals(status, 502);
+  assertEquals(body.code, 'parse_failed');
+  assertStringIncludes(body.error, 'score');
+});
+
+Deno.test('evaluate-prompt reports upstream failures as upstream_error', async () => {
+  const { status, body } = await evaluate('upstream-error');
+  assertEquals(status, 502);
+  assertEquals(body.code, 'upstream_error');
+  assertStringIncludes(body.error, '503');
+});
+
+Deno.test('evaluate-prompt passes on the wait asked for by a rate-limited provider', async () => {
+  const req = new Request('http://localhost/evaluate-prompt', {
+    method: 'POST',
+    body: JSON.stringify({ prompt: 'Translate: cat -> chat', selectedTechnique: 'one-shot' }),
+  });
+  const res = await handleEvaluatePrompt(req, {
+    ...testGuard,
+    getLLM: () => createMockProvider({ scenario: 'upstream-rate-limited' }),
+    loadTechniques: loadTestCatalog,
+  });
+  assertEquals(res.status, 503);
+  assertEquals(res.headers.get('Retry-After'), '20');
+  const body = await res.json();
+  assertEquals(body.code, 'upstream_rate_limited');
+  assertEquals(body.retryAfter, 20);
+});
+
+Deno.test('evaluate-prompt reports a rejected API key as config_error', async () => {
+  const { status, body } = await evaluate('upstream-unauthorized');
+  assertEquals(status, 500);
+  assertEquals(body.code, 'config_error');
+});
+
+Deno.test('evaluate-prompt rejects techniques missing from the catalog', async () => {
+  const { status, body } = await evaluate('evaluate-well-formed', { prompt: 'Hi', selectedTechnique: 'telepathy' });
+  assertEquals(status, 400);
+  assertEquals(body.code, 'bad_request');
+  assertStringIncludes(body.error, 'telepathy');
+});
+
+Deno.test('evaluate-prompt grounds the judge in the catalog entry', async () => {
+  const requests: LLMRequest[] = [];
+  const mock = createMockProvider({ scenario: 'evaluate-well-formed' });
+  const req = new Request('http://localhost/evaluate-prompt', {
+    method: 'POST',
+    body: JSON.stringify({ prompt: 'Input: 2+2\nOutput: 4', selectedTechnique: 'few-shot' }),
+  });
+  await handleEvaluatePrompt(req, {
+    ...testGuard,
+    getLLM: () => ({ ...mock, generate: (request) => { requests.push(request); return mock.generate(request); } }),
+    loadTechniques: loadTestCatalog,
+  });
+  assertEquals(requests.length, 1);
+  assertStringIncludes(requests[0].prompt, '3. Chain-of-Thought (chain-of-thought)');
+  assertStringIncludes(requests[0].prompt, 'Reward consistent, diverse examples.');
+  assertStringIncludes(requests[0].prompt, '- output_format:');
+  assertStringIncludes(requests[0].prompt, '- Example pairs found: 1');
+});
+
+Deno.test('evaluate-prompt settles obvious mismatches without calling the model', async () => {
+  const { status, body } = await evaluate('upstream-error', { prompt: 'Summarize the text below.', selectedTechnique: 'few-shot' });
+  assertEquals(status, 200);
+  assertEquals(body.source, 'heuristic');
+  assertEquals(body.match, false);
+  assertEquals(body.exampleCount, 0);
+  assertEquals(body.criteria.map((c: { criterion: string }) => c.criterion), ['example_count']);
+  assertStringIncludes(body.rationale, 'No examples were found');
+});
+
+Deno.test('evaluate-prompt annotates the facts behind a local chain-of-thought verdict', async () => {
+  const prompt = 'Input: 2+2\nOutput: 4';
+  const { status, body } = await evaluate('upstream-error', { prompt, selectedTechnique: 'chain-of-thought' });
+  assertEquals(status, 200);
+  assertEquals(body.source, 'heuristic');
+  assertEquals(body.annotations, [
+    { kind: 'example', start: 0, end: 20, text: prompt, note: 'Example detected by local analysis.' },
+  ]);
+});
+
+Deno.test('evaluate-prompt detect mode ranks catalog techniques with located evidence', async () => {
+  const prompt = 'You are a math tutor.\nQ: 2+2? A: 4\nQ: 3+5? A: 8\nThink step by step.';
+  const { status, body } = await evaluate('detect-well-formed', { mode: 'detect', prompt });
+  assertEquals(status, 200);
+  assertEquals(body.mode, 'detect');
+  assertEquals(body.detections.map((d: { technique: string }) => d.technique), ['few-shot', 'chain-of-thought', 'one-shot']);
+
+  const [fewShot, chainOfThought, oneShot] = body.detections;
+  assertEquals(fewShot.label, 'Few-shot');
+  assertEquals(fewShot.spans, [
+    { start: 22, end: 34, text: 'Q: 2+2? A: 4' },
+    { start: 35, end: 47, text: 'Q: 3+5? A: 8' },
+  ]);
+  assertEquals(chainOfThought.spans, [{ start: 48, end: 66, text: 'Think step by step' }]);
+  assertEquals(oneShot.confidence, 0);
+});
+
+Deno.test('evaluate-prompt detect mode repairs an invalid answer', async () => {
+  const { status, body } = await evaluate('detect-repaired', { mode: 'detect', prompt: 'Q: 2+2? A: 4\nQ: 3+5? A: 8' });
+  assertEquals(status, 200);
+  assertEquals(body.detections.map((d: { technique: string }) => d.technique), ['few-shot']);
+});
+
+Deno.test('evaluate-prompt detect mode reports unparseable output as parse_failed', async () => {
+  const { status, body } = await evaluate('evaluate-unstructured', { mode: 'detect', prompt: 'Hi' });
+  assertEquals(status, 502);
+  assertEquals(body.code, 'parse_failed');
+});
+
+Deno.test('evaluate-prompt does not guess a missing example count from the rationale', async () => {
+  const { status, body } = await evaluate('evaluate-missing-example-count');
+  assertEquals(status, 502);
+  assertEquals(body.code, 'parse_failed');
+  assertStringIncludes(body.error, 'exampleCount');
+});
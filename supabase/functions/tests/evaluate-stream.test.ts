@@ -0,0 +1,107 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handleEvaluatePrompt } from "../evaluate-prompt/handler.ts";
+import { createEvaluationStreamParser } from "../evaluate-prompt/stream.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import type { EvaluationStreamEvent } from "../_shared/evaluation.ts";
+import type { LLMProvider } from "../_shared/llm/index.ts";
+import { parseSseStream } from "../_shared/sse.ts";
+import { loadTestCatalog, testGuard } from "./fixtures.ts";
+
+const streamEvaluate = async (getLLM: () => LLMProvider, prompt = 'Translate: cat -> chat', selectedTechnique = 'one-shot') => {
+  const req = new Request('http://localhost/evaluate-prompt', {
+    method: 'POST',
+    body: JSON.stringify({ prompt, selectedTechnique, stream: true }),
+  });
+  return await handleEvaluatePrompt(req, { ...testGuard, getLLM, loadTechniques: loadTestCatalog });
+};
+
+const collect = async (res: Response) => {
+  const events: EvaluationStreamEvent[] = [];
+  for await (const { event, data } of parseSseStream(res.body!)) {
+    events.push({ event, data: JSON.parse(data) } as EvaluationStreamEvent);
+  }
+  return events;
+};
+
+type StreamEvent<E extends EvaluationStreamEvent['event']> = Extract<EvaluationStreamEvent, { event: E }>;
+
+// The last event, which must be of the given kind
+const lastEvent = <E extends EvaluationStreamEvent['event']>(events: EvaluationStreamEvent[], event: E) => {
+  const last = events.at(-1);
+  assertEquals(last?.event, event);
+  return last as StreamEvent<E>;
+};
+
+Deno.test('stream parser surfaces verdict, score and rationale from partial JSON', () => {
+  const parser = createEvaluationStreamParser();
+  const json = '{"match": false, "score": 7.5, "exampleCount": 1, "rationale": "Line one\\nsays \\"hi\\" caf\\u00e9."}';
+  const events = [...json].flatMap((char) => parser.push(char));
+
+  assertEquals(events[0], { event: 'verdict', data: { match: false } });
+  assertEquals(events[1], { event: 'score', data: { score: 7.5 } });
+  const reasoning = events.slice(2).map((e) => (e.event === 'reasoning' ? e.data.delta : '')).join('');
+  assertEquals(reasoning, 'Line one\nsays "hi" café.');
+  assertEquals(parser.text, json);
+});
+
+Deno.test('evaluate-prompt streams verdict, score, reasoning, then the result', async () => {
+  const res = await streamEvaluate(() => createMockProvider({ scenario: 'evaluate-well-formed' }));
+  assertEquals(res.headers.get('Content-Type'), 'text/event-stream');
+
+  const events = await collect(res);
+  assertEquals(events[0], { event: 'verdict', data: { match: true } });
+  assertEquals(events[1], { event: 'score', data: { score: 9 } });
+  assertEquals(lastEvent(events, 'result').data.rationale, 'The prompt contains two relevant, consistent examples.');
+
+  const reasoning = events.map((e) => (e.event === 'reasoning' ? e.data.delta : '')).join('');
+  assertEquals(reasoning, 'The prompt contains two relevant, consistent examples.');
+});
+
+Deno.test('evaluate-prompt streams heuristic verdicts without a model call', async () => {
+  const res = await streamEvaluate(() => createMockProvider({ scenario: 'upstream-error' }), 'Summarize the text.', 'few-shot');
+  const events = await collect(res);
+  assertEquals(events.map((e) => e.event), ['verdict', 'score', 'reasoning', 'result']);
+  assertEquals(lastEvent(events, 'result').data.source, 'heuristic');
+});
+
+Deno.test('evaluate-prompt reports stream failures as an error event', async () => {
+  const res = await streamEvaluate(() => createMockProvider({ scenario: 'upstream-error' }));
+  const events = await collect(res);
+  assertEquals(events.length, 1);
+  assertEquals(lastEvent(events, 'error').data.error, 'mock API error: 503 - upstream unavailable');
+});
+
+Deno.test('evaluate-prompt repairs an invalid streamed answer before the result', async () => {
+  const res = await streamEvaluate(() => createMockProvider({ scenario: 'evaluate-repaired' }));
+  const events = await collect(res);
+  const { data: result } = lastEvent(events, 'result');
+  assertEquals(result.match, false);
+  assertEquals(result.rationale, 'The prompt has no examples at all.');
+});
+
+Deno.test('evaluate-prompt reports an unrepairable streamed answer as parse_failed', async () => {
+  const res = await streamEvaluate(() => createMockProvider({ scenario: 'evaluate-prose' }));
+  const events = await collect(res);
+  assertEquals(lastEvent(events, 'error').data.code, 'parse_failed');
+});
+
+Deno.test('cancelling the stream aborts the upstream model call', async () => {
+  let upstreamSignal: AbortSignal | undefined;
+  const mock = createMockProvider();
+  const provider: LLMProvider = {
+    ...mock,
+    async *stream(request) {
+      upstreamSignal = request.signal;
+      yield '{"match": true, ';
+      await new Promise((resolve) => request.signal?.addEventListener('abort', resolve));
+      request.signal?.throwIfAborted();
+    },
+  };
+
+  const res = await streamEvaluate(() => provider);
+  const reader = res.body!.getReader();
+  await reader.read();
+  await reader.cancel();
+
+  assertEquals(upstreamSignal?.aborted, true);
+});
@@ -0,0 +1,64 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { JUDGE_RESPONSE_SCHEMA } from "../evaluate-prompt/parse.ts";
+import { createGeminiProvider, withPropertyOrdering } from "../_shared/llm/gemini.ts";
+import type { LLMRequest } from "../_shared/llm/index.ts";
+
+Deno.test('withPropertyOrdering pins every object to its declared property order', () => {
+  const schema = withPropertyOrdering(JUDGE_RESPONSE_SCHEMA.schema);
+  assertEquals(schema.propertyOrdering, [
+    'match',
+    'score',
+    'exampleCount',
+    'confidence',
+    'criteria',
+    'annotations',
+    'injectionSuspected',
+    'rationale',
+  ]);
+
+  const properties = schema.properties as Record<string, { items: Record<string, unknown> }>;
+  assertEquals(properties.criteria.items.propertyOrdering, ['criterion', 'score', 'comment']);
+  assertEquals(properties.annotations.items.propertyOrdering, ['kind', 'quote', 'note']);
+  assertEquals(JUDGE_RESPONSE_SCHEMA.schema.propertyOrdering, undefined);
+});
+
+// Request bodies the provider posts, answered with an empty JSON candidate
+const captureRequests = async (request: LLMRequest): Promise<Record<string, unknown>[]> => {
+  const bodies: Record<string, unknown>[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (_input, init) => {
+    bodies.push(JSON.parse(String(init?.body)));
+    return Promise.resolve(Response.json({ candidates: [{ content: { parts: [{ text: '{}' }] } }] }));
+  };
+  try {
+    await createGeminiProvider({ apiKey: 'test-key' }).generate(request);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+  return bodies;
+};
+
+Deno.test('gemini provider sends the response schema with its property order', async () => {
+  const bodies = await captureRequests({ prompt: 'Judge this', schema: JUDGE_RESPONSE_SCHEMA });
+
+  const config = bodies[0].generationConfig as { responseMimeType: string; responseSchema: Record<string, unknown> };
+  assertEquals(config.responseMimeType, 'application/json');
+  assertEquals((config.responseSchema.propertyOrdering as string[]).slice(0, 2), ['match', 'score']);
+});
+
+Deno.test('gemini provider sends chat turns as user and model contents', async () => {
+  const bodies = await captureRequests({
+    prompt: '[user]\ncat\n\n[assistant]\nchat\n\n[user]\ndog',
+    messages: [
+      { role: 'user', content: 'cat' },
+      { role: 'assistant', content: 'chat' },
+      { role: 'user', content: 'dog' },
+    ],
+  });
+
+  assertEquals(bodies[0].contents, [
+    { role: 'user', parts: [{ text: 'cat' }] },
+    { role: 'model', parts: [{ text: 'chat' }] },
+    { role: 'user', parts: [{ text: 'dog' }] },
+  ]);
+});
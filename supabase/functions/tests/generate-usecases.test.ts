@@ -0,0 +1,133 @@
+import { assert, assertEquals, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handleGenerateUseCases } from "../generate-usecases/handler.ts";
+import type { ResultCache } from "../_shared/cache.ts";
+import type { LLMRequest } from "../_shared/llm/index.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import { STRUCTURED_MAX_ATTEMPTS } from "../_shared/llm/structured.ts";
+import { loadTestCatalog, testGuard } from "./fixtures.ts";
+
+const hrRequest = { department: 'Human Resources', task: 'Reduce time to hire', count: 2 };
+
+const generate = async (scenario: string, body: unknown = hrRequest, cache?: ResultCache) => {
+  const requests: LLMRequest[] = [];
+  const mock = createMockProvider({ scenario });
+  const req = new Request('http://localhost/generate-usecases', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+  const res = await handleGenerateUseCases(req, {
+    ...testGuard,
+    getLLM: () => ({ ...mock, generate: (request) => { requests.push(request); return mock.generate(request); } }),
+    loadTechniques: loadTestCatalog,
+    cache,
+  });
+  return { status: res.status, body: await res.json(), requests };
+};
+
+const titles = (body: { usecases: { title: string }[] }) => body.usecases.map((usecase) => usecase.title);
+
+Deno.test('generate-usecases answers CORS preflight', async () => {
+  const res = await handleGenerateUseCases(new Request('http://localhost', { method: 'OPTIONS' }), {
+    ...testGuard,
+    getLLM: () => createMockProvider(),
+    loadTechniques: loadTestCatalog,
+  });
+  assertEquals(res.status, 200);
+  await res.body?.cancel();
+});
+
+Deno.test('generate-usecases returns well-formed use cases as-is', async () => {
+  const { status, body } = await generate('usecases-well-formed');
+  assertEquals(status, 200);
+  assertEquals(titles(body), [
+    'Create an AI chatbot to triage incoming support tickets',
+    'Build a churn prediction model from CRM activity',
+  ]);
+  assertEquals(body.usecases[1], {
+    title: 'Build a churn prediction model from CRM activity',
+    description: 'Scores accounts by churn risk from their recent CRM activity.',
+    prompt: 'Given the account activity below, reason step by step about its churn risk and rate it low, medium or high.',
+    businessImpact: 'Lets account managers intervene before customers leave.',
+    effort: 'high',
+    effortRationale: 'Requires clean, joined CRM history.',
+    dataSources: ['CRM activity log', 'Renewal history'],
+    risks: ['Biased scores for small accounts', 'Stale CRM data'],
+    technique: 'chain-of-thought',
+  });
+});
+
+Deno.test('generate-usecases strips code fences', async () => {
+  const { body } = await generate('usecases-fenced', { ...hrRequest, count: 1 });
+  assertEquals(titles(body), ['Develop an NLP classifier for invoice categories']);
+});
+
+Deno.test('generate-usecases asks for the requested count and detail level', async () => {
+  const brief = await generate('usecases-well-formed', { ...hrRequest, detail: 'brief' });
+  const detailed = await generate('usecases-well-formed', { ...hrRequest, detail: 'detailed' });
+  const [request] = detailed.requests;
+
+  assertStringIncludes(request.prompt, 'Generate exactly 2 distinct AI use cases');
+  assertStringIncludes(request.prompt, 'production-ready prompt');
+  assertStringIncludes(brief.requests[0].prompt, 'a prompt of at most 25 words');
+  assertStringIncludes(request.prompt, '3. Chain-of-Thought (chain-of-thought)');
+  assertEquals(request.schema?.name, 'use_cases');
+  assert(request.maxOutputTokens! > brief.requests[0].maxOutputTokens!);
+});
+
+Deno.test('generate-usecases regenerates when the cached entry has an outdated shape', async () => {
+  const stale: ResultCache = {
+    get: () => Promise.resolve({ usecases: [{ title: 'Old card', description: 'No prompt or effort' }] }),
+    set: () => Promise.resolve(),
+  };
+  const { status, body, requests } = await generate('usecases-well-formed', hrRequest, stale);
+
+  assertEquals(status, 200);
+  assertEquals(requests.length, 1);
+  assertEquals(body.cached, undefined);
+  assertEquals(body.usecases.length, 2);
+});
+
+Deno.test('generate-usecases keeps only the requested number of use cases', async () => {
+  const { status, body } = await generate('usecases-well-formed', { ...hrRequest, count: 1 });
+  assertEquals(status, 200);
+  assertEquals(titles(body), ['Create an AI chatbot to triage incoming support tickets']);
+});
+
+Deno.test('generate-usecases asks the model to repair unusable output', async () => {
+  const { status, body, requests } = await generate('usecases-repaired');
+  assertEquals(status, 200);
+  assertEquals(titles(body), ['Automate candidate screening with AI', 'Summarise exit interviews with NLP']);
+  assertEquals(requests.length, 2);
+});
+
+Deno.test('generate-usecases repairs answers with too few use cases', async () => {
+  const { status, body, requests } = await generate('usecases-well-formed', { ...hrRequest, count: 3 });
+  assertEquals(status, 502);
+  assertEquals(body.code, 'parse_failed');
+  assertStringIncludes(requests[1].prompt, 'has 2 use cases, expected 3');
+  assertEquals(requests.length, STRUCTURED_MAX_ATTEMPTS);
+});
+
+Deno.test('generate-usecases rejects techniques missing from the catalog', async () => {
+  const { status, body, requests } = await generate('usecases-unknown-technique', { ...hrRequest, count: 1 });
+  assertEquals(status, 502);
+  assertEquals(body.code, 'parse_failed');
+  assertStringIncludes(requests[1].prompt, 'unknown technique "telepathy"');
+});
+
+for (const scenario of ['usecases-action-verbs', 'usecases-numbered', 'usecases-bulleted', 'usecases-unparseable', 'usecases-wrong-shape', 'usecases-prompt-only']) {
+  Deno.test(`generate-usecases reports ${scenario} output as parse_failed without placeholder use cases`, async () => {
+    const { status, body } = await generate(scenario);
+    assertEquals(status, 502);
+    assertEquals(body.code, 'parse_failed');
+    assertEquals(body.usecases, undefined);
+  });
+}
+
+Deno.test('generate-usecases reports upstream failures as upstream_error', async () => {
+  const { status, body } = await generate('upstream-error');
+  assertEquals(status, 502);
+  assertEquals(body.code, 'upstream_error');
+  assertStringIncludes(body.error, '503');
+  assertEquals(body.usecases, undefined);
+});
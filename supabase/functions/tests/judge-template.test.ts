@@ -0,0 +1,107 @@
+import { assertEquals, assertMatch, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  BUILTIN_TEMPLATE_VERSION,
+  DEFAULT_JUDGE_TEMPLATE,
+  JUDGE_TEMPLATE_VARIABLES,
+  renderJudgeTemplate,
+  validateJudgeTemplate,
+  type JudgeTemplateVariable,
+} from "../_shared/judge-template.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import type { LLMRequest } from "../_shared/llm/index.ts";
+import { handleEvaluatePrompt } from "../evaluate-prompt/handler.ts";
+import { loadTestCatalog, testGuard } from "./fixtures.ts";
+
+const values = Object.fromEntries(
+  JUDGE_TEMPLATE_VARIABLES.map(({ id }) => [id, `<${id}>`]),
+) as Record<JudgeTemplateVariable, string>;
+
+Deno.test('the built-in judge template is valid and uses every variable', () => {
+  assertEquals(validateJudgeTemplate(DEFAULT_JUDGE_TEMPLATE.template), []);
+  for (const { id } of JUDGE_TEMPLATE_VARIABLES) {
+    assertStringIncludes(DEFAULT_JUDGE_TEMPLATE.template, `{{${id}}}`);
+  }
+});
+
+Deno.test('the built-in judge template leaves delimiting the prompt to its fence', () => {
+  assertStringIncludes(DEFAULT_JUDGE_TEMPLATE.template, 'PROMPT TO EVALUATE:\n{{prompt}}\n');
+  assertEquals(DEFAULT_JUDGE_TEMPLATE.template.includes('"""'), false);
+});
+
+Deno.test('validateJudgeTemplate requires the prompt and rejects unknown placeholders', () => {
+  assertEquals(validateJudgeTemplate('Judge {{prompt}} for {{technique_label}}.'), []);
+  assertEquals(validateJudgeTemplate('Judge {{technique_label}}.'), ['The template must include {{prompt}}.']);
+  assertEquals(validateJudgeTemplate('{{prompt}} {{tone}} {{tone}}'), ['Unknown placeholder {{tone}}.']);
+});
+
+Deno.test('renderJudgeTemplate leaves braces inside substituted values alone', () => {
+  const rendered = renderJudgeTemplate('Technique: {{technique_label}}\n{{prompt}}', {
+    ...values,
+    prompt: 'Reply to {{customer_name}} about {{technique_label}}',
+  });
+  assertEquals(rendered, 'Technique: <technique_label>\nReply to {{customer_name}} about {{technique_label}}');
+});
+
+Deno.test('evaluate-prompt judges with the active template and records its version', async () => {
+  const requests: LLMRequest[] = [];
+  const mock = createMockProvider({ scenario: 'evaluate-well-formed' });
+  const res = await handleEvaluatePrompt(
+    new Request('http://localhost/evaluate-prompt', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'Translate: cat -> chat', selectedTechnique: 'one-shot' }),
+    }),
+    {
+      ...testGuard,
+      getLLM: () => ({ ...mock, generate: (request) => { requests.push(request); return mock.generate(request); } }),
+      loadTechniques: loadTestCatalog,
+      loadJudgeTemplate: () => Promise.resolve({ version: 7, template: 'Rate {{prompt}} as {{technique_label}}. Reply in JSON.' }),
+    },
+  );
+  const body = await res.json();
+
+  assertEquals(res.status, 200);
+  assertMatch(
+    requests[0].prompt,
+    /^Rate <untrusted_prompt_(\w+)>\nTranslate: cat -> chat\n<\/untrusted_prompt_\1> as One-shot\. Reply in JSON\.$/,
+  );
+  assertEquals(body.templateVersion, 7);
+});
+
+Deno.test('results judged with the built-in template carry no template version', async () => {
+  const res = await handleEvaluatePrompt(
+    new Request('http://localhost/evaluate-prompt', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'Translate: cat -> chat', selectedTechnique: 'one-shot' }),
+    }),
+    {
+      ...testGuard,
+      getLLM: () => createMockProvider({ scenario: 'evaluate-well-formed' }),
+      loadTechniques: loadTestCatalog,
+      loadJudgeTemplate: () => Promise.resolve(DEFAULT_JUDGE_TEMPLATE),
+    },
+  );
+  const body = await res.json();
+
+  assertEquals(DEFAULT_JUDGE_TEMPLATE.version, BUILTIN_TEMPLATE_VERSION);
+  assertEquals(body.match, true);
+  assertEquals('templateVersion' in body, false);
+});
+
+Deno.test('local verdicts carry no template version', async () => {
+  const res = await handleEvaluatePrompt(
+    new Request('http://localhost/evaluate-prompt', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'Summarize the text below.', selectedTechnique: 'few-shot' }),
+    }),
+    {
+      ...testGuard,
+      getLLM: () => createMockProvider({ scenario: 'upstream-error' }),
+      loadTechniques: loadTestCatalog,
+      loadJudgeTemplate: () => Promise.resolve({ version: 7, template: '{{prompt}}' }),
+    },
+  );
+  const body = await res.json();
+
+  assertEquals(body.source, 'heuristic');
+  assertEquals(body.templateVersion, undefined);
+});
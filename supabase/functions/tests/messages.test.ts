@@ -0,0 +1,91 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handleEvaluatePrompt } from "../evaluate-prompt/handler.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import { analyzeMessages, formatTranscript, isChatMessages, type ChatMessage } from "../_shared/messages.ts";
+import { loadTestCatalog, testGuard } from "./fixtures.ts";
+
+const fewShot: ChatMessage[] = [
+  { role: 'system', content: 'Classify the sentiment of each review.' },
+  { role: 'user', content: 'Loved it!' },
+  { role: 'assistant', content: 'positive' },
+  { role: 'user', content: 'Never again.' },
+  { role: 'assistant', content: 'negative' },
+  { role: 'user', content: '{{review}}' },
+];
+
+Deno.test('formatTranscript records where each message sits in the transcript', () => {
+  const { text, turns } = formatTranscript([
+    { role: 'system', content: '  Be brief. ' },
+    { role: 'user', content: 'Hi' },
+  ]);
+  assertEquals(text, '[system]\nBe brief.\n\n[user]\nHi');
+  assertEquals(turns.map((turn) => text.slice(turn.start, turn.end)), ['Be brief.', 'Hi']);
+});
+
+Deno.test('analyzeMessages counts user/assistant pairs as examples', () => {
+  const { prompt, facts } = analyzeMessages(fewShot);
+  assertEquals(facts.exampleCount, 2);
+  assertEquals(facts.examples.map((span) => prompt.slice(span.start, span.end)), [
+    'Loved it!\n\n[assistant]\npositive',
+    'Never again.\n\n[assistant]\nnegative',
+  ]);
+  assertEquals(facts.variables, ['review']);
+  assertEquals(facts.wordCount, 13);
+});
+
+Deno.test('analyzeMessages also counts examples written inside the system message', () => {
+  const { facts } = analyzeMessages([
+    { role: 'system', content: 'Translate to French.\nInput: cat\nOutput: chat' },
+    { role: 'user', content: 'dog' },
+  ]);
+  assertEquals(facts.exampleCount, 1);
+  assertEquals(facts.examples[0].text, 'Input: cat\nOutput: chat');
+});
+
+Deno.test('isChatMessages rejects empty lists and unknown roles', () => {
+  assertEquals(isChatMessages(fewShot), true);
+  assertEquals(isChatMessages([]), false);
+  assertEquals(isChatMessages([{ role: 'tool', content: 'x' }]), false);
+  assertEquals(isChatMessages([{ role: 'user' }]), false);
+  assertEquals(isChatMessages('Hi'), false);
+});
+
+const evaluate = async (body: unknown, scenario = 'evaluate-well-formed') => {
+  const req = new Request('http://localhost/evaluate-prompt', { method: 'POST', body: JSON.stringify(body) });
+  const res = await handleEvaluatePrompt(req, {
+    ...testGuard,
+    getLLM: () => createMockProvider({ scenario }),
+    loadTechniques: loadTestCatalog,
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+Deno.test('evaluate-prompt settles chat prompts without example turns locally', async () => {
+  const { status, body } = await evaluate({
+    messages: [{ role: 'system', content: 'Classify the sentiment.' }, { role: 'user', content: 'Loved it!' }],
+    selectedTechnique: 'few-shot',
+  }, 'upstream-error');
+  assertEquals(status, 200);
+  assertEquals(body.source, 'heuristic');
+  assertEquals(body.exampleCount, 0);
+});
+
+Deno.test('evaluate-prompt judges chat prompts whose turns hold examples', async () => {
+  const { status, body } = await evaluate({ messages: fewShot, selectedTechnique: 'few-shot' });
+  assertEquals(status, 200);
+  assertEquals(body.source, undefined);
+  assertEquals(body.match, true);
+});
+
+Deno.test('evaluate-prompt renders sample values into chat messages', async () => {
+  const { body } = await evaluate({ messages: fewShot, selectedTechnique: 'few-shot', variables: { review: 'Great value.' } });
+  assertEquals(body.variables.renderedPrompt.endsWith('[user]\nGreat value.'), true);
+  assertEquals(body.variables.warnings, []);
+});
+
+Deno.test('evaluate-prompt rejects malformed messages and missing prompts', async () => {
+  const malformed = await evaluate({ messages: [{ role: 'bot', content: 'Hi' }], selectedTechnique: 'few-shot' });
+  assertEquals(malformed.status, 400);
+  const missing = await evaluate({ selectedTechnique: 'few-shot' });
+  assertEquals(missing.status, 400);
+});
@@ -0,0 +1,47 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createMockProvider, hashPrompt } from "../_shared/llm/mock.ts";
+import { getProvider } from "../_shared/llm/index.ts";
+
+Deno.test('mock provider serves the named scenario', async () => {
+  const provider = createMockProvider({ scenario: 'usecases-numbered' });
+  const response = await provider.generate({ prompt: 'anything' });
+  assertEquals(response.provider, 'mock');
+  assertEquals(response.text.startsWith('1. '), true);
+});
+
+Deno.test('mock provider prefers fixtures keyed on the prompt hash', async () => {
+  const prompt = 'Think step by step: what is 17 * 3?';
+  const provider = createMockProvider({
+    scenario: 'named',
+    fixtures: {
+      [await hashPrompt(prompt)]: { text: 'hashed' },
+      named: { text: 'named' },
+    },
+  });
+  assertEquals((await provider.generate({ prompt })).text, 'hashed');
+  assertEquals((await provider.generate({ prompt: 'other' })).text, 'named');
+});
+
+Deno.test('mock provider falls back to the default fixture', async () => {
+  const provider = createMockProvider({ scenario: 'does-not-exist' });
+  const response = await provider.generate({ prompt: 'anything' });
+  assertEquals(JSON.parse(response.text).match, true);
+});
+
+Deno.test('mock provider raises error fixtures', async () => {
+  const provider = createMockProvider({ scenario: 'upstream-error' });
+  await assertRejects(() => provider.generate({ prompt: 'anything' }));
+});
+
+Deno.test('getProvider selects the mock from the environment', () => {
+  Deno.env.set('LLM_PROVIDER', 'mock');
+  Deno.env.set('MOCK_LLM_SCENARIO', 'evaluate-fenced');
+  try {
+    const provider = getProvider();
+    assertEquals(provider.name, 'mock');
+    assertEquals(provider.model, 'mock-evaluate-fenced');
+  } finally {
+    Deno.env.delete('LLM_PROVIDER');
+    Deno.env.delete('MOCK_LLM_SCENARIO');
+  }
+});
@@ -0,0 +1,136 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handleEvaluatePrompt } from "../evaluate-prompt/handler.ts";
+import { handleGenerateUseCases } from "../generate-usecases/handler.ts";
+import { RequestValidationError } from "../_shared/errors.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import {
+  evaluationRequestSchema,
+  REQUEST_LIMITS,
+  useCaseRequestSchema,
+  validateRequest,
+} from "../_shared/requests.ts";
+import { loadTestCatalog, testGuard } from "./fixtures.ts";
+
+const post = (url: string, body: string) => new Request(url, { method: 'POST', body });
+
+const evaluate = async (body: string) => {
+  const res = await handleEvaluatePrompt(post('http://localhost/evaluate-prompt', body), {
+    ...testGuard,
+    getLLM: () => createMockProvider({ scenario: 'evaluate-well-formed' }),
+    loadTechniques: loadTestCatalog,
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+const oversizedPrompt = 'x'.repeat(REQUEST_LIMITS.promptLength + 1);
+
+Deno.test('validateRequest reports every problem by field', () => {
+  const error = assertThrows(
+    () => validateRequest(evaluationRequestSchema, { prompt: oversizedPrompt, selectedTechnique: 3, variables: { word: 1 } }),
+    RequestValidationError,
+  );
+  assertEquals(error.code, 'bad_request');
+  assertEquals(error.fields, {
+    prompt: ['Prompt must be at most 20,000 characters'],
+    selectedTechnique: ['Technique must be a technique id'],
+    'variables.word': ['Sample values must be text'],
+  });
+  assertStringIncludes(error.message, 'Prompt must be at most 20,000 characters');
+});
+
+Deno.test('evaluation requests need a prompt and, when evaluating, a technique', () => {
+  const missing = assertThrows(() => validateRequest(evaluationRequestSchema, {}), RequestValidationError);
+  assertEquals(missing.fields, { prompt: ['Provide a prompt or messages'], selectedTechnique: ['Select a technique'] });
+
+  assertEquals(validateRequest(evaluationRequestSchema, { mode: 'detect', prompt: 'Hi' }).mode, 'detect');
+  assertThrows(() => validateRequest(evaluationRequestSchema, { prompt: '   ', selectedTechnique: 'one-shot' }), RequestValidationError, 'Prompt is empty');
+});
+
+Deno.test('validated prompts keep their whitespace for annotation offsets', () => {
+  const request = validateRequest(evaluationRequestSchema, { prompt: '  Translate: cat -> chat\n', selectedTechnique: ' one-shot ' });
+  assertEquals(request.prompt, '  Translate: cat -> chat\n');
+  assertEquals(request.selectedTechnique, 'one-shot');
+  assertEquals([request.stream, request.force], [false, false]);
+});
+
+Deno.test('chat prompts are limited in message count and total length', () => {
+  const tooMany = Array.from({ length: REQUEST_LIMITS.messages + 1 }, () => ({ role: 'user', content: 'Hi' }));
+  assertThrows(() => validateRequest(evaluationRequestSchema, { messages: tooMany, selectedTechnique: 'few-shot' }), RequestValidationError, 'at most 50 messages');
+
+  const half = 'x'.repeat(REQUEST_LIMITS.promptLength / 2 + 1);
+  const tooLong = [{ role: 'system', content: half }, { role: 'user', content: half }];
+  assertThrows(() => validateRequest(evaluationRequestSchema, { messages: tooLong, selectedTechnique: 'few-shot' }), RequestValidationError, 'in total');
+});
+
+Deno.test('use case requests need a department and a bounded task', () => {
+  const error = assertThrows(
+    () => validateRequest(useCaseRequestSchema, { department: '  ', task: 'x'.repeat(REQUEST_LIMITS.taskLength + 1) }),
+    RequestValidationError,
+  );
+  assertEquals(error.fields, { department: ['Select a department'], task: ['Task must be at most 2,000 characters'] });
+
+  assertEquals(validateRequest(useCaseRequestSchema, { department: ' Sales ', task: ' Forecast ' }), {
+    department: 'Sales',
+    task: 'Forecast',
+    count: 5,
+    detail: 'standard',
+    force: false,
+  });
+});
+
+Deno.test('use case requests take 1 to 20 use cases at a known detail level', () => {
+  const error = assertThrows(
+    () => validateRequest(useCaseRequestSchema, { department: 'Sales', task: 'Forecast', count: 21, detail: 'epic' }),
+    RequestValidationError,
+  );
+  assertEquals(error.fields, {
+    count: ['Choose between 1 and 20 use cases'],
+    detail: ['Detail must be brief, standard or detailed'],
+  });
+  assertThrows(() => validateRequest(useCaseRequestSchema, { department: 'Sales', task: 'Forecast', count: 2.5 }), RequestValidationError);
+  assertEquals(validateRequest(useCaseRequestSchema, { department: 'Sales', task: 'Forecast', count: 20, detail: 'brief' }).count, 20);
+});
+
+Deno.test('use case requests take fewer use cases at the detailed level', () => {
+  const error = assertThrows(
+    () => validateRequest(useCaseRequestSchema, { department: 'Sales', task: 'Forecast', count: 20, detail: 'detailed' }),
+    RequestValidationError,
+  );
+  assertEquals(error.fields, { count: ['Detailed use cases are limited to 12 per request'] });
+  assertEquals(validateRequest(useCaseRequestSchema, { department: 'Sales', task: 'Forecast', count: 12, detail: 'detailed' }).count, 12);
+});
+
+Deno.test('evaluate-prompt answers an oversized prompt with 400 and field errors', async () => {
+  const { status, body } = await evaluate(JSON.stringify({ prompt: oversizedPrompt, selectedTechnique: 'one-shot' }));
+  assertEquals(status, 400);
+  assertEquals(body.code, 'bad_request');
+  assertEquals(body.fields, { prompt: ['Prompt must be at most 20,000 characters'] });
+});
+
+Deno.test('evaluate-prompt names the technique field when the id is not in the catalog', async () => {
+  const { status, body } = await evaluate(JSON.stringify({ prompt: 'Hi', selectedTechnique: 'telepathy' }));
+  assertEquals(status, 400);
+  assertEquals(Object.keys(body.fields), ['selectedTechnique']);
+});
+
+Deno.test('evaluate-prompt answers a body that is not JSON with 400', async () => {
+  const { status, body } = await evaluate('{"prompt": ');
+  assertEquals(status, 400);
+  assertEquals(body.code, 'bad_request');
+  assertEquals(body.error, 'Request body must be valid JSON');
+});
+
+Deno.test('generate-usecases rejects a missing department before calling the model', async () => {
+  let calls = 0;
+  const res = await handleGenerateUseCases(post('http://localhost/generate-usecases', JSON.stringify({ task: 'Reduce time to hire' })), {
+    ...testGuard,
+    getLLM: () => {
+      calls++;
+      return createMockProvider({ scenario: 'usecases-well-formed' });
+    },
+    loadTechniques: loadTestCatalog,
+  });
+  assertEquals(res.status, 400);
+  assertEquals((await res.json()).fields, { department: ['Select a department'] });
+  assertEquals(calls, 0);
+});
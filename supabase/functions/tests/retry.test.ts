@@ -0,0 +1,151 @@
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { AppError, errorResponse, toErrorBody } from "../_shared/errors.ts";
+import { backoffDelay, withRetries, type RetryPolicy } from "../_shared/llm/retry.ts";
+import type { LLMProvider, LLMRequest } from "../_shared/llm/index.ts";
+import { parseRetryAfter, UpstreamError, upstreamErrorFromResponse } from "../_shared/llm/upstream.ts";
+
+const policy: RetryPolicy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 50, timeoutMs: 30 };
+
+// Provider that plays back a script of failures before answering
+const scriptedProvider = (script: (Error | string)[]) => {
+  const requests: LLMRequest[] = [];
+  const next = (request: LLMRequest) => {
+    requests.push(request);
+    const step = script[Math.min(requests.length - 1, script.length - 1)];
+    if (step instanceof Error) throw step;
+    return step;
+  };
+  const provider: LLMProvider = {
+    name: 'scripted',
+    model: 'scripted-1',
+    // Failures surface as rejections, the way a provider call fails
+    generate: (request) => Promise.resolve().then(() => ({ text: next(request), provider: 'scripted', model: 'scripted-1' })),
+    async *stream(request) {
+      const text = next(request);
+      for (const part of text.split(' ')) yield part;
+    },
+  };
+  return { provider, requests };
+};
+
+const serverError = () => new UpstreamError('upstream_error', 'scripted API error: 503', { status: 503, retryable: true });
+
+Deno.test('upstreamErrorFromResponse classifies provider failures', async () => {
+  const rateLimited = await upstreamErrorFromResponse('openai', new Response('slow down', { status: 429, headers: { 'Retry-After': '7' } }));
+  assertEquals([rateLimited.code, rateLimited.retryable, rateLimited.retryAfter], ['upstream_rate_limited', true, 7]);
+  assertEquals(rateLimited.message, 'openai API error: 429 - slow down');
+
+  const badKey = await upstreamErrorFromResponse('openai', new Response('no', { status: 401 }));
+  assertEquals([badKey.code, badKey.retryable], ['config_error', false]);
+
+  const gatewayTimeout = await upstreamErrorFromResponse('openai', new Response('', { status: 504 }));
+  assertEquals([gatewayTimeout.code, gatewayTimeout.retryable], ['upstream_timeout', true]);
+
+  const unavailable = await upstreamErrorFromResponse('openai', new Response('', { status: 503 }));
+  assertEquals([unavailable.code, unavailable.retryable], ['upstream_error', true]);
+
+  const invalid = await upstreamErrorFromResponse('openai', new Response('bad model', { status: 400 }));
+  assertEquals([invalid.code, invalid.retryable], ['upstream_error', false]);
+});
+
+Deno.test('parseRetryAfter reads seconds and HTTP dates', () => {
+  assertEquals(parseRetryAfter('12'), 12);
+  assertEquals(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', Date.parse('2026-01-01T00:00:00Z')), 30);
+  assertEquals(parseRetryAfter('soon'), undefined);
+  assertEquals(parseRetryAfter(null), undefined);
+});
+
+Deno.test('errorResponse uses the status and Retry-After of the code', async () => {
+  const res = errorResponse(new AppError('upstream_rate_limited', 'Busy', 5));
+  assertEquals(res.status, 503);
+  assertEquals(res.headers.get('Retry-After'), '5');
+  assertEquals(await res.json(), { error: 'Busy', code: 'upstream_rate_limited', retryAfter: 5 });
+
+  assertEquals(toErrorBody(new Error('boom')), { error: 'boom', code: 'internal_error' });
+});
+
+Deno.test('backoffDelay grows exponentially up to the cap, scaled by jitter', () => {
+  const wide: RetryPolicy = { ...policy, baseDelayMs: 100, maxDelayMs: 1000 };
+  assertEquals([0, 1, 2, 3, 4].map((retry) => backoffDelay(retry, wide, () => 1)), [100, 200, 400, 800, 1000]);
+  assertEquals(backoffDelay(3, wide, () => 0.5), 400);
+  assertEquals(backoffDelay(3, wide, () => 0), 0);
+});
+
+Deno.test('withRetries retries retryable failures until one succeeds', async () => {
+  const { provider, requests } = scriptedProvider([serverError(), new TypeError('connection reset'), 'ok']);
+  const response = await withRetries(provider, policy).generate({ prompt: 'Hi' });
+  assertEquals(response.text, 'ok');
+  assertEquals(requests.length, 3);
+});
+
+Deno.test('withRetries gives up after maxRetries with the last failure', async () => {
+  const { provider, requests } = scriptedProvider([serverError()]);
+  const error = await assertRejects(() => withRetries(provider, policy).generate({ prompt: 'Hi' }), UpstreamError);
+  assertEquals(error.code, 'upstream_error');
+  assertEquals(requests.length, 3);
+});
+
+Deno.test('withRetries does not retry failures a retry cannot fix', async () => {
+  const { provider, requests } = scriptedProvider([new UpstreamError('config_error', 'invalid key', { status: 401 }), 'ok']);
+  await assertRejects(() => withRetries(provider, policy).generate({ prompt: 'Hi' }), UpstreamError, 'invalid key');
+  assertEquals(requests.length, 1);
+});
+
+Deno.test('withRetries honours a short Retry-After and reports a long one', async () => {
+  const short = scriptedProvider([new UpstreamError('upstream_rate_limited', 'busy', { retryable: true, retryAfter: 0 }), 'ok']);
+  assertEquals((await withRetries(short.provider, policy).generate({ prompt: 'Hi' })).text, 'ok');
+
+  const long = scriptedProvider([new UpstreamError('upstream_rate_limited', 'busy', { retryable: true, retryAfter: 60 }), 'ok']);
+  const error = await assertRejects(() => withRetries(long.provider, policy).generate({ prompt: 'Hi' }), UpstreamError);
+  assertEquals([error.code, error.retryAfter], ['upstream_rate_limited', 60]);
+  assertEquals(long.requests.length, 1);
+});
+
+Deno.test('withRetries aborts attempts that exceed the timeout', async () => {
+  const requests: LLMRequest[] = [];
+  const hanging: LLMProvider = {
+    name: 'hanging',
+    model: 'hanging-1',
+    generate: (request) => {
+      requests.push(request);
+      return new Promise((_, reject) => request.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError'))));
+    },
+    stream: () => { throw new Error('not used'); },
+  };
+  const error = await assertRejects(() => withRetries(hanging, { ...policy, maxRetries: 1 }).generate({ prompt: 'Hi' }), UpstreamError);
+  assertEquals(error.code, 'upstream_timeout');
+  assertEquals(requests.length, 2);
+  assert(requests.every((request) => request.signal?.aborted));
+});
+
+Deno.test('withRetries does not retry a call the caller cancelled', async () => {
+  const { provider, requests } = scriptedProvider([serverError(), 'ok']);
+  const controller = new AbortController();
+  controller.abort();
+  await assertRejects(() => withRetries(provider, policy).generate({ prompt: 'Hi', signal: controller.signal }));
+  assertEquals(requests.length, 1);
+});
+
+Deno.test('withRetries retries a stream only before its first chunk', async () => {
+  const { provider, requests } = scriptedProvider([serverError(), 'streamed after retry']);
+  const chunks: string[] = [];
+  for await (const chunk of withRetries(provider, policy).stream({ prompt: 'Hi' })) chunks.push(chunk);
+  assertEquals(chunks, ['streamed', 'after', 'retry']);
+  assertEquals(requests.length, 2);
+
+  let calls = 0;
+  const failsMidway: LLMProvider = {
+    ...provider,
+    async *stream() {
+      calls++;
+      yield 'partial';
+      throw serverError();
+    },
+  };
+  const received: string[] = [];
+  await assertRejects(async () => {
+    for await (const chunk of withRetries(failsMidway, policy).stream({ prompt: 'Hi' })) received.push(chunk);
+  }, UpstreamError);
+  assertEquals(received, ['partial']);
+  assertEquals(calls, 1);
+});
@@ -0,0 +1,74 @@
+import { assert, assertEquals, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handleRewritePrompt } from "../rewrite-prompt/handler.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import type { LLMRequest } from "../_shared/llm/index.ts";
+import { loadTestCatalog, testGuard } from "./fixtures.ts";
+
+const rewrite = async (scenario: string, body: unknown, requests: LLMRequest[] = []) => {
+  const mock = createMockProvider({ scenario });
+  const req = new Request('http://localhost/rewrite-prompt', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+  const res = await handleRewritePrompt(req, {
+    ...testGuard,
+    getLLM: () => ({ ...mock, generate: (request) => { requests.push(request); return mock.generate(request); } }),
+    loadTechniques: loadTestCatalog,
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+const request = {
+  prompt: 'Classify the sentiment of this review: {review}',
+  selectedTechnique: 'few-shot',
+  evaluation: {
+    match: false,
+    score: 3,
+    rationale: 'No examples are provided.',
+    criteria: [
+      { criterion: 'example_count', score: 0, comment: 'No examples.' },
+      { criterion: 'clarity', score: 9, comment: 'Clear task.' },
+    ],
+  },
+};
+
+Deno.test('rewrite-prompt returns the rewritten prompt and change list', async () => {
+  const requests: LLMRequest[] = [];
+  const { status, body } = await rewrite('rewrite-well-formed', request, requests);
+  assertEquals(status, 200);
+  assertStringIncludes(body.rewrittenPrompt, 'Review: I love it\nSentiment: positive');
+  assertEquals(body.changes, ['Added two labelled examples']);
+
+  // Only criteria scoring below 7 are passed on as weaknesses
+  assertStringIncludes(requests[0].prompt, '- Example count (0/10): No examples.');
+  assertEquals(requests[0].prompt.includes('Clear task.'), false);
+});
+
+Deno.test('rewrite-prompt rejects responses without a rewritten prompt', async () => {
+  const { status, body } = await rewrite('rewrite-missing-prompt', request);
+  assertEquals(status, 502);
+  assertEquals(body.code, 'parse_failed');
+  assertStringIncludes(body.error, 'rewrittenPrompt');
+});
+
+Deno.test('rewrite-prompt reports invalid JSON as parse_failed after asking for a repair', async () => {
+  const requests: LLMRequest[] = [];
+  const { status, body } = await rewrite('evaluate-unstructured', request, requests);
+  assertEquals(status, 502);
+  assertEquals(body.code, 'parse_failed');
+  assertStringIncludes(requests[1].prompt, 'Rewrite response is not valid JSON');
+});
+
+Deno.test('rewrite-prompt fences the original prompt', async () => {
+  const requests: LLMRequest[] = [];
+  await rewrite('rewrite-well-formed', request, requests);
+  const fenced = requests[0].prompt.match(/<untrusted_prompt_(\w+)>\n([\s\S]*?)\n<\/untrusted_prompt_\1>/);
+  assert(fenced, 'prompt is not fenced');
+  assertEquals(fenced[2], request.prompt);
+  assertEquals(requests[0].schema?.name, 'prompt_rewrite');
+});
+
+Deno.test('rewrite-prompt rejects techniques missing from the catalog', async () => {
+  const { status } = await rewrite('rewrite-well-formed', { ...request, selectedTechnique: 'telepathy' });
+  assertEquals(status, 400);
+});
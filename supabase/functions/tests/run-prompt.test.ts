@@ -0,0 +1,105 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handleRunPrompt } from "../run-prompt/handler.ts";
+import { buildRunRequest } from "../run-prompt/prompt.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import type { LLMRequest } from "../_shared/llm/index.ts";
+import { MAX_RUN_CASES } from "../_shared/playground.ts";
+import { testGuard } from "./fixtures.ts";
+
+const run = async (body: unknown, requests: LLMRequest[] = [], scenario = 'run-answer') => {
+  const mock = createMockProvider({ scenario });
+  const req = new Request('http://localhost/run-prompt', { method: 'POST', body: JSON.stringify(body) });
+  const res = await handleRunPrompt(req, {
+    ...testGuard,
+    getLLM: () => ({
+      ...mock,
+      generate: (request) => {
+        requests.push(request);
+        return request.prompt.includes('FAIL') ? Promise.reject(new Error('mock failure')) : mock.generate(request);
+      },
+    }),
+    concurrency: 2,
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+Deno.test('buildRunRequest renders variables and appends the input', () => {
+  assertEquals(
+    buildRunRequest({ prompt: 'Translate to {{lang}}:' }, { input: ' Hello ', variables: { lang: 'French' } }),
+    { prompt: 'Translate to French:\n\nHello' },
+  );
+  assertEquals(buildRunRequest({ prompt: 'Say hi.' }, {}), { prompt: 'Say hi.' });
+});
+
+Deno.test('buildRunRequest sends chat turns as role messages and system messages as the system prompt', () => {
+  const messages = [
+    { role: 'system' as const, content: 'Answer in {{lang}}.' },
+    { role: 'user' as const, content: 'cat' },
+    { role: 'assistant' as const, content: 'chat' },
+  ];
+  assertEquals(buildRunRequest({ messages }, { input: 'dog', variables: { lang: 'French' } }), {
+    system: 'Answer in French.',
+    prompt: '[user]\ncat\n\n[assistant]\nchat\n\n[user]\ndog',
+    messages: [
+      { role: 'user', content: 'cat' },
+      { role: 'assistant', content: 'chat' },
+      { role: 'user', content: 'dog' },
+    ],
+  });
+  assertEquals(buildRunRequest({ messages: [messages[0]] }, { input: 'dog' }), {
+    system: 'Answer in {{lang}}.',
+    prompt: '[user]\ndog',
+    messages: [{ role: 'user', content: 'dog' }],
+  });
+});
+
+Deno.test('run-prompt returns one result per test case in order', async () => {
+  const requests: LLMRequest[] = [];
+  const { status, body } = await run({
+    prompt: 'Translate to French: {{text}}',
+    cases: [{ variables: { text: 'Hello' } }, { variables: { text: 'FAIL' } }, { variables: { text: 'Goodbye' } }],
+  }, requests);
+
+  assertEquals(status, 200);
+  assertEquals(body.results.map((r: { status: string }) => r.status), ['ok', 'error', 'ok']);
+  assertEquals(body.results.map((r: { index: number }) => r.index), [0, 1, 2]);
+  assertEquals(body.results[0].output, 'Bonjour, comment allez-vous ?');
+  assertEquals(body.results[0].model, 'mock-run-answer');
+  assertEquals(body.results[1].error, { error: 'mock failure', code: 'internal_error' });
+  assertEquals(requests.map((request) => request.prompt).sort(), [
+    'Translate to French: FAIL',
+    'Translate to French: Goodbye',
+    'Translate to French: Hello',
+  ]);
+});
+
+Deno.test('run-prompt reports each failed case with its error code and wait', async () => {
+  const { status, body } = await run({ prompt: 'Say hi.', cases: [{}] }, [], 'upstream-rate-limited');
+  assertEquals(status, 200);
+  assertEquals(body.results[0].status, 'error');
+  assertEquals(body.results[0].error.code, 'upstream_rate_limited');
+  assertEquals(body.results[0].error.retryAfter, 20);
+});
+
+Deno.test('run-prompt rejects requests without a prompt or with bad cases', async () => {
+  assertEquals((await run({ cases: [{ input: 'x' }] })).status, 400);
+  assertEquals((await run({ prompt: 'Hi', cases: [] })).status, 400);
+  assertEquals((await run({ prompt: 'Hi', cases: [{ input: 3 }] })).status, 400);
+  assertEquals((await run({ prompt: 'Hi', cases: [{ variables: { a: 1 } }] })).status, 400);
+  assertEquals((await run({ messages: [{ role: 'tool', content: 'x' }], cases: [{}] })).status, 400);
+  const tooMany = Array.from({ length: MAX_RUN_CASES + 1 }, () => ({ input: 'x' }));
+  assertEquals((await run({ prompt: 'Hi', cases: tooMany })).status, 400);
+});
+
+Deno.test('run-prompt requires an input for chat prompts with only system messages', async () => {
+  const requests: LLMRequest[] = [];
+  const messages = [{ role: 'system', content: 'You are a poet.' }];
+  const { status, body } = await run({ messages, cases: [{ input: 'Write a haiku.' }, { input: '  ' }] }, requests);
+
+  assertEquals(status, 400);
+  assertEquals(body.code, 'bad_request');
+  assertEquals(Object.keys(body.fields), ['cases.1.input']);
+  assertEquals(requests, []);
+
+  assertEquals((await run({ messages, cases: [{ input: 'Write a haiku.' }] })).status, 200);
+});
@@ -0,0 +1,46 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { generateStructured, type LLMProvider, type LLMRequest } from "../_shared/llm/index.ts";
+
+// Provider that answers with each reply in turn and records the requests
+const replayProvider = (replies: string[]) => {
+  const requests: LLMRequest[] = [];
+  const provider: LLMProvider = {
+    name: 'replay',
+    model: 'replay-1',
+    generate: (request) => {
+      requests.push(request);
+      return Promise.resolve({ text: replies[requests.length - 1], provider: 'replay', model: 'replay-1' });
+    },
+    async *stream() {},
+  };
+  return { provider, requests };
+};
+
+const parseScore = (text: string) => {
+  const { score } = JSON.parse(text);
+  if (typeof score !== 'number') throw new Error('"score" must be a number');
+  return score;
+};
+
+Deno.test('generateStructured quotes the rejected response in the repair prompt', async () => {
+  const { provider, requests } = replayProvider(['{"score": "high"}', '{"score": 4}']);
+  assertEquals(await generateStructured(provider, { prompt: 'Rate it.' }, parseScore), 4);
+  assertEquals(requests.length, 2);
+  assertEquals(requests[1].prompt.startsWith('Rate it.\n\nYour previous response could not be used:\n{"score": "high"}'), true);
+  assertEquals(requests[1].prompt.includes('Problem: "score" must be a number'), true);
+});
+
+Deno.test('generateStructured repairs message-based requests with new turns', async () => {
+  const { provider, requests } = replayProvider(['not json', '{"score": 5}']);
+  const messages = [{ role: 'user' as const, content: 'Rate it.' }];
+  assertEquals(await generateStructured(provider, { prompt: '[user]\nRate it.', messages }, parseScore), 5);
+
+  const repair = requests[1].messages ?? [];
+  assertEquals(repair.length, 3);
+  assertEquals(repair[0], messages[0]);
+  assertEquals(repair[1], { role: 'assistant', content: 'not json' });
+  assertEquals(repair[2].role, 'user');
+  assertEquals(repair[2].content.startsWith('Your previous response could not be used.\n\nProblem: '), true);
+  assertEquals(repair[2].content.endsWith('Respond again with a single corrected JSON object and nothing else.'), true);
+  assertEquals(messages.length, 1);
+});
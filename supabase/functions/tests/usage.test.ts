@@ -0,0 +1,76 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { estimateCost } from "../_shared/llm/pricing.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import { withUsageTracking, type UsageEntry } from "../_shared/usage.ts";
+import { handleEvaluatePrompt } from "../evaluate-prompt/handler.ts";
+import { loadTestCatalog, testGuard } from "./fixtures.ts";
+
+const recorder = () => {
+  const entries: UsageEntry[] = [];
+  return { entries, record: (entry: UsageEntry) => { entries.push(entry); return Promise.resolve(); } };
+};
+
+const context = { userId: 'user-1', functionName: 'evaluate-prompt' };
+
+Deno.test('estimateCost prices known model families by prefix', () => {
+  assertEquals(estimateCost('gpt-4o-mini-2024-07-18', { promptTokens: 1_000_000, completionTokens: 1_000_000 }), 0.75);
+  assertEquals(estimateCost('gpt-4o', { promptTokens: 1000, completionTokens: 0 }), 0.0025);
+  assertEquals(estimateCost('llama3', { promptTokens: 1000, completionTokens: 1000 }), null);
+});
+
+Deno.test('usage tracking records reported tokens for generate calls', async () => {
+  const { entries, record } = recorder();
+  const provider = withUsageTracking(createMockProvider({ scenario: 'evaluate-well-formed' }), record, context);
+
+  await provider.generate({ prompt: 'x'.repeat(40) });
+
+  assertEquals(entries.length, 1);
+  assertEquals(entries[0].userId, 'user-1');
+  assertEquals(entries[0].model, 'mock-evaluate-well-formed');
+  assertEquals(entries[0].promptTokens, 10);
+  assertEquals(entries[0].tokensEstimated, false);
+  assertEquals(entries[0].costUsd, null);
+  assertEquals(entries[0].status, 'ok');
+});
+
+Deno.test('usage tracking records failed calls before rethrowing', async () => {
+  const { entries, record } = recorder();
+  const provider = withUsageTracking(createMockProvider({ scenario: 'upstream-error' }), record, context);
+
+  await assertRejects(() => provider.generate({ prompt: 'hello' }));
+
+  assertEquals(entries.map((entry) => [entry.status, entry.completionTokens]), [['error', 0]]);
+});
+
+Deno.test('usage tracking estimates tokens for streams and marks cancellations', async () => {
+  const { entries, record } = recorder();
+  const provider = withUsageTracking(createMockProvider({ scenario: 'evaluate-well-formed' }), record, context);
+
+  let text = '';
+  for await (const chunk of provider.stream({ prompt: 'hello' })) text += chunk;
+  for await (const _chunk of provider.stream({ prompt: 'hello' })) break;
+
+  assertEquals(entries[0].status, 'ok');
+  assertEquals(entries[0].tokensEstimated, true);
+  assertEquals(entries[0].completionTokens, Math.ceil(text.length / 4));
+  assertEquals(entries[1].status, 'cancelled');
+});
+
+Deno.test('evaluate-prompt records usage against the caller', async () => {
+  const { entries, record } = recorder();
+  const res = await handleEvaluatePrompt(
+    new Request('http://localhost/evaluate-prompt', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'Translate: cat -> chat', selectedTechnique: 'one-shot' }),
+    }),
+    {
+      ...testGuard,
+      getLLM: () => createMockProvider({ scenario: 'evaluate-well-formed' }),
+      loadTechniques: loadTestCatalog,
+      recordUsage: record,
+    },
+  );
+  await res.body?.cancel();
+
+  assertEquals(entries.map((entry) => [entry.userId, entry.functionName]), [['test-user', 'evaluate-prompt']]);
+});
@@ -0,0 +1,157 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handleEvaluatePrompt } from "../evaluate-prompt/handler.ts";
+import type { LLMProvider } from "../_shared/llm/index.ts";
+import { createMockProvider } from "../_shared/llm/mock.ts";
+import { parseSseStream } from "../_shared/sse.ts";
+import type { RequestGuardDeps } from "../_shared/auth.ts";
+import type { TextSpan } from "../_shared/spans.ts";
+import { checkVariables, findVariableUses, renderVariables } from "../_shared/variables.ts";
+import { loadTestCatalog, testGuard } from "./fixtures.ts";
+
+const kinds = (prompt: string, values: Record<string, string>, examples: TextSpan[] = []) =>
+  checkVariables(prompt, values, examples).map((warning) => `${warning.kind}:${warning.variable}`);
+
+Deno.test('findVariableUses finds both placeholder syntaxes in order', () => {
+  const uses = findVariableUses('Hi {{ name }}, about {topic} and {{name}}. Keep {{{raw}}} and {} as text.');
+  assertEquals(uses.map(({ name, syntax, text }) => ({ name, syntax, text })), [
+    { name: 'name', syntax: 'double', text: '{{ name }}' },
+    { name: 'topic', syntax: 'single', text: '{topic}' },
+    { name: 'name', syntax: 'double', text: '{{name}}' },
+    { name: 'raw', syntax: 'double', text: '{{raw}}' },
+  ]);
+});
+
+Deno.test('renderVariables substitutes values and leaves blank ones in place', () => {
+  assertEquals(
+    renderVariables('Dear {{name}}, re {topic}: {{name}}', { name: 'Ada', topic: '  ' }),
+    'Dear Ada, re {topic}: Ada',
+  );
+});
+
+Deno.test('checkVariables reports undefined and unused variables', () => {
+  assertEquals(kinds('Reply to {{customer}} about {order}', { customer: 'Ada', order: '', coupon: 'SAVE10' }), [
+    'undefined:order',
+    'unused:coupon',
+  ]);
+});
+
+Deno.test('checkVariables reports mixed syntax and near-duplicate names', () => {
+  assertEquals(kinds('{{name}} and {name}; {{customer_name}} vs {{customerName}}', {
+    name: 'a',
+    customer_name: 'b',
+    customerName: 'c',
+  }), [
+    'inconsistent:name',
+    'inconsistent:customerName',
+  ]);
+});
+
+Deno.test('checkVariables reports variables present in only some examples', () => {
+  const prompt = 'Input: {{text}} -> A\nInput: hello -> B\nInput: {{text}} {{lang}} -> C';
+  const lines = prompt.split('\n');
+  let start = 0;
+  const examples = lines.map((text) => {
+    const span = { start, end: start + text.length, text };
+    start += text.length + 1;
+    return span;
+  });
+  assertEquals(kinds(prompt, { text: 'x', lang: 'fr' }, examples), [
+    'inconsistent:text',
+    'inconsistent:lang',
+  ]);
+});
+
+const evaluate = async (body: unknown, guard: RequestGuardDeps = testGuard) => {
+  const req = new Request('http://localhost/evaluate-prompt', { method: 'POST', body: JSON.stringify(body) });
+  return await handleEvaluatePrompt(req, {
+    ...guard,
+    getLLM: () => createMockProvider({ scenario: 'evaluate-well-formed' }),
+    loadTechniques: loadTestCatalog,
+  });
+};
+
+Deno.test('evaluate-prompt judges the rendered prompt when sample values are given', async () => {
+  let units = 0;
+  const guard = { ...testGuard, quota: { consume: (...args: [string, string, number]) => {
+    units = args[2];
+    return testGuard.quota.consume(...args);
+  } } };
+  const res = await evaluate({
+    prompt: 'Translate: {{word}} -> chat',
+    selectedTechnique: 'one-shot',
+    variables: { word: 'cat', tone: 'formal' },
+  }, guard);
+  const body = await res.json();
+
+  assertEquals(res.status, 200);
+  assertEquals(units, 2);
+  assertEquals(body.match, true);
+  assertEquals(body.variables.names, ['word']);
+  assertEquals(body.variables.renderedPrompt, 'Translate: cat -> chat');
+  assertEquals(body.variables.rendered.score, 9);
+  assertEquals(body.variables.warnings.map((warning: { kind: string }) => warning.kind), ['unused']);
+});
+
+Deno.test('evaluate-prompt skips the variable check without sample values', async () => {
+  const body = await (await evaluate({ prompt: 'Translate: {{word}} -> chat', selectedTechnique: 'one-shot' })).json();
+  assertEquals(body.variables, undefined);
+});
+
+Deno.test('evaluate-prompt rejects sample values that are not strings', async () => {
+  const res = await evaluate({ prompt: 'Translate: {{word}}', selectedTechnique: 'one-shot', variables: { word: 3 } });
+  assertEquals(res.status, 400);
+  await res.body?.cancel();
+});
+
+Deno.test('evaluate-prompt attaches the variable check to the streamed result', async () => {
+  const res = await evaluate({
+    prompt: 'Translate: {{word}} -> chat',
+    selectedTechnique: 'one-shot',
+    variables: { word: 'cat' },
+    stream: true,
+  });
+  const events = [];
+  for await (const { event, data } of parseSseStream(res.body!)) events.push({ event, data: JSON.parse(data) });
+
+  const result = events.at(-1)!;
+  assertEquals(result.event, 'result');
+  assertEquals(result.data.variables.renderedPrompt, 'Translate: cat -> chat');
+  assertEquals(result.data.variables.warnings, []);
+});
+
+Deno.test('cancelling the stream aborts the rendered prompt evaluation', async () => {
+  // Both model calls hang until aborted; the stream is cancelled once both have started
+  const signals: AbortSignal[] = [];
+  let bothStarted: () => void;
+  const started = new Promise<void>((resolve) => { bothStarted = resolve; });
+  const waitForAbort = (signal?: AbortSignal) => {
+    if (signals.push(signal!) === 2) bothStarted();
+    return new Promise((resolve) => signal?.addEventListener('abort', resolve));
+  };
+  const mock = createMockProvider();
+  const provider: LLMProvider = {
+    ...mock,
+    async generate(request) {
+      await waitForAbort(request.signal);
+      request.signal?.throwIfAborted();
+      return mock.generate(request);
+    },
+    async *stream(request) {
+      yield '{"match": true, ';
+      await waitForAbort(request.signal);
+      request.signal?.throwIfAborted();
+    },
+  };
+  const req = new Request('http://localhost/evaluate-prompt', {
+    method: 'POST',
+    body: JSON.stringify({ prompt: 'Translate: {{word}} -> chat', selectedTechnique: 'one-shot', variables: { word: 'cat' }, stream: true }),
+  });
+  const res = await handleEvaluatePrompt(req, { ...testGuard, getLLM: () => provider, loadTechniques: loadTestCatalog });
+
+  const reader = res.body!.getReader();
+  await reader.read();
+  await started;
+  await reader.cancel();
+
+  assertEquals(signals.map((signal) => signal.aborted), [true, true]);
+});
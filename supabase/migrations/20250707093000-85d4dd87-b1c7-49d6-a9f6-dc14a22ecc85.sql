@@ -0,0 +1,118 @@
+-- Create prompt_techniques catalog shared by the evaluator UI and edge functions
+CREATE TABLE public.prompt_techniques (
+  id TEXT NOT NULL PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT NOT NULL,
+  detection_criteria TEXT NOT NULL,
+  scoring_rubric TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.prompt_techniques ENABLE ROW LEVEL SECURITY;
+
+-- The catalog is readable by everyone; changes are made through migrations or the dashboard
+CREATE POLICY "Anyone can view prompt techniques" 
+ON public.prompt_techniques 
+FOR SELECT 
+USING (true);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_prompt_techniques_updated_at
+BEFORE UPDATE ON public.prompt_techniques
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed the catalog
+INSERT INTO public.prompt_techniques (id, label, description, detection_criteria, scoring_rubric, sort_order) VALUES
+(
+  'zero-shot',
+  'Zero-shot',
+  'Task instructions only, no examples',
+  'The prompt states the task directly and contains no worked input/output examples.',
+  'Reward clear, specific instructions and explicit constraints. Penalise any embedded examples and vague task descriptions.',
+  10
+),
+(
+  'one-shot',
+  'One-shot',
+  'Single example provided',
+  'The prompt contains exactly one example (an input paired with its expected output) to guide the model.',
+  'Reward a single relevant example whose format matches the expected output. Penalise zero or multiple examples and examples unrelated to the task.',
+  20
+),
+(
+  'few-shot',
+  'Few-shot',
+  'Multiple examples provided',
+  'The prompt contains two or more examples (input/output pairs) to guide the model.',
+  'Reward 2+ relevant, consistent and diverse examples sharing one format. Penalise fewer than two examples, inconsistent formats and contradictory labels.',
+  30
+),
+(
+  'chain-of-thought',
+  'Chain-of-Thought',
+  'Step-by-step reasoning',
+  'The prompt shows step-by-step reasoning or explicitly asks the model to reason through intermediate steps before answering.',
+  'Reward explicit reasoning cues ("think step by step", worked reasoning in examples) and a separate final answer. Penalise prompts that only ask for the answer.',
+  40
+),
+(
+  'role-persona',
+  'Role / Persona',
+  'Assigns the model a role or persona',
+  'The prompt tells the model who it is or whose perspective to adopt (e.g. "You are a senior tax advisor").',
+  'Reward a specific, relevant role with stated expertise, audience and tone. Penalise generic roles that do not influence the answer.',
+  50
+),
+(
+  'react',
+  'ReAct',
+  'Interleaved reasoning and actions',
+  'The prompt asks the model to alternate Thought / Action / Observation steps, usually with a list of tools or actions it may take.',
+  'Reward a defined action set, an explicit Thought/Action/Observation loop and a termination condition. Penalise missing tools or no stopping rule.',
+  60
+),
+(
+  'self-consistency',
+  'Self-Consistency',
+  'Multiple reasoning paths, majority answer',
+  'The prompt asks the model to produce several independent reasoning paths or answers and pick the most consistent one.',
+  'Reward an explicit request for multiple independent solutions and an aggregation rule. Penalise single-path reasoning.',
+  70
+),
+(
+  'tree-of-thought',
+  'Tree-of-Thought',
+  'Branching exploration of alternatives',
+  'The prompt asks the model to explore several candidate thoughts or branches, evaluate them and expand or prune the promising ones.',
+  'Reward branching, explicit evaluation of each branch and backtracking or pruning. Penalise linear reasoning presented as a tree.',
+  80
+),
+(
+  'step-back',
+  'Step-Back',
+  'Abstract to principles before answering',
+  'The prompt first asks a more general or high-level question (principles, concepts) and then uses that answer to solve the specific problem.',
+  'Reward a distinct abstraction step followed by application to the original question. Penalise prompts that skip the abstraction.',
+  90
+),
+(
+  'least-to-most',
+  'Least-to-Most',
+  'Decompose into progressively harder subproblems',
+  'The prompt asks the model to break the problem into simpler subproblems and solve them in order, reusing earlier answers.',
+  'Reward explicit decomposition, ordered solving and reuse of intermediate results. Penalise decomposition without sequential solving.',
+  100
+),
+(
+  'structured-output',
+  'Structured Output',
+  'Specifies an exact output format',
+  'The prompt defines a precise response format such as a JSON schema, table, or template the answer must follow.',
+  'Reward an unambiguous schema with field names, types and an example. Penalise loose format hints like "be concise".',
+  110
+);
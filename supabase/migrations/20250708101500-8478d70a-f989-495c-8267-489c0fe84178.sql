@@ -0,0 +1,29 @@
+-- Add strictly typed evaluation columns to prompt_evaluations
+ALTER TABLE public.prompt_evaluations
+  ADD COLUMN is_match BOOLEAN,
+  ADD COLUMN score NUMERIC(4,2) CHECK (score >= 0 AND score <= 10),
+  ADD COLUMN example_count INTEGER CHECK (example_count >= 0),
+  ADD COLUMN confidence NUMERIC(3,2) CHECK (confidence >= 0 AND confidence <= 1),
+  ADD COLUMN rationale TEXT;
+
+-- Backfill typed columns from the legacy free-text strings
+-- ("Yes"/"No"/"Analysis provided" and ratings like "7/10 with brief explanation")
+UPDATE public.prompt_evaluations
+SET
+  is_match = CASE
+    WHEN evaluation_match ~* '^\s*yes' THEN true
+    WHEN evaluation_match ~* '^\s*(no|partially)' THEN false
+    ELSE NULL
+  END,
+  score = LEAST(10, GREATEST(0, substring(evaluation_rating from '^\s*(\d+(?:\.\d+)?)')::numeric)),
+  example_count = substring(evaluation_reason from '(\d+)\s+(?:\w+\s+){0,3}examples?\M')::integer,
+  rationale = evaluation_reason;
+
+ALTER TABLE public.prompt_evaluations
+  ALTER COLUMN rationale SET NOT NULL;
+
+-- Legacy string columns are kept for provenance but no longer written by the app
+ALTER TABLE public.prompt_evaluations
+  ALTER COLUMN evaluation_match DROP NOT NULL,
+  ALTER COLUMN evaluation_reason DROP NOT NULL,
+  ALTER COLUMN evaluation_rating DROP NOT NULL;
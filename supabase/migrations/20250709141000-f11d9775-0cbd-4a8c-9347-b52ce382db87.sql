@@ -0,0 +1,41 @@
+-- Create prompt_evaluation_criteria table for per-criterion rubric scores
+CREATE TABLE public.prompt_evaluation_criteria (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  evaluation_id UUID NOT NULL REFERENCES public.prompt_evaluations(id) ON DELETE CASCADE,
+  criterion TEXT NOT NULL,
+  score NUMERIC(4,2) NOT NULL CHECK (score >= 0 AND score <= 10),
+  comment TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (evaluation_id, criterion)
+);
+
+CREATE INDEX idx_prompt_evaluation_criteria_evaluation_id
+ON public.prompt_evaluation_criteria (evaluation_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.prompt_evaluation_criteria ENABLE ROW LEVEL SECURITY;
+
+-- Access follows ownership of the parent evaluation
+CREATE POLICY "Users can view criteria of their own evaluations" 
+ON public.prompt_evaluation_criteria 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.prompt_evaluations e
+  WHERE e.id = evaluation_id AND e.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can create criteria for their own evaluations" 
+ON public.prompt_evaluation_criteria 
+FOR INSERT 
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.prompt_evaluations e
+  WHERE e.id = evaluation_id AND e.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can delete criteria of their own evaluations" 
+ON public.prompt_evaluation_criteria 
+FOR DELETE 
+USING (EXISTS (
+  SELECT 1 FROM public.prompt_evaluations e
+  WHERE e.id = evaluation_id AND e.user_id = auth.uid()
+));
@@ -0,0 +1,4 @@
+-- Store inline span annotations (examples, instructions, reasoning cues and
+-- output-format specs) as character offsets into prompt_text
+ALTER TABLE public.prompt_evaluations
+  ADD COLUMN annotations JSONB NOT NULL DEFAULT '[]'::jsonb;
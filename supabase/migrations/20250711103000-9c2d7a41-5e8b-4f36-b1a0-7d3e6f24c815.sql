@@ -0,0 +1,45 @@
+-- Save a batch of evaluations and their rubric criteria in one transaction.
+-- Runs with the caller's privileges, so the existing RLS policies apply and
+-- every row is owned by the calling user. Any failing row rolls back the batch.
+CREATE OR REPLACE FUNCTION public.save_evaluation_batch(evaluations JSONB)
+RETURNS SETOF UUID AS $$
+DECLARE
+  item JSONB;
+  new_id UUID;
+BEGIN
+  FOR item IN SELECT * FROM jsonb_array_elements(evaluations)
+  LOOP
+    INSERT INTO public.prompt_evaluations (
+      user_id,
+      title,
+      prompt_text,
+      selected_technique,
+      is_match,
+      score,
+      example_count,
+      confidence,
+      rationale,
+      annotations
+    )
+    VALUES (
+      auth.uid(),
+      item->>'title',
+      item->>'prompt_text',
+      item->>'selected_technique',
+      (item->>'is_match')::boolean,
+      (item->>'score')::numeric,
+      (item->>'example_count')::integer,
+      (item->>'confidence')::numeric,
+      item->>'rationale',
+      COALESCE(item->'annotations', '[]'::jsonb)
+    )
+    RETURNING id INTO new_id;
+
+    INSERT INTO public.prompt_evaluation_criteria (evaluation_id, criterion, score, comment)
+    SELECT new_id, c->>'criterion', (c->>'score')::numeric, COALESCE(c->>'comment', '')
+    FROM jsonb_array_elements(COALESCE(item->'criteria', '[]'::jsonb)) AS c;
+
+    RETURN NEXT new_id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,16 @@
+-- Content-addressed cache for model results. Keys are SHA-256 hashes of the
+-- normalized input plus prompt version and model, computed by the edge
+-- functions; rows expire after CACHE_TTL_SECONDS.
+CREATE TABLE public.llm_result_cache (
+  cache_key TEXT NOT NULL PRIMARY KEY,
+  result JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX idx_llm_result_cache_expires_at
+ON public.llm_result_cache (expires_at);
+
+-- Enable Row Level Security without policies: only the service role used by
+-- the edge functions can read or write the cache
+ALTER TABLE public.llm_result_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,133 @@
+-- Per-user quotas for the LLM-backed edge functions. Every accepted request is
+-- logged in quota_usage; limits come from user_quota_limits when a row exists
+-- and fall back to 30 per minute and 500 per UTC day otherwise.
+CREATE TABLE public.user_quota_limits (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  per_minute INTEGER NOT NULL CHECK (per_minute >= 0),
+  per_day INTEGER NOT NULL CHECK (per_day >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.quota_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  function_name TEXT NOT NULL,
+  units INTEGER NOT NULL DEFAULT 1 CHECK (units > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_quota_usage_user_id_created_at
+ON public.quota_usage (user_id, created_at);
+
+-- Enable Row Level Security; only the service role writes either table
+ALTER TABLE public.user_quota_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quota_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quota limits" 
+ON public.user_quota_limits 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own quota usage" 
+ON public.quota_usage 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Quota status for a user as if `units` more were requested now. The minute
+-- window is rolling; the day window resets at midnight UTC.
+CREATE OR REPLACE FUNCTION public.quota_status(p_user_id UUID, p_units INTEGER DEFAULT 0)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  minute_limit INTEGER,
+  minute_remaining INTEGER,
+  day_limit INTEGER,
+  day_remaining INTEGER,
+  retry_after_seconds INTEGER
+) AS $$
+  WITH limits AS (
+    SELECT
+      COALESCE(l.per_minute, 30) AS per_minute,
+      COALESCE(l.per_day, 500) AS per_day
+    FROM (SELECT 1) AS one
+    LEFT JOIN public.user_quota_limits l ON l.user_id = p_user_id
+  ),
+  usage AS (
+    SELECT
+      COALESCE(SUM(u.units) FILTER (WHERE u.created_at > now() - interval '1 minute'), 0)::INTEGER AS minute_used,
+      COALESCE(SUM(u.units) FILTER (WHERE u.created_at >= date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'), 0)::INTEGER AS day_used,
+      MIN(u.created_at) FILTER (WHERE u.created_at > now() - interval '1 minute') AS minute_oldest
+    FROM public.quota_usage u
+    WHERE u.user_id = p_user_id AND u.created_at > now() - interval '1 day'
+  )
+  SELECT
+    usage.minute_used + p_units <= limits.per_minute AND usage.day_used + p_units <= limits.per_day,
+    limits.per_minute,
+    GREATEST(limits.per_minute - usage.minute_used, 0),
+    limits.per_day,
+    GREATEST(limits.per_day - usage.day_used, 0),
+    CASE
+      WHEN usage.day_used + p_units > limits.per_day THEN
+        CEIL(EXTRACT(EPOCH FROM (date_trunc('day', now() AT TIME ZONE 'UTC') + interval '1 day') - (now() AT TIME ZONE 'UTC')))::INTEGER
+      WHEN usage.minute_used + p_units > limits.per_minute THEN
+        GREATEST(CEIL(EXTRACT(EPOCH FROM COALESCE(usage.minute_oldest, now()) + interval '1 minute' - now())), 1)::INTEGER
+      ELSE 0
+    END
+  FROM limits, usage;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Charges `units` against a user's quota when both windows allow it. Called by
+-- the edge functions with the service role; a per-user advisory lock keeps
+-- concurrent requests from overspending.
+CREATE OR REPLACE FUNCTION public.consume_quota(p_user_id UUID, p_function TEXT, p_units INTEGER DEFAULT 1)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  minute_limit INTEGER,
+  minute_remaining INTEGER,
+  day_limit INTEGER,
+  day_remaining INTEGER,
+  retry_after_seconds INTEGER
+) AS $$
+DECLARE
+  status RECORD;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text));
+
+  SELECT * INTO status FROM public.quota_status(p_user_id, p_units);
+
+  IF status.allowed THEN
+    INSERT INTO public.quota_usage (user_id, function_name, units)
+    VALUES (p_user_id, p_function, p_units);
+
+    status.minute_remaining := status.minute_remaining - p_units;
+    status.day_remaining := status.day_remaining - p_units;
+  END IF;
+
+  -- Rows older than both windows are no longer needed
+  DELETE FROM public.quota_usage
+  WHERE user_id = p_user_id AND created_at < now() - interval '2 days';
+
+  RETURN QUERY SELECT
+    status.allowed,
+    status.minute_limit,
+    status.minute_remaining,
+    status.day_limit,
+    status.day_remaining,
+    status.retry_after_seconds;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION public.consume_quota(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_quota(UUID, TEXT, INTEGER) TO service_role;
+
+-- Remaining quota of the calling user, shown in the app header
+CREATE OR REPLACE FUNCTION public.get_my_quota()
+RETURNS TABLE (
+  allowed BOOLEAN,
+  minute_limit INTEGER,
+  minute_remaining INTEGER,
+  day_limit INTEGER,
+  day_remaining INTEGER,
+  retry_after_seconds INTEGER
+) AS $$
+  SELECT * FROM public.quota_status(auth.uid(), 0);
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
@@ -0,0 +1,28 @@
+-- Ledger of every model call made by the edge functions: tokens, model,
+-- latency and estimated cost, attributed to the calling user and function
+CREATE TABLE public.llm_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  function_name TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0 CHECK (prompt_tokens >= 0),
+  completion_tokens INTEGER NOT NULL DEFAULT 0 CHECK (completion_tokens >= 0),
+  tokens_estimated BOOLEAN NOT NULL DEFAULT false,
+  latency_ms INTEGER NOT NULL CHECK (latency_ms >= 0),
+  cost_usd NUMERIC(12,6),
+  status TEXT NOT NULL DEFAULT 'ok' CHECK (status IN ('ok', 'error', 'cancelled')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_llm_usage_user_id_created_at
+ON public.llm_usage (user_id, created_at DESC);
+
+-- Enable Row Level Security; rows are written by the edge functions with the
+-- service role and users can only read their own
+ALTER TABLE public.llm_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own LLM usage" 
+ON public.llm_usage 
+FOR SELECT 
+USING (auth.uid() = user_id);
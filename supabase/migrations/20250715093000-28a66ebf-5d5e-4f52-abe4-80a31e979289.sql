@@ -0,0 +1,162 @@
+-- Versioned judge prompt templates. evaluate-prompt renders the active
+-- version; versions are never edited in place, so every stored evaluation
+-- keeps the exact instructions it was judged with.
+CREATE TABLE public.judge_prompt_templates (
+  version INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  template TEXT NOT NULL CHECK (position('{{prompt}}' IN template) > 0),
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  activated_at TIMESTAMP WITH TIME ZONE
+);
+
+-- At most one version is active at a time
+CREATE UNIQUE INDEX idx_judge_prompt_templates_active
+ON public.judge_prompt_templates (is_active)
+WHERE is_active;
+
+-- Admins are users whose app_metadata carries role "admin", which only the
+-- service role can set
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+$$ LANGUAGE sql STABLE;
+
+-- Enable Row Level Security; the edge functions read the active version with
+-- the service role, admins read every version and add new inactive ones
+ALTER TABLE public.judge_prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view judge prompt templates" 
+ON public.judge_prompt_templates 
+FOR SELECT 
+USING (public.is_admin());
+
+CREATE POLICY "Admins can create judge prompt templates" 
+ON public.judge_prompt_templates 
+FOR INSERT 
+WITH CHECK (public.is_admin() AND NOT is_active AND created_by = auth.uid());
+
+-- Switch the active version in one transaction
+CREATE OR REPLACE FUNCTION public.activate_judge_template(p_version INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can activate judge templates' USING ERRCODE = '42501';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.judge_prompt_templates WHERE version = p_version) THEN
+    RAISE EXCEPTION 'Judge template version % does not exist', p_version USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.judge_prompt_templates
+  SET is_active = false
+  WHERE is_active AND version <> p_version;
+
+  UPDATE public.judge_prompt_templates
+  SET is_active = true, activated_at = now()
+  WHERE version = p_version AND NOT is_active;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Version 1 is the template previously built into evaluate-prompt
+INSERT INTO public.judge_prompt_templates (template, notes, is_active, activated_at) VALUES
+($template$You are an expert in prompt engineering and AI prompting techniques. Your task is to evaluate whether a given prompt matches the selected prompting technique.
+
+Prompting Techniques:
+{{catalog}}
+
+Evaluation Criteria:
+- Count the number of examples in the prompt
+- Check if examples are relevant and consistent with the task
+- Determine if the style matches the selected technique
+
+How to recognise {{technique_label}}:
+{{detection_criteria}}
+
+Scoring rubric for {{technique_label}}:
+{{scoring_rubric}}
+
+Score the prompt from 0 to 10 on each of these criteria (higher is always better):
+{{rubric_criteria}}
+
+Annotate the regions of the prompt that matter for the evaluation, quoting each one verbatim. Use these kinds:
+{{annotation_kinds}}
+
+Evaluate this prompt for the "{{technique_label}}" technique:
+
+PROMPT TO EVALUATE:
+"""
+{{prompt}}
+"""
+
+SELECTED TECHNIQUE: {{technique_label}}
+
+Facts established by static analysis of the prompt (treat these as reliable):
+{{facts}}
+
+Please analyze and provide your evaluation in the following JSON format (return ONLY the JSON, no other text):
+{
+  "match": true or false,
+  "score": number from 0 to 10,
+  "exampleCount": number of examples found in the prompt,
+  "confidence": number from 0 to 1 describing how certain you are,
+  "criteria": [
+    { "criterion": "criterion id from the list above", "score": number from 0 to 10, "comment": "One sentence on why" }
+  ],
+  "annotations": [
+    { "kind": "annotation kind from the list above", "quote": "exact text copied from the prompt", "note": "One sentence on what this part does" }
+  ],
+  "rationale": "Detailed explanation mentioning number of examples, their relevance, and logic used"
+}$template$, 'Initial template, previously built into evaluate-prompt', true, now());
+
+-- Provenance of each evaluation; null for local verdicts and older rows
+ALTER TABLE public.prompt_evaluations
+ADD COLUMN judge_template_version INTEGER REFERENCES public.judge_prompt_templates(version);
+
+-- Save a batch of evaluations and their rubric criteria in one transaction.
+-- Runs with the caller's privileges, so the existing RLS policies apply and
+-- every row is owned by the calling user. Any failing row rolls back the batch.
+CREATE OR REPLACE FUNCTION public.save_evaluation_batch(evaluations JSONB)
+RETURNS SETOF UUID AS $$
+DECLARE
+  item JSONB;
+  new_id UUID;
+BEGIN
+  FOR item IN SELECT * FROM jsonb_array_elements(evaluations)
+  LOOP
+    INSERT INTO public.prompt_evaluations (
+      user_id,
+      title,
+      prompt_text,
+      selected_technique,
+      is_match,
+      score,
+      example_count,
+      confidence,
+      rationale,
+      annotations,
+      judge_template_version
+    )
+    VALUES (
+      auth.uid(),
+      item->>'title',
+      item->>'prompt_text',
+      item->>'selected_technique',
+      (item->>'is_match')::boolean,
+      (item->>'score')::numeric,
+      (item->>'example_count')::integer,
+      (item->>'confidence')::numeric,
+      item->>'rationale',
+      COALESCE(item->'annotations', '[]'::jsonb),
+      (item->>'judge_template_version')::integer
+    )
+    RETURNING id INTO new_id;
+
+    INSERT INTO public.prompt_evaluation_criteria (evaluation_id, criterion, score, comment)
+    SELECT new_id, c->>'criterion', (c->>'score')::numeric, COALESCE(c->>'comment', '')
+    FROM jsonb_array_elements(COALESCE(item->'criteria', '[]'::jsonb)) AS c;
+
+    RETURN NEXT new_id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
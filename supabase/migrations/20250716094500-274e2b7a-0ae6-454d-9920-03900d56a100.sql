@@ -0,0 +1,41 @@
+-- Outputs of playground runs, where the evaluated prompt is executed against
+-- test inputs. Runs are saved alongside the evaluation they belong to.
+CREATE TABLE public.prompt_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  evaluation_id UUID NOT NULL REFERENCES public.prompt_evaluations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  input TEXT NOT NULL DEFAULT '',
+  variables JSONB NOT NULL DEFAULT '{}'::jsonb,
+  output TEXT,
+  error TEXT,
+  provider TEXT,
+  model TEXT,
+  latency_ms INTEGER CHECK (latency_ms >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- A run either produced an output or failed with an error
+  CHECK ((output IS NULL) <> (error IS NULL))
+);
+
+CREATE INDEX idx_prompt_runs_evaluation_id
+ON public.prompt_runs (evaluation_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.prompt_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own prompt runs" 
+ON public.prompt_runs 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create runs for their own evaluations" 
+ON public.prompt_runs 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id AND EXISTS (
+  SELECT 1 FROM public.prompt_evaluations e
+  WHERE e.id = evaluation_id AND e.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can delete their own prompt runs" 
+ON public.prompt_runs 
+FOR DELETE 
+USING (auth.uid() = user_id);
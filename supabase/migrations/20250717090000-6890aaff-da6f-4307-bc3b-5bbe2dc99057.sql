@@ -0,0 +1,28 @@
+-- The prompt is now wrapped in tags with a random suffix before it is
+-- substituted, so the triple quotes around {{prompt}} only gave it a way to
+-- close its own block. Versions are never edited in place: the active
+-- template is copied without the quotes into a new version, which is then
+-- activated. Evaluations and cached results of older versions keep the
+-- instructions they were judged with.
+DO $$
+DECLARE
+  new_version INTEGER;
+BEGIN
+  INSERT INTO public.judge_prompt_templates (template, notes)
+  SELECT
+    replace(template, E'"""\n{{prompt}}\n"""', '{{prompt}}'),
+    format('Version %s without the triple quotes around the fenced prompt', version)
+  FROM public.judge_prompt_templates
+  WHERE is_active AND position(E'"""\n{{prompt}}\n"""' IN template) > 0
+  RETURNING version INTO new_version;
+
+  IF new_version IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- activate_judge_template only runs for admins; the migration has no
+  -- session, so it claims the admin role for this transaction only
+  PERFORM set_config('request.jwt.claims', '{"app_metadata": {"role": "admin"}}', true);
+  PERFORM public.activate_judge_template(new_version);
+END;
+$$;